@@ -1,6 +1,24 @@
+// Paid books live in the order store; the temp-dir default loses them in production
+if (process.env.NODE_ENV === 'production' && process.env.STRIPE_SECRET_KEY && !process.env.ORDER_STORE_DIR) {
+  throw new Error('ORDER_STORE_DIR must point to durable storage when payments are enabled in production');
+}
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-  // No special config needed for Jimp (pure JS)
+  experimental: {
+    // Read from disk at runtime: the WEBP decoder's wasm (imageProcessor.ts),
+    // the PDF fonts (pdfFonts.ts) and the preview fonts (pagePreview.ts)
+    outputFileTracingIncludes: {
+      '/api/**/*': [
+        './node_modules/@jsquash/webp/codec/dec/*.wasm',
+        './node_modules/@expo-google-fonts/nunito/{400Regular,400Regular_Italic,700Bold,800ExtraBold}/*.ttf',
+        './node_modules/@expo-google-fonts/fredoka/600SemiBold/*.ttf',
+        './node_modules/@expo-google-fonts/baloo-2/700Bold/*.ttf',
+        './node_modules/@expo-google-fonts/patrick-hand/400Regular/*.ttf',
+        './node_modules/@jimp/plugin-print/dist/fonts/open-sans/open-sans-{8,10,12,14,16,32,64}-black/*',
+      ],
+    },
+  },
 };
 
 module.exports = nextConfig;
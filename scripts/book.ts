@@ -0,0 +1,115 @@
+/**
+ * Generate a book from a JSON manifest, locally and without the server
+ *
+ *   npm run book -- book.json            write the PDF (and page PNGs with "pages")
+ *   npm run book -- book.json --watch    rebuild whenever the manifest or a photo changes
+ *
+ * The manifest takes the /api/generate form fields plus per-photo settings,
+ * see src/lib/bookManifest.ts and the README.
+ */
+
+import { watch, FSWatcher } from 'fs';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+import { buildBook, BookRequestError } from '../src/lib/bookBuilder';
+import { loadManifest, LoadedManifest } from '../src/lib/bookManifest';
+import { t } from '../src/lib/i18n';
+
+/** Quiet period after a change before rebuilding (editors write files in bursts) */
+const WATCH_DEBOUNCE_MS = 300;
+
+async function generate(manifestPath: string): Promise<LoadedManifest> {
+  const started = Date.now();
+  const manifest = await loadManifest(manifestPath);
+  const { request, out, pagesDir } = manifest;
+
+  if (pagesDir) await mkdir(pagesDir, { recursive: true });
+  let pageNumber = 0;
+
+  const pdf = await buildBook(request, () => {}, async (page, photoIndex) => {
+    if (!pagesDir) return;
+    pageNumber++;
+    const prefix = path.join(pagesDir, `${String(pageNumber).padStart(2, '0')}-photo${photoIndex + 1}-${page.type}`);
+    await writeFile(`${prefix}.png`, page.image);
+    if (page.solution) await writeFile(`${prefix}-solution.png`, page.solution);
+  });
+
+  await mkdir(path.dirname(out), { recursive: true });
+  await writeFile(out, pdf);
+  console.log(`✓ ${out} (${request.photos.length} photos, ${(pdf.length / 1024).toFixed(0)} KB, ${Date.now() - started} ms)`);
+  if (pagesDir) console.log(`  pages: ${pagesDir}`);
+  return manifest;
+}
+
+function describe(error: unknown): string {
+  if (error instanceof BookRequestError) return `Invalid manifest: ${t('en', error.key, error.params)}`;
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Rebuild on changes until interrupted; a failed build keeps watching
+ */
+function watchManifest(manifestPath: string) {
+  let watchers: FSWatcher[] = [];
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+  let pending = false;
+
+  const rewatch = (paths: string[]) => {
+    watchers.forEach(watcher => watcher.close());
+    watchers = paths.map(p => watch(p, schedule));
+  };
+
+  const run = async () => {
+    if (running) {
+      pending = true;
+      return;
+    }
+    running = true;
+    do {
+      pending = false;
+      try {
+        const manifest = await generate(manifestPath);
+        rewatch(manifest.watchPaths);
+      } catch (error) {
+        console.error(`✗ ${describe(error)}`);
+        if (!watchers.length) rewatch([path.resolve(manifestPath)]);
+      }
+    } while (pending);
+    running = false;
+    console.log('Watching for changes (Ctrl+C to stop)...');
+  };
+
+  function schedule() {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(run, WATCH_DEBOUNCE_MS);
+  }
+
+  run();
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      watch: { type: 'boolean', short: 'w', default: false },
+    },
+  });
+
+  const [manifestPath] = positionals;
+  if (!manifestPath) {
+    throw new Error('Usage: book <manifest.json> [--watch]');
+  }
+
+  if (values.watch) {
+    watchManifest(manifestPath);
+    return;
+  }
+  await generate(manifestPath);
+}
+
+main().catch(error => {
+  console.error(describe(error));
+  process.exit(1);
+});
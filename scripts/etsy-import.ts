@@ -0,0 +1,73 @@
+/**
+ * Etsy bulk fulfillment: one PDF per order from the sold order items CSV
+ *
+ *   npm run etsy-import -- --csv EtsySoldOrderItems.csv --photos ./fotos --out ./books
+ *
+ * Options: --difficulty kleinkind|kind|erwachsene, --paper-size a4|a5|letter,
+ * --locale de|en|fr, --raster (bitmap lines instead of vectors), --dry-run
+ * (list the orders and their photos without building).
+ * Exit code 1 when any order failed; details in <out>/report.json.
+ */
+
+import { readFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import { fulfillOrders, findOrderPhotos, parseEtsyOrders } from '../src/lib/etsyImport';
+import { isDifficulty } from '../src/lib/difficulty';
+import { isPaperSize } from '../src/lib/pageLayout';
+import { isLocale } from '../src/lib/i18n';
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      csv: { type: 'string' },
+      photos: { type: 'string' },
+      out: { type: 'string', default: 'etsy-books' },
+      difficulty: { type: 'string' },
+      'paper-size': { type: 'string' },
+      locale: { type: 'string' },
+      raster: { type: 'boolean', default: false },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  });
+
+  const { csv, photos, out, difficulty, locale } = values;
+  const paperSize = values['paper-size'];
+  if (!csv || !photos) {
+    throw new Error('Usage: etsy-import --csv <orders.csv> --photos <dir> [--out <dir>]');
+  }
+  if (difficulty !== undefined && !isDifficulty(difficulty)) throw new Error(`Unknown difficulty: ${difficulty}`);
+  if (paperSize !== undefined && !isPaperSize(paperSize)) throw new Error(`Unknown paper size: ${paperSize}`);
+  if (locale !== undefined && !isLocale(locale)) throw new Error(`Unknown locale: ${locale}`);
+
+  const orders = parseEtsyOrders(await readFile(csv, 'utf8'));
+  console.log(`${orders.length} orders in ${csv}`);
+
+  if (values['dry-run']) {
+    for (const order of orders) {
+      const found = await findOrderPhotos(photos, order.orderId);
+      console.log(`${order.orderId}  ${order.name || '(no name)'}  ${order.bookType}  ${order.theme}  ${found.length} photos`);
+      order.warnings.forEach(warning => console.log(`  ! ${warning}`));
+    }
+    return;
+  }
+
+  const report = await fulfillOrders(
+    orders,
+    { photosDir: photos, outDir: out!, difficulty, paperSize, locale, vectorOutput: !values.raster },
+    (result, index) => {
+      const progress = `[${index + 1}/${orders.length}]`;
+      console.log(result.status === 'ok'
+        ? `${progress} ✓ ${result.orderId} ${result.name}: ${result.photos} photos → ${result.file}`
+        : `${progress} ✗ ${result.orderId} ${result.name}: ${result.error}`);
+      result.warnings?.forEach(warning => console.log(`  ! ${warning}`));
+    }
+  );
+
+  console.log(`\n${report.ok} ok, ${report.failed} failed, ${report.withWarnings} with items left out (report: ${out}/report.json)`);
+  if (report.failed) process.exitCode = 1;
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
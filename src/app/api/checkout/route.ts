@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrderStore } from '@/lib/orders';
+import { createCheckoutSession, paymentsEnabled } from '@/lib/payments';
+import { requestLocale, t } from '@/lib/i18n';
+
+/**
+ * Start Stripe Checkout for a generated book
+ * POST { orderId } → { url } to redirect the buyer to
+ */
+export async function POST(request: NextRequest) {
+  const locale = requestLocale(request);
+  try {
+    if (!paymentsEnabled()) {
+      return NextResponse.json({ error: t(locale, 'api.paymentsDisabled') }, { status: 503 });
+    }
+
+    const { orderId } = await request.json().catch(() => ({}));
+    const orders = getOrderStore();
+    const order = typeof orderId === 'string' ? await orders.get(orderId) : null;
+
+    if (!order) {
+      return NextResponse.json({ error: t(locale, 'api.orderNotFound') }, { status: 404 });
+    }
+    if (order.status === 'paid') {
+      return NextResponse.json({ error: t(locale, 'api.orderAlreadyPaid') }, { status: 409 });
+    }
+
+    const session = await createCheckoutSession(order, request.nextUrl.origin);
+    await orders.update({ ...order, checkoutSessionId: session.id });
+
+    console.log(`Checkout session ${session.id} created for order ${order.id}`);
+
+    return NextResponse.json({ url: session.url });
+  } catch (error) {
+    console.error('Checkout error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: t(locale, 'api.checkoutFailed', { error: errorMessage }) },
+      { status: 500 }
+    );
+  }
+}
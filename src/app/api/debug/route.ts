@@ -1,56 +1,129 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { photoToColoringPage } from '@/lib/imageProcessor';
+import { ColoringOptions } from '@/lib/coloringPage';
+import { timingSafeEqual } from 'crypto';
+import { Locale, MessageKey, MessageParams, requestLocale, t } from '@/lib/i18n';
+import { checkRateLimit, clientIp } from '@/lib/rateLimit';
+import { checkImage, checkUploadSize } from '@/lib/uploadValidation';
+
+const TUNABLE_PARAMS = ['blurSigma', 'lowThreshold', 'highThreshold', 'minContourLength', 'strokeWidth'] as const;
+
+const isDevelopment = process.env.NODE_ENV === 'development';
+
+function errorResponse(locale: Locale, key: MessageKey, status: number, params: MessageParams = {}) {
+  return NextResponse.json(
+    {
+      error: t(locale, key, params),
+      code: key.replace(/^api\./, ''),
+      ...(Object.keys(params).length ? { details: params } : {}),
+    },
+    { status }
+  );
+}
+
+function tokenMatches(given: string, expected: string): boolean {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Open in development; elsewhere only with DEBUG_TOKEN set and sent as the
+ * X-Debug-Token header (or ?token=). Without DEBUG_TOKEN the route doesn't exist.
+ */
+function checkAccess(request: NextRequest, locale: Locale): NextResponse | null {
+  if (isDevelopment) return null;
+  const expected = process.env.DEBUG_TOKEN;
+  if (!expected) return errorResponse(locale, 'api.debugDisabled', 404);
+
+  const given = request.headers.get('x-debug-token') || request.nextUrl.searchParams.get('token') || '';
+  if (!tokenMatches(given, expected)) return errorResponse(locale, 'api.debugUnauthorized', 401);
+  return null;
+}
 
 /**
  * Debug endpoint - returns processed image directly (not in PDF)
  * POST /api/debug with a single image file
  */
 export async function POST(request: NextRequest) {
+  const locale = requestLocale(request);
+  const denied = checkAccess(request, locale);
+  if (denied) return denied;
+
+  const limit = checkRateLimit('debug', clientIp(request));
+  if (!limit.allowed) {
+    const response = errorResponse(locale, 'api.rateLimited', 429, { minutes: Math.ceil(limit.retryAfter / 60) });
+    response.headers.set('Retry-After', String(limit.retryAfter));
+    return response;
+  }
+
   try {
     const formData = await request.formData();
-    const photo = formData.get('photo') as File;
+    const photo = formData.get('photo');
 
-    if (!photo) {
-      return NextResponse.json({ error: 'No photo provided' }, { status: 400 });
+    if (!(photo instanceof Blob)) {
+      return errorResponse(locale, 'api.invalidUpload', 400, { field: 'photo' });
     }
 
-    console.log(`Debug: Processing ${photo.name}, type: ${photo.type}, size: ${photo.size}`);
+    const label = photo.name || 'photo';
+    const sizeIssue = checkUploadSize(photo, label);
+    if (sizeIssue) return errorResponse(locale, sizeIssue.key, sizeIssue.status, sizeIssue.params);
+
+    console.log(`Debug: Processing ${label}, type: ${photo.type}, size: ${photo.size}`);
 
     const buffer = Buffer.from(await photo.arrayBuffer());
+    const imageIssue = checkImage(buffer, label);
+    if (imageIssue) return errorResponse(locale, imageIssue.key, imageIssue.status, imageIssue.params);
     console.log(`Debug: Buffer ${buffer.length} bytes`);
     
     // Log header
     const header = buffer.slice(0, 16);
     console.log(`Debug: Header ${Array.from(header).map(b => b.toString(16).padStart(2, '0')).join(' ')}`);
 
+    // Optional edge detection parameters for tuning
+    const options: ColoringOptions = {};
+    for (const param of TUNABLE_PARAMS) {
+      const value = formData.get(param);
+      if (value !== null && !Number.isNaN(Number(value))) {
+        options[param] = Number(value);
+      }
+    }
+
     // Process image
-    const processed = await photoToColoringPage(buffer);
+    const { image: processed } = await photoToColoringPage(buffer, options);
     console.log(`Debug: Processed ${processed.length} bytes`);
 
-    // Return the processed JPEG directly
+    // Return the processed PNG directly
     return new NextResponse(new Uint8Array(processed), {
       headers: {
-        'Content-Type': 'image/jpeg',
-        'Content-Disposition': 'inline; filename="debug_processed.jpg"',
+        'Content-Type': 'image/png',
+        'Content-Disposition': 'inline; filename="debug_processed.png"',
         'X-Original-Size': buffer.length.toString(),
         'X-Processed-Size': processed.length.toString(),
       },
     });
   } catch (error) {
     console.error('Debug error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     return NextResponse.json(
-      { 
-        error: error instanceof Error ? error.message : 'Unknown error',
-        stack: error instanceof Error ? error.stack : undefined,
+      {
+        error: t(locale, 'api.generationFailed', { error: errorMessage }),
+        code: 'generationFailed',
+        // Stack traces only for local debugging
+        stack: isDevelopment && error instanceof Error ? error.stack : undefined,
       },
       { status: 500 }
     );
   }
 }
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const denied = checkAccess(request, requestLocale(request));
+  if (denied) return denied;
+
   return NextResponse.json({
     message: 'POST a single image file as "photo" to test image processing',
-    example: 'curl -X POST -F "photo=@image.jpg" https://malbuch-generator.netlify.app/api/debug',
+    parameters: TUNABLE_PARAMS,
+    example: 'curl -X POST -H "X-Debug-Token: $DEBUG_TOKEN" -F "photo=@image.jpg" https://malbuch-generator.netlify.app/api/debug',
   });
 }
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrderStore, isValidDownloadToken } from '@/lib/orders';
+import { requestLocale, t } from '@/lib/i18n';
+
+/**
+ * Paid download - releases the PDF for a valid order token
+ */
+export async function GET(request: NextRequest) {
+  const locale = requestLocale(request);
+  const { searchParams } = new URL(request.url);
+  const orderId = searchParams.get('order') || '';
+  const token = searchParams.get('token') || '';
+
+  const orders = getOrderStore();
+  const order = await orders.get(orderId);
+
+  if (!order || !isValidDownloadToken(order, token)) {
+    return NextResponse.json(
+      { error: t(locale, 'api.downloadInvalid') },
+      { status: 403 }
+    );
+  }
+
+  const pdfBuffer = await orders.getPdf(order.id);
+  if (!pdfBuffer) {
+    return NextResponse.json({ error: t(locale, 'api.bookNotFound') }, { status: 404 });
+  }
+
+  // Sanitize filename for Content-Disposition
+  const safeName = order.name.replace(/[^a-zA-Z0-9]/g, '_') || 'Malbuch';
+  const filename = `${safeName}_Malbuch.pdf`;
+
+  return new NextResponse(new Uint8Array(pdfBuffer), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Content-Length': pdfBuffer.length.toString(),
+    },
+  });
+}
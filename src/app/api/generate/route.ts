@@ -1,97 +1,53 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { photoToColoringPage, photoToPaintByNumbers } from '@/lib/imageProcessor';
-import { generateBook, BookPage } from '@/lib/pdfGenerator';
+import { buildBook, parseBookRequest, BookRequestError, MAX_NAME_LENGTH, MAX_PHOTOS } from '@/lib/bookBuilder';
+import { MAX_PIXELS, MAX_TOTAL_UPLOAD_BYTES, MAX_UPLOAD_BYTES } from '@/lib/uploadValidation';
+import { createOrder } from '@/lib/orders';
+import { BOOK_PRICE, paymentsEnabled } from '@/lib/payments';
+import { sendBookEmail } from '@/lib/email';
+import { TITLE_FONTS } from '@/lib/pdfFonts';
+import { PAPER_SIZES } from '@/lib/pageLayout';
+import { DIFFICULTY_PRESETS } from '@/lib/difficulty';
+import { COVER_THEMES } from '@/lib/coverThemes';
+import { LOCALES, requestLocale, t } from '@/lib/i18n';
+import { checkRateLimit, clientIp } from '@/lib/rateLimit';
 
 export async function POST(request: NextRequest) {
+  let locale = requestLocale(request);
+  const limit = checkRateLimit('books', clientIp(request));
+  if (!limit.allowed) {
+    const minutes = Math.ceil(limit.retryAfter / 60);
+    return NextResponse.json(
+      { error: t(locale, 'api.rateLimited', { minutes }), code: 'rateLimited', details: { minutes } },
+      { status: 429, headers: { 'Retry-After': String(limit.retryAfter) } }
+    );
+  }
   try {
     const formData = await request.formData();
-    const name = formData.get('name') as string;
-    const bookType = formData.get('type') as 'coloring' | 'paint-by-numbers' | 'both';
-    const preprocessed = formData.get('preprocessed') === 'true';
-    const photos = formData.getAll('photos') as File[];
+    locale = requestLocale(request, formData.get('locale'));
+    const bookRequest = await parseBookRequest(formData, locale);
+    const { name } = bookRequest;
 
-    if (!name || !photos.length) {
-      return NextResponse.json(
-        { error: 'Name und mindestens ein Foto sind erforderlich' },
-        { status: 400 }
-      );
-    }
+    const pdfBuffer = await buildBook(bookRequest);
 
-    if (photos.length > 20) {
-      return NextResponse.json(
-        { error: 'Maximal 20 Fotos erlaubt' },
-        { status: 400 }
-      );
+    // With payments enabled the PDF is held back until Checkout completes
+    if (paymentsEnabled()) {
+      const order = await createOrder(name, pdfBuffer, { email: bookRequest.email, locale: bookRequest.locale });
+      console.log(`Order ${order.id} created, awaiting payment`);
+      return NextResponse.json({
+        orderId: order.id,
+        price: BOOK_PRICE.amount,
+        currency: BOOK_PRICE.currency,
+      });
     }
 
-    const pages: BookPage[] = [];
-
-    console.log(`Processing ${photos.length} photos for ${name}, type: ${bookType}, preprocessed: ${preprocessed}`);
-
-    if (preprocessed) {
-      // Images already processed client-side, just use them directly
-      for (let i = 0; i < photos.length; i++) {
-        const photo = photos[i];
-        console.log(`Preprocessed photo ${i + 1}: ${photo.name}, size: ${photo.size} bytes`);
-        
-        const buffer = Buffer.from(await photo.arrayBuffer());
-        
-        // Determine type based on position (coloring pages come first)
-        const isColoring = bookType === 'coloring' || 
-          (bookType === 'both' && i % 2 === 0);
-        
-        pages.push({
-          image: buffer,
-          type: isColoring ? 'coloring' : 'paint-by-numbers',
-        });
-      }
-    } else {
-      // Server-side processing (fallback)
-      for (let i = 0; i < photos.length; i++) {
-        const photo = photos[i];
-        console.log(`Photo ${i + 1}: ${photo.name}, type: ${photo.type}, size: ${photo.size} bytes`);
-        
-        const arrayBuffer = await photo.arrayBuffer();
-        const buffer = Buffer.from(arrayBuffer);
-        console.log(`Buffer created: ${buffer.length} bytes`);
-        
-        // Log first bytes to identify format
-        const header = buffer.slice(0, 8);
-        console.log(`File header: ${Array.from(header).map(b => b.toString(16).padStart(2, '0')).join(' ')}`);
-
-        if (bookType === 'coloring' || bookType === 'both') {
-          console.log('Generating coloring page...');
-          const coloringPage = await photoToColoringPage(buffer);
-          console.log(`Coloring page result: ${coloringPage.length} bytes`);
-          pages.push({
-            image: coloringPage,
-            type: 'coloring',
-          });
-        }
-
-        if (bookType === 'paint-by-numbers' || bookType === 'both') {
-          console.log('Generating paint-by-numbers...');
-          const { image, palette } = await photoToPaintByNumbers(buffer, 12);
-          console.log(`Paint-by-numbers result: ${image.length} bytes, palette: ${palette.join(', ')}`);
-          pages.push({
-            image,
-            type: 'paint-by-numbers',
-            colorPalette: palette,
-          });
-        }
-      }
+    // The PDF is in the response; the email is a copy (attachment only, no stored link)
+    if (bookRequest.email) {
+      sendBookEmail({ to: bookRequest.email, name, locale: bookRequest.locale, pdf: pdfBuffer })
+        .then(delivery => {
+          if (delivery.status === 'failed') console.error(`Email to ${delivery.to} failed: ${delivery.error}`);
+        })
+        .catch(error => console.error('Email crashed:', error));
     }
-    
-    console.log(`Total pages to generate: ${pages.length}`);
-
-    console.log(`Generating PDF with ${pages.length} pages`);
-    
-    const pdfBuffer = await generateBook({
-      name,
-      pages,
-    });
-
-    console.log(`PDF generated: ${pdfBuffer.length} bytes`);
 
     // Sanitize filename for Content-Disposition
     const safeName = name.replace(/[^a-zA-Z0-9]/g, '_') || 'Malbuch';
@@ -106,23 +62,34 @@ export async function POST(request: NextRequest) {
       },
     });
   } catch (error) {
+    if (error instanceof BookRequestError) {
+      return NextResponse.json(error.toResponse(locale), { status: error.status });
+    }
     console.error('Generation error:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     return NextResponse.json(
-      { error: `Fehler beim Erstellen: ${errorMessage}` },
+      { error: t(locale, 'api.generationFailed', { error: errorMessage }), code: 'generationFailed' },
       { status: 500 }
     );
   }
 }
 
-// Preview endpoint - returns just one processed image
-export async function GET(request: NextRequest) {
-  const { searchParams } = new URL(request.url);
-  const type = searchParams.get('type') || 'coloring';
-  
+// Options of the form; single-page previews are POST /api/preview
+export async function GET() {
   return NextResponse.json({
-    message: 'Use POST to generate a book',
-    supportedTypes: ['coloring', 'paint-by-numbers', 'both'],
-    maxPhotos: 20,
+    message: 'Use POST to generate a book, POST /api/preview to preview one page',
+    supportedTypes: ['coloring', 'paint-by-numbers', 'dot-to-dot', 'both'],
+    outputModes: ['raster', 'vector'],
+    difficulties: Object.keys(DIFFICULTY_PRESETS),
+    titleFonts: Object.keys(TITLE_FONTS),
+    coverThemes: Object.keys(COVER_THEMES),
+    locales: Object.keys(LOCALES),
+    paperSizes: Object.keys(PAPER_SIZES),
+    maxPhotos: MAX_PHOTOS,
+    maxNameLength: MAX_NAME_LENGTH,
+    maxUploadBytes: MAX_UPLOAD_BYTES,
+    maxTotalUploadBytes: MAX_TOTAL_UPLOAD_BYTES,
+    maxPixels: MAX_PIXELS,
+    imageFormats: ['jpeg', 'png', 'webp'],
   });
 }
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '@/lib/jobs';
+import { requestLocale, t } from '@/lib/i18n';
+
+/**
+ * Finished PDF of a job
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const locale = requestLocale(request);
+  const jobs = getJobStore();
+  const job = await jobs.get(params.id);
+
+  if (!job) {
+    return NextResponse.json({ error: t(locale, 'api.jobNotFound') }, { status: 404 });
+  }
+
+  if (job.state !== 'done') {
+    return NextResponse.json({ error: t(locale, 'api.bookNotReady'), state: job.state }, { status: 409 });
+  }
+
+  // Paid books are released through the order download instead
+  if (job.orderId) {
+    return NextResponse.json({ error: t(locale, 'api.paymentRequired'), orderId: job.orderId }, { status: 402 });
+  }
+
+  const pdfBuffer = await jobs.getResult(job.id);
+  if (!pdfBuffer) {
+    return NextResponse.json({ error: t(locale, 'api.bookNotFound') }, { status: 404 });
+  }
+
+  // Sanitize filename for Content-Disposition
+  const safeName = job.name.replace(/[^a-zA-Z0-9]/g, '_') || 'Malbuch';
+  const filename = `${safeName}_Malbuch.pdf`;
+
+  return new NextResponse(new Uint8Array(pdfBuffer), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Content-Length': pdfBuffer.length.toString(),
+    },
+  });
+}
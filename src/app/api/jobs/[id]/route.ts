@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '@/lib/jobs';
+import { requestLocale, t } from '@/lib/i18n';
+
+/**
+ * Job progress: state, current stage and pages done
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const job = await getJobStore().get(params.id);
+
+  if (!job) {
+    return NextResponse.json({ error: t(requestLocale(request), 'api.jobNotFound') }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    ...job,
+    resultUrl: job.state === 'done' && !job.orderId ? `/api/jobs/${job.id}/result` : undefined,
+  });
+}
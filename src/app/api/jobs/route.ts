@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseBookRequest, BookRequestError } from '@/lib/bookBuilder';
+import { backgroundJobsAvailable, startJob } from '@/lib/jobs';
+import { requestLocale, t } from '@/lib/i18n';
+import { checkRateLimit, clientIp } from '@/lib/rateLimit';
+
+// Read per request: the answer depends on the deployment's environment, not the build
+export const dynamic = 'force-dynamic';
+
+/**
+ * Start an asynchronous book generation job
+ * Accepts the same form fields as POST /api/generate and returns { jobId }
+ */
+export async function POST(request: NextRequest) {
+  let locale = requestLocale(request);
+  const limit = checkRateLimit('books', clientIp(request));
+  if (!limit.allowed) {
+    const minutes = Math.ceil(limit.retryAfter / 60);
+    return NextResponse.json(
+      { error: t(locale, 'api.rateLimited', { minutes }), code: 'rateLimited', details: { minutes } },
+      { status: 429, headers: { 'Retry-After': String(limit.retryAfter) } }
+    );
+  }
+  try {
+    const formData = await request.formData();
+    locale = requestLocale(request, formData.get('locale'));
+    const bookRequest = await parseBookRequest(formData, locale);
+    const job = await startJob(bookRequest, request.nextUrl.origin);
+
+    console.log(`Job ${job.id} queued: ${job.totalPages} pages for ${job.name}`);
+
+    return NextResponse.json(
+      {
+        jobId: job.id,
+        statusUrl: `/api/jobs/${job.id}`,
+        totalPages: job.totalPages,
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    if (error instanceof BookRequestError) {
+      return NextResponse.json(error.toResponse(locale), { status: error.status });
+    }
+    console.error('Job creation error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: t(locale, 'api.generationFailed', { error: errorMessage }), code: 'generationFailed' },
+      { status: 500 }
+    );
+  }
+}
+
+// Tells the page whether to build through jobs (with progress) or POST /api/generate
+export async function GET() {
+  return NextResponse.json({ background: backgroundJobsAvailable() });
+}
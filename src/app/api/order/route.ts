@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrderStore } from '@/lib/orders';
+import { requestLocale, t } from '@/lib/i18n';
+
+/**
+ * Order status for the success page
+ * GET ?id=<orderId>&session_id=<checkout session> → status and, once paid, the download URL
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get('id') || '';
+  const sessionId = searchParams.get('session_id');
+
+  const order = await getOrderStore().get(id);
+
+  // The session id from the Checkout redirect proves this browser paid for the order
+  if (!order || !sessionId || order.checkoutSessionId !== sessionId) {
+    return NextResponse.json({ error: t(requestLocale(request), 'api.orderNotFound') }, { status: 404 });
+  }
+
+  if (order.status !== 'paid') {
+    return NextResponse.json({ status: order.status });
+  }
+
+  return NextResponse.json({
+    status: order.status,
+    downloadUrl: `/api/download?order=${order.id}&token=${order.downloadToken}`,
+    downloadExpiresAt: order.downloadExpiresAt,
+    email: order.emailDelivery && { to: order.emailDelivery.to, status: order.emailDelivery.status },
+  });
+}
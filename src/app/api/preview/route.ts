@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseBookRequest, BookRequestError } from '@/lib/bookBuilder';
+import { isPreviewPage, renderPreview, PREVIEW_PAGES } from '@/lib/pagePreview';
+import { requestLocale, t } from '@/lib/i18n';
+import { checkRateLimit, clientIp } from '@/lib/rateLimit';
+
+/**
+ * Preview one page of a book before generating or paying for it
+ * Takes the /api/generate form fields with exactly one photo, plus `page`:
+ * cover, dedication, coloring, paint-by-numbers, dot-to-dot or back. Optional
+ * `pageNumber` and `pageCount` fill the page template of interior pages.
+ * Returns a low-resolution, watermarked PNG.
+ */
+function positiveInteger(value: FormDataEntryValue | null): number | null {
+  const number = Number(value);
+  return value !== null && Number.isInteger(number) && number > 0 ? number : null;
+}
+
+export async function POST(request: NextRequest) {
+  let locale = requestLocale(request);
+  const limit = checkRateLimit('previews', clientIp(request));
+  if (!limit.allowed) {
+    const minutes = Math.ceil(limit.retryAfter / 60);
+    return NextResponse.json(
+      { error: t(locale, 'api.rateLimited', { minutes }), code: 'rateLimited', details: { minutes } },
+      { status: 429, headers: { 'Retry-After': String(limit.retryAfter) } }
+    );
+  }
+  try {
+    const formData = await request.formData();
+    locale = requestLocale(request, formData.get('locale'));
+    const page = formData.get('page') || 'coloring';
+    if (!isPreviewPage(page)) {
+      throw new BookRequestError('api.unknownPreviewPage', { pages: PREVIEW_PAGES.join(', ') });
+    }
+    const bookRequest = await parseBookRequest(formData, locale);
+    if ((bookRequest.preprocessed ? bookRequest.pages : bookRequest.photos).length !== 1) {
+      throw new BookRequestError('api.previewOnePhoto');
+    }
+
+    const pageNumber = positiveInteger(formData.get('pageNumber')) || 1;
+    const pageCount = Math.max(pageNumber, positiveInteger(formData.get('pageCount')) || 1);
+    const png = await renderPreview(bookRequest, page, { page: pageNumber, pages: pageCount });
+    return new NextResponse(new Uint8Array(png), {
+      headers: {
+        'Content-Type': 'image/png',
+        'Content-Length': png.length.toString(),
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof BookRequestError) {
+      return NextResponse.json(error.toResponse(locale), { status: error.status });
+    }
+    console.error('Preview error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: t(locale, 'api.generationFailed', { error: errorMessage }), code: 'generationFailed' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'POST the /api/generate form fields with one photo and "page" to preview a page as PNG',
+    pages: PREVIEW_PAGES,
+    example: 'curl -X POST -F "name=Emma" -F "page=paint-by-numbers" -F "photos=@image.jpg" -o page.png https://malbuch-generator.netlify.app/api/preview',
+  });
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Stripe from 'stripe';
+import { markOrderPaid, startOrderEmail } from '@/lib/orders';
+import { verifyWebhookEvent } from '@/lib/payments';
+
+/**
+ * Stripe webhook - marks orders paid once Checkout completes
+ */
+export async function POST(request: NextRequest) {
+  // Signature is computed over the raw body, so don't parse it first
+  const payload = await request.text();
+  const signature = request.headers.get('stripe-signature');
+
+  if (!signature) {
+    return NextResponse.json({ error: 'Missing Stripe-Signature header' }, { status: 400 });
+  }
+
+  let event: Stripe.Event;
+  try {
+    event = verifyWebhookEvent(payload, signature);
+  } catch (error) {
+    console.error('Webhook signature verification failed:', error);
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 400 });
+  }
+
+  try {
+    switch (event.type) {
+      case 'checkout.session.completed':
+      case 'checkout.session.async_payment_succeeded': {
+        const session = event.data.object as Stripe.Checkout.Session;
+        // Delayed payment methods complete first and succeed later
+        if (session.payment_status !== 'paid') break;
+
+        const orderId = session.metadata?.orderId || session.client_reference_id;
+        if (!orderId) {
+          console.warn(`Checkout session ${session.id} has no order reference`);
+          break;
+        }
+
+        const order = await markOrderPaid(orderId, session.id);
+        if (!order) {
+          // Paid but unknown here: answer non-2xx so Stripe retries and the dashboard shows it
+          console.error(`Order ${orderId} of checkout session ${session.id} not found`);
+          return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+        }
+        console.log(`Order ${orderId} paid`);
+        await startOrderEmail(order, request.nextUrl.origin);
+        break;
+      }
+      default:
+        console.log(`Ignoring webhook event ${event.type}`);
+    }
+
+    return NextResponse.json({ received: true });
+  } catch (error) {
+    console.error('Webhook handling error:', error);
+    // Non-2xx makes Stripe retry the delivery
+    return NextResponse.json({ error: 'Webhook handling failed' }, { status: 500 });
+  }
+}
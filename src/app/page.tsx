@@ -1,17 +1,173 @@
 'use client';
 
-import { useState, useCallback } from 'react';
-import { processImageToColoringPage, processImageToPaintByNumbers } from '@/lib/clientImageProcessor';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { isAbortError, processImages, ImageTask } from '@/lib/imageWorkerPool';
+import { processImageToCoverImage } from '@/lib/clientImageProcessor';
+import { DEFAULT_DIFFICULTY, DIFFICULTY_PRESETS, Difficulty } from '@/lib/difficulty';
+import { PhotoEdits } from '@/lib/imageCore';
+import { browserLocale, DEFAULT_LOCALE, Locale, LOCALES, MessageKey, MessageParams, t as translate } from '@/lib/i18n';
+import PhotoEditor from '@/components/PhotoEditor';
 
-type BookType = 'coloring' | 'paint-by-numbers' | 'both';
+type PageKind = 'coloring' | 'paint-by-numbers' | 'dot-to-dot';
+type BookType = PageKind | 'both';
+type JobStage = 'decode' | 'convert' | 'layout' | 'pdf';
+type TitleFont = 'fredoka' | 'baloo' | 'patrick-hand' | 'nunito';
+type PaperSize = 'a4' | 'a5' | 'letter';
+type SolutionMode = 'none' | 'inline' | 'appendix';
+type CoverTheme = 'neutral' | 'geburtstag' | 'weihnachten' | 'ostern' | 'einschulung';
+type TemplatePosition = 'footer' | 'header';
+type EmailStatus = { to: string; status: 'sending' | 'sent' | 'failed' };
+// Carousel pages in book order; interior pages come from one photo each
+type PreviewSlide = { page: 'cover' | 'dedication' | 'back' } | { page: PageKind; photo: number };
+
+// Labels and descriptions come from the message catalog (theme.*, solutions.*, ...)
+const THEME_OPTIONS: { value: CoverTheme; emoji: string }[] = [
+  { value: 'neutral', emoji: '📖' },
+  { value: 'geburtstag', emoji: '🎈' },
+  { value: 'weihnachten', emoji: '🎄' },
+  { value: 'ostern', emoji: '🐣' },
+  { value: 'einschulung', emoji: '✏️' },
+];
+
+const BOOK_TYPE_OPTIONS: { value: BookType; emoji: string }[] = [
+  { value: 'coloring', emoji: '🖍️' },
+  { value: 'paint-by-numbers', emoji: '🔢' },
+  { value: 'dot-to-dot', emoji: '✍️' },
+  { value: 'both', emoji: '✨' },
+];
+
+const SOLUTION_OPTIONS: SolutionMode[] = ['none', 'inline', 'appendix'];
+
+const PAPER_SIZE_OPTIONS: PaperSize[] = ['a4', 'a5', 'letter'];
+
+const TEMPLATE_POSITION_OPTIONS: TemplatePosition[] = ['footer', 'header'];
+
+const TITLE_FONT_OPTIONS: { value: TitleFont; label: string }[] = [
+  { value: 'fredoka', label: 'Fredoka' },
+  { value: 'baloo', label: 'Baloo' },
+  { value: 'patrick-hand', label: 'Patrick Hand' },
+  { value: 'nunito', label: 'Nunito' },
+];
+
+const FEATURES: { emoji: string; key: 'instant' | 'gift' | 'print' }[] = [
+  { emoji: '⚡', key: 'instant' },
+  { emoji: '🎁', key: 'gift' },
+  { emoji: '🖨️', key: 'print' },
+];
+
+/** Identifies a photo in preview cache keys (indexes shift when photos are removed) */
+function fileId(file?: File): string {
+  return file ? `${file.name}:${file.size}:${file.lastModified}` : '';
+}
+
+function hasEdits(edits?: PhotoEdits): boolean {
+  return !!edits && !!(edits.rotation || edits.crop || edits.detail || edits.contrast || edits.mask);
+}
 
 export default function Home() {
+  // Server render and first paint in the default locale, then the visitor's
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE);
+  const t = (key: MessageKey, params?: MessageParams) => translate(locale, key, params);
   const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
   const [bookType, setBookType] = useState<BookType>('coloring');
+  const [vectorOutput, setVectorOutput] = useState(true);
+  const [difficulty, setDifficulty] = useState<Difficulty>(DEFAULT_DIFFICULTY);
+  const [theme, setTheme] = useState<CoverTheme>('neutral');
+  const [customTitle, setCustomTitle] = useState('');
+  const [dedication, setDedication] = useState('');
+  const [pageTemplate, setPageTemplate] = useState('');
+  const [templatePosition, setTemplatePosition] = useState<TemplatePosition>('footer');
+  // Empty: the theme's font
+  const [titleFont, setTitleFont] = useState<TitleFont | ''>('');
+  const [paperSize, setPaperSize] = useState<PaperSize>('a4');
+  const [portraitOnly, setPortraitOnly] = useState(false);
+  const [blankBacks, setBlankBacks] = useState(false);
+  const [booklet, setBooklet] = useState(false);
+  const [solutionMode, setSolutionMode] = useState<SolutionMode>('appendix');
   const [photos, setPhotos] = useState<File[]>([]);
   const [previews, setPreviews] = useState<string[]>([]);
+  const [photoEdits, setPhotoEdits] = useState<PhotoEdits[]>([]);
+  const [photoCaptions, setPhotoCaptions] = useState<string[]>([]);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [coverIndex, setCoverIndex] = useState<number | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [downloadUrl, setDownloadUrl] = useState('');
+  const [paymentStatus, setPaymentStatus] = useState('');
+  const [emailStatus, setEmailStatus] = useState<EmailStatus | null>(null);
+  const [previewOpen, setPreviewOpen] = useState(false);
+  const [previewIndex, setPreviewIndex] = useState(0);
+  // Rendered pages (object URLs) by everything that went into them
+  const [previewImages, setPreviewImages] = useState<Record<string, string>>({});
+  const [previewError, setPreviewError] = useState('');
+
+  useEffect(() => {
+    setLocale(browserLocale());
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const changeLocale = (next: Locale) => {
+    setLocale(next);
+    const url = new URL(window.location.href);
+    url.searchParams.set('lang', next);
+    window.history.replaceState(null, '', url.toString());
+  };
+
+  // Returning from Stripe Checkout: wait for the webhook, then release the download
+  useEffect(() => {
+    // Runs before the locale state settles, so read it directly
+    const lang = browserLocale();
+    const params = new URLSearchParams(window.location.search);
+    const orderId = params.get('order');
+    const sessionId = params.get('session_id');
+    if (!orderId) return;
+
+    if (params.get('cancelled')) {
+      setError(translate(lang, 'payment.cancelled'));
+      return;
+    }
+    if (!sessionId) return;
+
+    let cancelled = false;
+    setPaymentStatus(translate(lang, 'payment.confirming'));
+
+    const poll = async (attempt: number) => {
+      try {
+        const response = await fetch(`/api/order?id=${orderId}&session_id=${encodeURIComponent(sessionId)}`, {
+          headers: { 'Accept-Language': lang },
+        });
+        const data = await response.json();
+        if (cancelled) return;
+
+        if (!response.ok) throw new Error(data.error || translate(lang, 'error.server', { status: response.status }));
+
+        if (data.status === 'paid' && data.downloadUrl) {
+          setPaymentStatus('');
+          setDownloadUrl(data.downloadUrl);
+          if (data.email) setEmailStatus(data.email);
+          window.location.href = data.downloadUrl;
+        } else if (attempt < 30) {
+          setTimeout(() => poll(attempt + 1), 2000);
+        } else {
+          setPaymentStatus('');
+          setError(translate(lang, 'payment.pending'));
+        }
+      } catch (err) {
+        if (cancelled) return;
+        setPaymentStatus('');
+        setError(err instanceof Error ? err.message : translate(lang, 'error.unknown'));
+      }
+    };
+    poll(0);
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
   const handlePhotoDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -28,6 +184,8 @@ export default function Home() {
   const addPhotos = (files: File[]) => {
     const newPhotos = [...photos, ...files].slice(0, 20);
     setPhotos(newPhotos);
+    setPhotoEdits(prev => newPhotos.map((file, i) => (photos[i] === file && prev[i]) || {}));
+    setPhotoCaptions(prev => newPhotos.map((file, i) => (photos[i] === file && prev[i]) || ''));
     
     // Create previews
     const newPreviews = newPhotos.map(f => URL.createObjectURL(f));
@@ -39,69 +197,332 @@ export default function Home() {
 
   const removePhoto = (index: number) => {
     setPhotos(prev => prev.filter((_, i) => i !== index));
+    setPhotoEdits(prev => prev.filter((_, i) => i !== index));
+    setPhotoCaptions(prev => prev.filter((_, i) => i !== index));
+    setCoverIndex(prev => (prev === null || prev === index ? null : prev > index ? prev - 1 : prev));
     setPreviews(prev => {
       URL.revokeObjectURL(prev[index]);
       return prev.filter((_, i) => i !== index);
     });
   };
 
+  const pageKinds: PageKind[] = bookType === 'both' ? ['coloring', 'paint-by-numbers'] : [bookType];
+  const previewSlides: PreviewSlide[] = [
+    { page: 'cover' },
+    ...(dedication.trim() ? [{ page: 'dedication' as const }] : []),
+    ...photos.flatMap((_, photo) => pageKinds.map(page => ({ page, photo }))),
+    { page: 'back' },
+  ];
+  const currentSlide = previewSlides[Math.min(previewIndex, previewSlides.length - 1)];
+
+  // Cover, dedication and back cover are rendered from the (small) cover photo
+  const previewPhoto = (slide: PreviewSlide) => ('photo' in slide ? slide.photo : coverIndex ?? 0);
+
+  // Interior page number of a slide and the book's page count, for the page template
+  const previewPageNumber = (slide: PreviewSlide) =>
+    ('photo' in slide ? slide.photo * pageKinds.length + pageKinds.indexOf(slide.page) + 1 : 1);
+  const interiorPages = photos.length * pageKinds.length;
+
+  const previewKey = (slide: PreviewSlide) => {
+    const photo = previewPhoto(slide);
+    return JSON.stringify([
+      slide, locale, name.trim(), bookType, difficulty, theme, customTitle.trim(), dedication.trim(), titleFont,
+      paperSize, portraitOnly, booklet, solutionMode, coverIndex !== null, fileId(photos[photo]), photoEdits[photo],
+      photoCaptions[photo]?.trim(), pageTemplate.trim(), templatePosition, pageTemplate.trim() ? interiorPages : 0,
+    ]);
+  };
+
+  const previewForm = async (slide: PreviewSlide): Promise<FormData> => {
+    const formData = new FormData();
+    formData.append('page', slide.page);
+    formData.append('name', name.trim());
+    formData.append('locale', locale);
+    formData.append('type', bookType);
+    formData.append('difficulty', difficulty);
+    formData.append('theme', theme);
+    if (customTitle.trim()) formData.append('title', customTitle.trim());
+    if (dedication.trim()) formData.append('dedication', dedication.trim());
+    if (titleFont) formData.append('titleFont', titleFont);
+    formData.append('paperSize', paperSize);
+    formData.append('orientation', portraitOnly ? 'portrait' : 'auto');
+    formData.append('booklet', String(booklet));
+    formData.append('solutionPages', solutionMode);
+    const photo = previewPhoto(slide);
+    if ('photo' in slide) {
+      formData.append('photos', photos[photo]);
+      formData.append('edits', JSON.stringify([photoEdits[photo] || null]));
+      formData.append('captions', JSON.stringify([photoCaptions[photo]?.trim() || null]));
+      if (pageTemplate.trim()) {
+        formData.append('pageTemplate', pageTemplate.trim());
+        formData.append('templatePosition', templatePosition);
+        formData.append('pageNumber', String(previewPageNumber(slide)));
+        formData.append('pageCount', String(interiorPages));
+      }
+    } else {
+      formData.append('photos', await processImageToCoverImage(photos[photo], photoEdits[photo]), 'cover.jpg');
+      if (slide.page === 'cover' && coverIndex !== null) formData.append('coverPhoto', '0');
+    }
+    return formData;
+  };
+
+  const currentPreviewKey = previewOpen && currentSlide && photos.length > 0 && name.trim() ? previewKey(currentSlide) : '';
+
+  // Render the page on display once settings stop changing (typing a title, ...)
+  useEffect(() => {
+    if (!currentPreviewKey || previewImages[currentPreviewKey]) return;
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setPreviewError('');
+      try {
+        const response = await fetch('/api/preview', {
+          method: 'POST',
+          body: await previewForm(currentSlide),
+          signal: controller.signal,
+          headers: { 'Accept-Language': locale },
+        });
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.error || t('error.server', { status: response.status }));
+        }
+        const url = URL.createObjectURL(await response.blob());
+        setPreviewImages(prev => ({ ...prev, [currentPreviewKey]: url }));
+      } catch (err) {
+        if (!isAbortError(err)) setPreviewError(err instanceof Error ? err.message : t('error.unknown'));
+      }
+    }, 400);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [currentPreviewKey]);
+
+  const closePreview = () => {
+    setPreviewOpen(false);
+    setPreviewError('');
+    setPreviewImages(prev => {
+      Object.values(prev).forEach(url => URL.revokeObjectURL(url));
+      return {};
+    });
+  };
+
+  const showPreviewPage = (index: number) => {
+    setPreviewError('');
+    setPreviewIndex(Math.max(0, Math.min(index, previewSlides.length - 1)));
+  };
+
+  const slideLabel = (slide: PreviewSlide) => ('photo' in slide
+    ? t(`preview.page.${slide.page}`, { number: slide.photo + 1 })
+    : t(`preview.page.${slide.page}`));
+
   const [processingStatus, setProcessingStatus] = useState('');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Poll a generation job until it finishes, mirroring its progress in the UI
+  const waitForJob = async (jobId: string, signal: AbortSignal): Promise<{ orderId?: string; resultUrl?: string }> => {
+    for (;;) {
+      const response = await fetch(`/api/jobs/${jobId}`, { signal, headers: { 'Accept-Language': locale } });
+      const job = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(job.error || t('error.server', { status: response.status }));
+
+      if (job.state === 'done') return job;
+      if (job.state === 'failed') throw new Error(t('error.jobFailed', { error: job.error }));
+
+      if (job.stage) {
+        setProcessingStatus(t('status.stage', {
+          stage: t(`stage.${job.stage as JobStage}`),
+          page: Math.min(job.page + 1, job.totalPages),
+          total: job.totalPages,
+        }));
+        setProgress({ done: job.page, total: job.totalPages });
+      }
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+  };
+
+  // Background jobs need a store every server instance shares; ask before uploading
+  const backgroundJobs = async (signal: AbortSignal): Promise<boolean> => {
+    const response = await fetch('/api/jobs', { signal }).catch(() => null);
+    const capabilities = response?.ok ? await response.json().catch(() => ({})) : {};
+    return capabilities.background === true;
+  };
+
+  // Payments enabled: the server holds the PDF until Checkout completes
+  const startCheckout = async (orderId: string) => {
+    setProcessingStatus(t('payment.redirect'));
+
+    const checkoutResponse = await fetch('/api/checkout', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept-Language': locale },
+      body: JSON.stringify({ orderId }),
+    });
+    const checkout = await checkoutResponse.json().catch(() => ({}));
+    if (!checkoutResponse.ok || !checkout.url) {
+      throw new Error(checkout.error || t('error.server', { status: checkoutResponse.status }));
+    }
+
+    window.location.href = checkout.url;
+  };
+
+  // The email goes out after the download is ready; follow it until it is sent or failed
+  const trackEmail = async (jobId: string) => {
+    for (let attempt = 0; attempt < 60; attempt++) {
+      const response = await fetch(`/api/jobs/${jobId}`).catch(() => null);
+      const job = response?.ok ? await response.json().catch(() => ({})) : {};
+      if (job.email) setEmailStatus({ to: job.email.to, status: job.email.status });
+      if (job.email?.status !== 'sending') return;
+      await new Promise(resolve => setTimeout(resolve, 2000));
+    }
+  };
 
   const handleGenerate = async () => {
     if (!name.trim()) {
-      setError('Bitte gib einen Namen ein');
+      setError(t('error.nameRequired'));
       return;
     }
     if (photos.length === 0) {
-      setError('Bitte wähle mindestens ein Foto aus');
+      setError(t('error.photoRequired'));
       return;
     }
 
     setLoading(true);
     setError('');
+    setEmailStatus(null);
     setProcessingStatus('');
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
     try {
-      // Process images client-side
-      const processedPhotos: Blob[] = [];
-      
-      for (let i = 0; i < photos.length; i++) {
-        setProcessingStatus(`Verarbeite Bild ${i + 1} von ${photos.length}...`);
-        
+      // Process images client-side, in page order (coloring page first for 'both')
+      const tasks: ImageTask[] = [];
+      // Photo of each task, for its caption
+      const taskPhotos: number[] = [];
+      photos.forEach((file, i) => {
+        const edits = photoEdits[i];
         if (bookType === 'coloring' || bookType === 'both') {
-          const coloringBlob = await processImageToColoringPage(photos[i]);
-          processedPhotos.push(coloringBlob);
+          tasks.push({ kind: 'coloring', file, difficulty, vector: vectorOutput, edits });
+          taskPhotos.push(i);
         }
-        
         if (bookType === 'paint-by-numbers' || bookType === 'both') {
-          const pbnBlob = await processImageToPaintByNumbers(photos[i], 12);
-          processedPhotos.push(pbnBlob);
+          tasks.push({ kind: 'paint-by-numbers', file, difficulty, vector: vectorOutput, edits });
+          taskPhotos.push(i);
         }
-      }
+        if (bookType === 'dot-to-dot') {
+          tasks.push({ kind: 'dot-to-dot', file, difficulty, vector: true, edits });
+          taskPhotos.push(i);
+        }
+      });
       
-      setProcessingStatus('Erstelle PDF...');
+      setProcessingStatus(t('status.converting', { done: 0, total: tasks.length }));
+      setProgress({ done: 0, total: tasks.length });
+      const processedPhotos = await processImages(tasks, {
+        signal,
+        onProgress: (done, total) => {
+          setProcessingStatus(t('status.converting', { done, total }));
+          setProgress({ done, total });
+        },
+      });
+      
+      setProcessingStatus(t('status.uploading'));
+      setProgress(null);
       
       // Send processed images to server
       const formData = new FormData();
       formData.append('name', name);
+      formData.append('locale', locale);
+      if (email.trim()) formData.append('email', email.trim());
       formData.append('type', bookType);
       formData.append('preprocessed', 'true'); // Flag that images are already processed
-      processedPhotos.forEach((blob, idx) => {
-        formData.append('photos', blob, `processed_${idx}.jpg`);
+      formData.append('output', vectorOutput ? 'vector' : 'raster');
+      formData.append('difficulty', difficulty);
+      formData.append('theme', theme);
+      if (customTitle.trim()) formData.append('title', customTitle.trim());
+      if (dedication.trim()) formData.append('dedication', dedication.trim());
+      if (pageTemplate.trim()) {
+        formData.append('pageTemplate', pageTemplate.trim());
+        formData.append('templatePosition', templatePosition);
+      }
+      if (titleFont) formData.append('titleFont', titleFont);
+      formData.append('paperSize', paperSize);
+      formData.append('orientation', portraitOnly ? 'portrait' : 'auto');
+      formData.append('blankBacks', String(blankBacks));
+      formData.append('booklet', String(booklet));
+      formData.append('solutionPages', solutionMode);
+      // Every page is its own part, described (type, format, palette, ...) in the manifest
+      const manifest = processedPhotos.map(({ image, palette, solution, vector }, idx) => {
+        const format = image.type === 'image/jpeg' ? 'jpeg' : 'png';
+        formData.append(`page_${idx}`, image, `page_${idx}.${format === 'jpeg' ? 'jpg' : 'png'}`);
+        const withSolution = solution && solutionMode !== 'none';
+        if (withSolution) formData.append(`solution_${idx}`, solution, `solution_${idx}.png`);
+        return {
+          file: `page_${idx}`,
+          type: tasks[idx].kind,
+          format,
+          palette,
+          caption: photoCaptions[taskPhotos[idx]]?.trim() || undefined,
+          position: idx,
+          solution: withSolution ? `solution_${idx}` : undefined,
+          // Dot-to-dot pages always send their dots
+          vector: vectorOutput || tasks[idx].kind === 'dot-to-dot' ? vector : undefined,
+        };
       });
+      formData.append('pages', JSON.stringify(manifest));
+      if (coverIndex !== null && photos[coverIndex]) {
+        const coverImage = await processImageToCoverImage(photos[coverIndex], photoEdits[coverIndex]);
+        formData.append('coverImage', coverImage, 'cover.jpg');
+      }
 
-      const response = await fetch('/api/generate', {
-        method: 'POST',
-        body: formData,
-      });
+      let jobId: string | undefined;
+      let pdfResponse: Response;
+      if (await backgroundJobs(signal)) {
+        // The book is built as a background job; poll it for progress
+        const response = await fetch('/api/jobs', {
+          method: 'POST',
+          body: formData,
+          signal,
+        });
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || `Server error: ${response.status}`);
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.error || t('error.server', { status: response.status }));
+        }
+
+        const started = await response.json();
+        jobId = started.jobId as string;
+        const { orderId, resultUrl } = await waitForJob(jobId, signal);
+        if (orderId) {
+          await startCheckout(orderId);
+          return;
+        }
+
+        pdfResponse = await fetch(resultUrl || `/api/jobs/${jobId}/result`, {
+          signal,
+          headers: { 'Accept-Language': locale },
+        });
+      } else {
+        // No shared job store: a poll could reach another server instance, so build in this request
+        setProcessingStatus(t('status.working'));
+        pdfResponse = await fetch('/api/generate', {
+          method: 'POST',
+          body: formData,
+          signal,
+        });
+        if (pdfResponse.ok && pdfResponse.headers.get('Content-Type')?.includes('application/json')) {
+          const { orderId } = await pdfResponse.json();
+          await startCheckout(orderId);
+          return;
+        }
+      }
+
+      if (!pdfResponse.ok) {
+        const errorData = await pdfResponse.json().catch(() => ({}));
+        throw new Error(errorData.error || t('error.server', { status: pdfResponse.status }));
       }
 
       // Download PDF
-      const blob = await response.blob();
+      const blob = await pdfResponse.blob();
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
@@ -112,21 +533,47 @@ export default function Home() {
       URL.revokeObjectURL(url);
       
       setProcessingStatus('');
+      if (email.trim() && jobId) trackEmail(jobId);
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Unbekannter Fehler';
-      setError(message);
+      if (isAbortError(err)) {
+        setError('');
+      } else {
+        const message = err instanceof Error ? err.message : t('error.unknown');
+        setError(message);
+      }
       setProcessingStatus('');
     } finally {
+      abortRef.current = null;
       setLoading(false);
+      setProgress(null);
     }
   };
 
+  // Stops the remaining conversions and the upload/polling
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
   return (
     <main className="min-h-screen bg-gradient-to-b from-amber-50 to-orange-50">
       {/* Header */}
       <header className="bg-white/80 backdrop-blur-sm border-b border-amber-200 sticky top-0 z-10">
-        <div className="max-w-4xl mx-auto px-6 py-4">
-          <h1 className="text-2xl font-bold text-amber-900">🎨 Malbuch Generator</h1>
+        <div className="max-w-4xl mx-auto px-6 py-4 flex items-center justify-between">
+          <h1 className="text-2xl font-bold text-amber-900">🎨 {t('app.title')}</h1>
+          <div className="flex gap-1" role="group" aria-label={t('app.language')}>
+            {(Object.keys(LOCALES) as Locale[]).map((value) => (
+              <button
+                key={value}
+                onClick={() => changeLocale(value)}
+                title={LOCALES[value].label}
+                className={`px-2 py-1 rounded-lg text-sm font-semibold transition-all ${
+                  locale === value ? 'bg-amber-500 text-white' : 'text-amber-800 hover:bg-amber-100'
+                }`}
+              >
+                {value.toUpperCase()}
+              </button>
+            ))}
+          </div>
         </div>
       </header>
 
@@ -134,10 +581,10 @@ export default function Home() {
         {/* Hero */}
         <section className="text-center mb-12">
           <h2 className="text-4xl font-bold text-amber-900 mb-4">
-            Dein persönliches Malbuch
+            {t('hero.title')}
           </h2>
           <p className="text-xl text-amber-700">
-            Verwandle deine Fotos in einzigartige Ausmalbilder und Malen-nach-Zahlen Vorlagen
+            {t('hero.subtitle')}
           </p>
         </section>
 
@@ -146,49 +593,264 @@ export default function Home() {
           {/* Name Input */}
           <div className="mb-8">
             <label className="block text-sm font-semibold text-amber-800 mb-2">
-              Für wen ist das Malbuch?
+              {t('form.name.label')}
             </label>
             <input
               type="text"
               value={name}
               onChange={(e) => setName(e.target.value)}
-              placeholder="z.B. Emma, Oma, Familie Müller..."
+              placeholder={t('form.name.placeholder')}
+              maxLength={40}
               className="w-full px-4 py-3 rounded-xl border-2 border-amber-200 focus:border-amber-500 focus:outline-none text-lg"
             />
+            <label className="block text-sm font-semibold text-amber-800 mt-4 mb-2">
+              {t('form.email.label')}
+            </label>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder={t('form.email.placeholder')}
+              maxLength={254}
+              className="w-full px-4 py-3 rounded-xl border-2 border-amber-200 focus:border-amber-500 focus:outline-none"
+            />
+          </div>
+
+          {/* Cover Theme, Title and Dedication */}
+          <div className="mb-8">
+            <label className="block text-sm font-semibold text-amber-800 mb-3">
+              {t('form.theme.label')}
+            </label>
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 mb-4">
+              {THEME_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => setTheme(option.value)}
+                  className={`p-3 rounded-xl border-2 transition-all ${
+                    theme === option.value
+                      ? 'border-amber-500 bg-amber-50'
+                      : 'border-amber-200 hover:border-amber-300'
+                  }`}
+                >
+                  <span className="text-2xl block mb-1">{option.emoji}</span>
+                  <span className="font-semibold text-amber-900 text-sm">{t(`theme.${option.value}.label`)}</span>
+                </button>
+              ))}
+            </div>
+            <div className="grid sm:grid-cols-2 gap-4">
+              <input
+                type="text"
+                value={customTitle}
+                onChange={(e) => setCustomTitle(e.target.value)}
+                maxLength={60}
+                placeholder={t('form.title.placeholder', { title: t('pdf.defaultTitle', { name: name.trim() || 'Emma' }) })}
+                className="w-full px-4 py-3 rounded-xl border-2 border-amber-200 focus:border-amber-500 focus:outline-none"
+              />
+              <input
+                type="text"
+                value={dedication}
+                onChange={(e) => setDedication(e.target.value)}
+                maxLength={300}
+                placeholder={t('form.dedication.placeholder')}
+                className="w-full px-4 py-3 rounded-xl border-2 border-amber-200 focus:border-amber-500 focus:outline-none"
+              />
+            </div>
+            <p className="text-sm text-amber-600 mt-2">
+              {t('form.cover.hint')}
+            </p>
+          </div>
+
+          {/* Line on every page */}
+          <div className="mb-8">
+            <label className="block text-sm font-semibold text-amber-800 mb-2">
+              {t('form.pageTemplate.label')}
+            </label>
+            <div className="grid sm:grid-cols-3 gap-4">
+              <input
+                type="text"
+                value={pageTemplate}
+                onChange={(e) => setPageTemplate(e.target.value)}
+                maxLength={80}
+                placeholder={t('form.pageTemplate.placeholder')}
+                className="sm:col-span-2 w-full px-4 py-3 rounded-xl border-2 border-amber-200 focus:border-amber-500 focus:outline-none"
+              />
+              <select
+                value={templatePosition}
+                onChange={(e) => setTemplatePosition(e.target.value as TemplatePosition)}
+                className="w-full px-4 py-3 rounded-xl border-2 border-amber-200 focus:border-amber-500 focus:outline-none bg-white"
+              >
+                {TEMPLATE_POSITION_OPTIONS.map((value) => (
+                  <option key={value} value={value}>
+                    {t(`templatePosition.${value}`)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <p className="text-sm text-amber-600 mt-2">
+              {t('form.pageTemplate.hint')}
+            </p>
           </div>
 
           {/* Book Type Selection */}
           <div className="mb-8">
             <label className="block text-sm font-semibold text-amber-800 mb-3">
-              Welche Art von Malbuch möchtest du?
+              {t('form.bookType.label')}
             </label>
-            <div className="grid grid-cols-3 gap-4">
-              {[
-                { value: 'coloring', label: '🖍️ Ausmalbuch', desc: 'Klassische Ausmalbilder' },
-                { value: 'paint-by-numbers', label: '🔢 Malen nach Zahlen', desc: 'Mit Farbnummern' },
-                { value: 'both', label: '✨ Beides', desc: 'Alle Varianten' },
-              ].map((option) => (
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              {BOOK_TYPE_OPTIONS.map((option) => (
                 <button
                   key={option.value}
-                  onClick={() => setBookType(option.value as BookType)}
+                  onClick={() => setBookType(option.value)}
                   className={`p-4 rounded-xl border-2 text-left transition-all ${
                     bookType === option.value
                       ? 'border-amber-500 bg-amber-50'
                       : 'border-amber-200 hover:border-amber-300'
                   }`}
                 >
-                  <span className="text-2xl block mb-1">{option.label.split(' ')[0]}</span>
-                  <span className="font-semibold text-amber-900 block">{option.label.split(' ').slice(1).join(' ')}</span>
-                  <span className="text-sm text-amber-600">{option.desc}</span>
+                  <span className="text-2xl block mb-1">{option.emoji}</span>
+                  <span className="font-semibold text-amber-900 block">{t(`bookType.${option.value}.label`)}</span>
+                  <span className="text-sm text-amber-600">{t(`bookType.${option.value}.desc`)}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Paint-by-numbers and dot-to-dot Solutions */}
+          {bookType !== 'coloring' && (
+            <div className="mb-8">
+              <label className="block text-sm font-semibold text-amber-800 mb-2">
+                {t('form.solutions.label')}
+              </label>
+              <select
+                value={solutionMode}
+                onChange={(e) => setSolutionMode(e.target.value as SolutionMode)}
+                className="w-full px-4 py-3 rounded-xl border-2 border-amber-200 focus:border-amber-500 focus:outline-none text-lg bg-white"
+              >
+                {SOLUTION_OPTIONS.map((value) => (
+                  <option key={value} value={value}>
+                    {t(`solutions.${value}`)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* Difficulty */}
+          <div className="mb-8">
+            <label className="block text-sm font-semibold text-amber-800 mb-3">
+              {t('form.difficulty.label')}
+            </label>
+            <div className="grid grid-cols-3 gap-4">
+              {(Object.keys(DIFFICULTY_PRESETS) as Difficulty[]).map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setDifficulty(value)}
+                  className={`p-4 rounded-xl border-2 text-left transition-all ${
+                    difficulty === value
+                      ? 'border-amber-500 bg-amber-50'
+                      : 'border-amber-200 hover:border-amber-300'
+                  }`}
+                >
+                  <span className="font-semibold text-amber-900 block">{t(`difficulty.${value}.label`)}</span>
+                  <span className="text-sm text-amber-600">{t(`difficulty.${value}.desc`)}</span>
                 </button>
               ))}
             </div>
           </div>
 
+          {/* Cover Title Font and Paper Size */}
+          <div className="mb-8 grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-semibold text-amber-800 mb-2">
+                {t('form.titleFont.label')}
+              </label>
+              <select
+                value={titleFont}
+                onChange={(e) => setTitleFont(e.target.value as TitleFont | '')}
+                className="w-full px-4 py-3 rounded-xl border-2 border-amber-200 focus:border-amber-500 focus:outline-none text-lg bg-white"
+              >
+                <option value="">{t('form.titleFont.theme')}</option>
+                {TITLE_FONT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label} – {t(`titleFont.${option.value}.desc`)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-amber-800 mb-2">
+                {t('form.paperSize.label')}
+              </label>
+              <select
+                value={paperSize}
+                onChange={(e) => setPaperSize(e.target.value as PaperSize)}
+                className="w-full px-4 py-3 rounded-xl border-2 border-amber-200 focus:border-amber-500 focus:outline-none text-lg bg-white"
+              >
+                {PAPER_SIZE_OPTIONS.map((value) => (
+                  <option key={value} value={value}>
+                    {t(`paperSize.${value}`)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Output Quality */}
+          <div className="mb-8">
+            <label className="flex items-center gap-3 text-amber-800 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={vectorOutput}
+                onChange={(e) => setVectorOutput(e.target.checked)}
+                className="w-5 h-5 accent-amber-500"
+              />
+              <span>
+                <span className="font-semibold">{t('option.vector.label')}</span>
+                <span className="text-sm text-amber-600 block">{t('option.vector.desc')}</span>
+              </span>
+            </label>
+            <label className="flex items-center gap-3 text-amber-800 cursor-pointer mt-4">
+              <input
+                type="checkbox"
+                checked={portraitOnly}
+                onChange={(e) => setPortraitOnly(e.target.checked)}
+                className="w-5 h-5 accent-amber-500"
+              />
+              <span>
+                <span className="font-semibold">{t('option.portrait.label')}</span>
+                <span className="text-sm text-amber-600 block">{t('option.portrait.desc')}</span>
+              </span>
+            </label>
+            <label className="flex items-center gap-3 text-amber-800 cursor-pointer mt-4">
+              <input
+                type="checkbox"
+                checked={blankBacks}
+                onChange={(e) => setBlankBacks(e.target.checked)}
+                className="w-5 h-5 accent-amber-500"
+              />
+              <span>
+                <span className="font-semibold">{t('option.blankBacks.label')}</span>
+                <span className="text-sm text-amber-600 block">{t('option.blankBacks.desc')}</span>
+              </span>
+            </label>
+            <label className="flex items-center gap-3 text-amber-800 cursor-pointer mt-4">
+              <input
+                type="checkbox"
+                checked={booklet}
+                onChange={(e) => setBooklet(e.target.checked)}
+                className="w-5 h-5 accent-amber-500"
+              />
+              <span>
+                <span className="font-semibold">{t('option.booklet.label')}</span>
+                <span className="text-sm text-amber-600 block">{t('option.booklet.desc')}</span>
+              </span>
+            </label>
+          </div>
+
           {/* Photo Upload */}
           <div className="mb-8">
             <label className="block text-sm font-semibold text-amber-800 mb-3">
-              Fotos hochladen (max. 20)
+              {t('form.photos.label', { max: 20 })}
             </label>
             
             <div
@@ -207,10 +869,10 @@ export default function Home() {
               />
               <div className="text-5xl mb-4">📷</div>
               <p className="text-amber-700 font-medium">
-                Fotos hierher ziehen oder klicken zum Auswählen
+                {t('form.photos.drop')}
               </p>
               <p className="text-amber-500 text-sm mt-2">
-                JPG, PNG oder WEBP
+                {t('form.photos.formats')}
               </p>
             </div>
 
@@ -218,24 +880,182 @@ export default function Home() {
             {previews.length > 0 && (
               <div className="grid grid-cols-4 sm:grid-cols-6 gap-3 mt-4">
                 {previews.map((preview, idx) => (
-                  <div key={idx} className="relative group">
-                    <img
-                      src={preview}
-                      alt={`Foto ${idx + 1}`}
-                      className="w-full aspect-square object-cover rounded-lg"
+                  <div key={idx}>
+                    <div className="relative group">
+                      <img
+                        src={preview}
+                        alt={t('photo.alt', { number: idx + 1 })}
+                        className="w-full aspect-square object-cover rounded-lg"
+                      />
+                      {hasEdits(photoEdits[idx]) && (
+                        <span className="absolute bottom-1 left-1 px-1.5 py-0.5 bg-amber-500 text-white rounded text-xs">
+                          {t('photo.edited')}
+                        </span>
+                      )}
+                      {coverIndex === idx && (
+                        <span className="absolute top-1 left-1 px-1.5 py-0.5 bg-amber-600 text-white rounded text-xs">
+                          {t('photo.cover')}
+                        </span>
+                      )}
+                      <button
+                        onClick={() => setCoverIndex(coverIndex === idx ? null : idx)}
+                        title={t('photo.setCover')}
+                        className="absolute -bottom-2 -right-2 w-6 h-6 bg-amber-600 text-white rounded-full text-xs opacity-0 group-hover:opacity-100 transition-opacity"
+                      >
+                        ★
+                      </button>
+                      <button
+                        onClick={() => setEditingIndex(idx)}
+                        title={t('photo.edit')}
+                        className="absolute -top-2 -left-2 w-6 h-6 bg-amber-500 text-white rounded-full text-xs opacity-0 group-hover:opacity-100 transition-opacity"
+                      >
+                        ✎
+                      </button>
+                      <button
+                        onClick={() => removePhoto(idx)}
+                        title={t('photo.remove')}
+                        className="absolute -top-2 -right-2 w-6 h-6 bg-red-500 text-white rounded-full text-sm opacity-0 group-hover:opacity-100 transition-opacity"
+                      >
+                        ×
+                      </button>
+                    </div>
+                    <input
+                      type="text"
+                      value={photoCaptions[idx] || ''}
+                      onChange={(e) => setPhotoCaptions(prev => prev.map((c, i) => (i === idx ? e.target.value : c)))}
+                      maxLength={80}
+                      placeholder={t('photo.caption')}
+                      title={t('photo.caption')}
+                      className="mt-3 w-full px-2 py-1 rounded-md border border-amber-200 focus:border-amber-500 focus:outline-none text-xs"
                     />
-                    <button
-                      onClick={() => removePhoto(idx)}
-                      className="absolute -top-2 -right-2 w-6 h-6 bg-red-500 text-white rounded-full text-sm opacity-0 group-hover:opacity-100 transition-opacity"
-                    >
-                      ×
-                    </button>
                   </div>
                 ))}
               </div>
             )}
           </div>
 
+          {editingIndex !== null && photos[editingIndex] && (
+            <PhotoEditor
+              file={photos[editingIndex]}
+              edits={photoEdits[editingIndex] || {}}
+              difficulty={difficulty}
+              kinds={pageKinds}
+              locale={locale}
+              onSave={(edits) => {
+                setPhotoEdits(prev => prev.map((e, i) => (i === editingIndex ? edits : e)));
+                setEditingIndex(null);
+              }}
+              onClose={() => setEditingIndex(null)}
+            />
+          )}
+
+          {/* Page Preview */}
+          {photos.length > 0 && (
+            <div className="mb-8">
+              {!previewOpen || !currentSlide ? (
+                <button
+                  onClick={() => {
+                    setPreviewIndex(0);
+                    setPreviewOpen(true);
+                  }}
+                  disabled={!name.trim()}
+                  className="w-full py-3 rounded-xl border-2 border-amber-300 text-amber-800 font-semibold hover:bg-amber-50 transition-all disabled:opacity-50 disabled:hover:bg-transparent"
+                >
+                  👁 {t('preview.open')}
+                </button>
+              ) : (
+                <div className="rounded-2xl border-2 border-amber-200 bg-amber-50/50 p-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <span className="font-semibold text-amber-900">{slideLabel(currentSlide)}</span>
+                    <div className="flex items-center gap-3">
+                      <span className="text-sm text-amber-600">
+                        {t('preview.position', { current: previewSlides.indexOf(currentSlide) + 1, total: previewSlides.length })}
+                      </span>
+                      <button
+                        onClick={closePreview}
+                        title={t('preview.close')}
+                        className="w-7 h-7 rounded-full text-amber-800 hover:bg-amber-100"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <button
+                      onClick={() => showPreviewPage(previewSlides.indexOf(currentSlide) - 1)}
+                      disabled={previewSlides.indexOf(currentSlide) === 0}
+                      title={t('preview.previous')}
+                      className="w-10 h-10 rounded-full bg-white border-2 border-amber-200 text-amber-800 text-xl hover:border-amber-400 disabled:opacity-30"
+                    >
+                      ‹
+                    </button>
+                    <div className="flex-1 flex items-center justify-center min-h-[24rem]">
+                      {previewImages[currentPreviewKey] ? (
+                        <img
+                          src={previewImages[currentPreviewKey]}
+                          alt={slideLabel(currentSlide)}
+                          className="max-h-[32rem] w-auto bg-white shadow-lg"
+                        />
+                      ) : previewError ? (
+                        <p className="text-red-700 text-sm text-center">{previewError}</p>
+                      ) : (
+                        <p className="text-amber-600 text-sm animate-pulse">{t('preview.loading')}</p>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => showPreviewPage(previewSlides.indexOf(currentSlide) + 1)}
+                      disabled={previewSlides.indexOf(currentSlide) === previewSlides.length - 1}
+                      title={t('preview.next')}
+                      className="w-10 h-10 rounded-full bg-white border-2 border-amber-200 text-amber-800 text-xl hover:border-amber-400 disabled:opacity-30"
+                    >
+                      ›
+                    </button>
+                  </div>
+                  <div className="flex flex-wrap justify-center gap-1.5 mt-4">
+                    {previewSlides.map((slide, idx) => (
+                      <button
+                        key={idx}
+                        onClick={() => showPreviewPage(idx)}
+                        title={slideLabel(slide)}
+                        className={`w-2.5 h-2.5 rounded-full transition-all ${
+                          slide === currentSlide ? 'bg-amber-500' : 'bg-amber-200 hover:bg-amber-300'
+                        }`}
+                      />
+                    ))}
+                  </div>
+                  <p className="text-xs text-amber-600 mt-3 text-center">{t('preview.hint')}</p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Payment confirmation */}
+          {paymentStatus && (
+            <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-xl text-amber-800">
+              {paymentStatus}
+            </div>
+          )}
+          {downloadUrl && (
+            <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-xl text-green-800">
+              {t('payment.thanks')}{' '}
+              <a href={downloadUrl} className="font-semibold underline">
+                {t('payment.download')}
+              </a>
+            </div>
+          )}
+
+          {emailStatus && (
+            <div
+              className={`mb-6 p-4 rounded-xl border ${
+                emailStatus.status === 'failed'
+                  ? 'bg-red-50 border-red-200 text-red-700'
+                  : 'bg-green-50 border-green-200 text-green-800'
+              }`}
+            >
+              {t(`email.status.${emailStatus.status}`, { email: emailStatus.to })}
+            </div>
+          )}
+
           {/* Error */}
           {error && (
             <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl text-red-700">
@@ -243,6 +1063,16 @@ export default function Home() {
             </div>
           )}
 
+          {/* Progress */}
+          {loading && progress && (
+            <div className="mb-4 h-2 bg-amber-100 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-gradient-to-r from-amber-500 to-orange-500 transition-all"
+                style={{ width: `${Math.round((progress.done / Math.max(1, progress.total)) * 100)}%` }}
+              />
+            </div>
+          )}
+
           {/* Generate Button */}
           <button
             onClick={handleGenerate}
@@ -255,25 +1085,29 @@ export default function Home() {
                   <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
                   <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
                 </svg>
-                {processingStatus || 'Wird erstellt...'}
+                {processingStatus || t('status.working')}
               </span>
             ) : (
-              `🎨 Malbuch erstellen (${photos.length} ${photos.length === 1 ? 'Foto' : 'Fotos'})`
+              t(photos.length === 1 ? 'button.generate.one' : 'button.generate.other', { count: photos.length })
             )}
           </button>
+          {loading && (
+            <button
+              onClick={handleCancel}
+              className="w-full mt-3 py-3 rounded-xl border-2 border-amber-300 text-amber-800 font-semibold hover:bg-amber-50 transition-all"
+            >
+              {t('button.cancel')}
+            </button>
+          )}
         </div>
 
         {/* Features */}
         <section className="mt-16 grid md:grid-cols-3 gap-6">
-          {[
-            { emoji: '⚡', title: 'Sofort Download', desc: 'Dein Malbuch ist in Sekunden fertig zum Ausdrucken' },
-            { emoji: '🎁', title: 'Perfektes Geschenk', desc: 'Überrasche Familie & Freunde mit personalisierten Malbüchern' },
-            { emoji: '🖨️', title: 'Druckfertig', desc: 'A4 Format, optimiert für jeden Drucker' },
-          ].map((feature, idx) => (
-            <div key={idx} className="bg-white/60 backdrop-blur-sm rounded-2xl p-6 text-center">
+          {FEATURES.map((feature) => (
+            <div key={feature.key} className="bg-white/60 backdrop-blur-sm rounded-2xl p-6 text-center">
               <div className="text-4xl mb-3">{feature.emoji}</div>
-              <h3 className="font-bold text-amber-900 mb-2">{feature.title}</h3>
-              <p className="text-amber-700 text-sm">{feature.desc}</p>
+              <h3 className="font-bold text-amber-900 mb-2">{t(`feature.${feature.key}.title`)}</h3>
+              <p className="text-amber-700 text-sm">{t(`feature.${feature.key}.desc`)}</p>
             </div>
           ))}
         </section>
@@ -281,9 +1115,9 @@ export default function Home() {
         {/* Pricing teaser */}
         <section className="mt-16 text-center">
           <div className="inline-block bg-white rounded-2xl px-8 py-6 shadow-lg border border-amber-100">
-            <p className="text-amber-600 text-sm mb-1">Einführungspreis</p>
-            <p className="text-4xl font-bold text-amber-900">€4,99</p>
-            <p className="text-amber-600 text-sm">pro Malbuch • Sofort-Download</p>
+            <p className="text-amber-600 text-sm mb-1">{t('pricing.intro')}</p>
+            <p className="text-4xl font-bold text-amber-900">{t('pricing.price')}</p>
+            <p className="text-amber-600 text-sm">{t('pricing.per')}</p>
           </div>
         </section>
       </div>
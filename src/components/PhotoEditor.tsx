@@ -0,0 +1,378 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { PhotoEdits } from '@/lib/imageCore';
+import { Difficulty } from '@/lib/difficulty';
+import { isAbortError, processImages } from '@/lib/imageWorkerPool';
+import { BackgroundMode, MaskLabel, MaskStroke } from '@/lib/subjectMask';
+import { Locale, MessageKey, MessageParams, t as translate } from '@/lib/i18n';
+
+type PreviewKind = 'coloring' | 'paint-by-numbers' | 'dot-to-dot';
+type Crop = NonNullable<PhotoEdits['crop']>;
+type Tool = 'crop' | MaskLabel;
+
+const TOOLS: Tool[] = ['crop', 'subject', 'background'];
+
+const STROKE_COLORS: Record<MaskLabel, string> = {
+  subject: 'rgba(34, 197, 94, 0.5)',
+  background: 'rgba(239, 68, 68, 0.5)',
+};
+
+/** Brush radius as a fraction of the photo width */
+const BRUSH_RADIUS = 0.025;
+
+interface PhotoEditorProps {
+  file: File;
+  edits: PhotoEdits;
+  difficulty: Difficulty;
+  /** Page types in the book; with both the preview can switch */
+  kinds: PreviewKind[];
+  onSave: (edits: PhotoEdits) => void;
+  onClose: () => void;
+  locale: Locale;
+}
+
+/** Longest edge of the source shown in the editor */
+const SOURCE_PREVIEW_SIZE = 600;
+
+/**
+ * Photo with EXIF orientation and the editor rotation applied, as a data URL
+ */
+async function renderSource(file: File, rotation: number): Promise<string> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const scale = Math.min(1, SOURCE_PREVIEW_SIZE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+  const swap = rotation % 180 !== 0;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = swap ? height : width;
+  canvas.height = swap ? width : height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate((rotation * Math.PI) / 180);
+  ctx.drawImage(bitmap, -width / 2, -height / 2, width, height);
+  bitmap.close();
+
+  return canvas.toDataURL('image/jpeg', 0.85);
+}
+
+/**
+ * Crop, rotate, detail/contrast sliders and a live conversion preview for one photo
+ */
+export default function PhotoEditor({ file, edits, difficulty, kinds, onSave, onClose, locale }: PhotoEditorProps) {
+  const t = (key: MessageKey, params?: MessageParams) => translate(locale, key, params);
+  const [rotation, setRotation] = useState<NonNullable<PhotoEdits['rotation']>>(edits.rotation || 0);
+  const [crop, setCrop] = useState<Crop | undefined>(edits.crop);
+  const [draftCrop, setDraftCrop] = useState<Crop | null>(null);
+  const [detail, setDetail] = useState(edits.detail || 0);
+  const [contrast, setContrast] = useState(edits.contrast || 0);
+  const [strokes, setStrokes] = useState<MaskStroke[]>(edits.mask?.strokes || []);
+  const [draftStroke, setDraftStroke] = useState<MaskStroke | null>(null);
+  const [backgroundMode, setBackgroundMode] = useState<BackgroundMode>(edits.mask?.background || 'blank');
+  const [tool, setTool] = useState<Tool>('crop');
+  const [kind, setKind] = useState<PreviewKind>(kinds[0]);
+  const [source, setSource] = useState('');
+  const [sourceAspect, setSourceAspect] = useState(1);
+  const [preview, setPreview] = useState('');
+  const [previewing, setPreviewing] = useState(false);
+  const [previewError, setPreviewError] = useState('');
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const previewUrl = useRef('');
+
+  useEffect(() => {
+    let cancelled = false;
+    renderSource(file, rotation)
+      .then(url => { if (!cancelled) setSource(url); })
+      .catch(() => { if (!cancelled) setPreviewError(t('editor.loadFailed')); });
+    return () => {
+      cancelled = true;
+    };
+  }, [file, rotation]);
+
+  const mask = useMemo(
+    () => (strokes.length ? { strokes, background: backgroundMode } : undefined),
+    [strokes, backgroundMode]
+  );
+
+  // Live preview, debounced; a newer change cancels the running conversion
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setPreviewing(true);
+      setPreviewError('');
+      try {
+        const [result] = await processImages(
+          [{ kind, file, difficulty, vector: false, edits: { rotation, crop, detail, contrast, mask } }],
+          { signal: controller.signal, concurrency: 1 }
+        );
+        if (previewUrl.current) URL.revokeObjectURL(previewUrl.current);
+        previewUrl.current = URL.createObjectURL(result.image);
+        setPreview(previewUrl.current);
+      } catch (err) {
+        if (!isAbortError(err)) setPreviewError(t('editor.previewFailed'));
+      } finally {
+        if (!controller.signal.aborted) setPreviewing(false);
+      }
+    }, 300);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [file, kind, difficulty, rotation, crop, detail, contrast, mask]);
+
+  useEffect(() => () => {
+    if (previewUrl.current) URL.revokeObjectURL(previewUrl.current);
+  }, []);
+
+  const pointerPosition = (e: React.PointerEvent) => {
+    const rect = frameRef.current!.getBoundingClientRect();
+    return {
+      x: Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)),
+      y: Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const position = pointerPosition(e);
+    if (tool !== 'crop') {
+      setDraftStroke({ label: tool, radius: BRUSH_RADIUS, points: [[position.x, position.y]] });
+      return;
+    }
+    dragStart.current = position;
+    setDraftCrop(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (draftStroke) {
+      const { x, y } = pointerPosition(e);
+      setDraftStroke({ ...draftStroke, points: [...draftStroke.points, [x, y]] });
+      return;
+    }
+    if (!dragStart.current) return;
+    const start = dragStart.current;
+    const end = pointerPosition(e);
+    setDraftCrop({
+      x: Math.min(start.x, end.x),
+      y: Math.min(start.y, end.y),
+      width: Math.abs(end.x - start.x),
+      height: Math.abs(end.y - start.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    // Strokes only join the mask (and trigger a preview) once finished
+    if (draftStroke) {
+      setStrokes(prev => [...prev, draftStroke]);
+      setDraftStroke(null);
+      return;
+    }
+    dragStart.current = null;
+    // A click without dragging keeps the current crop
+    if (draftCrop && draftCrop.width > 0.05 && draftCrop.height > 0.05) {
+      setCrop(draftCrop);
+    }
+    setDraftCrop(null);
+  };
+
+  const rotate = (quarterTurns: number) => {
+    setRotation(prev => (((prev + quarterTurns * 90) % 360 + 360) % 360) as NonNullable<PhotoEdits['rotation']>);
+    // Crop and mask are relative to the rotated photo
+    setCrop(undefined);
+    setStrokes([]);
+  };
+
+  const shownCrop = draftCrop || crop;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-3xl shadow-xl p-6 w-full max-w-4xl max-h-full overflow-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-xl font-bold text-amber-900 mb-4">{t('editor.title')}</h3>
+
+        <div className="grid md:grid-cols-2 gap-4 mb-4">
+          <div>
+            <div className="flex flex-wrap gap-2 mb-2 text-sm">
+              {TOOLS.map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setTool(value)}
+                  className={`px-2 py-1 rounded-lg border ${
+                    tool === value ? 'border-amber-500 bg-amber-50' : 'border-amber-200'
+                  }`}
+                >
+                  {t(`editor.tool.${value}`)}
+                </button>
+              ))}
+            </div>
+            <p className="text-sm text-amber-600 mb-2">{t(`editor.hint.${tool}`)}</p>
+            <div
+              ref={frameRef}
+              className="relative overflow-hidden rounded-lg bg-amber-50 select-none touch-none cursor-crosshair"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+            >
+              {source && (
+                <img
+                  src={source}
+                  alt={t('editor.original')}
+                  className="w-full block"
+                  draggable={false}
+                  onLoad={(e) => setSourceAspect(e.currentTarget.naturalHeight / e.currentTarget.naturalWidth)}
+                />
+              )}
+              <svg
+                className="absolute inset-0 w-full h-full pointer-events-none"
+                viewBox={`0 0 1 ${sourceAspect}`}
+                preserveAspectRatio="none"
+              >
+                {[...strokes, ...(draftStroke ? [draftStroke] : [])].map((stroke, idx) => (
+                  <polyline
+                    key={idx}
+                    points={stroke.points.map(([x, y]) => `${x},${y * sourceAspect}`).join(' ')}
+                    fill="none"
+                    stroke={STROKE_COLORS[stroke.label]}
+                    strokeWidth={stroke.radius * 2}
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  />
+                ))}
+              </svg>
+              {shownCrop && (
+                <div
+                  className="absolute border-2 border-white pointer-events-none"
+                  style={{
+                    left: `${shownCrop.x * 100}%`,
+                    top: `${shownCrop.y * 100}%`,
+                    width: `${shownCrop.width * 100}%`,
+                    height: `${shownCrop.height * 100}%`,
+                    boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.45)',
+                  }}
+                />
+              )}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-sm text-amber-600">
+                {t(previewing ? 'editor.previewing' : 'editor.preview')}
+              </p>
+              {kinds.length > 1 && (
+                <div className="flex gap-2 text-sm">
+                  {kinds.map((value) => (
+                    <button
+                      key={value}
+                      onClick={() => setKind(value)}
+                      className={`px-2 py-1 rounded-lg border ${
+                        kind === value ? 'border-amber-500 bg-amber-50' : 'border-amber-200'
+                      }`}
+                    >
+                      {t(`editor.kind.${value}`)}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="rounded-lg bg-amber-50 min-h-[200px] flex items-center justify-center">
+              {previewError ? (
+                <span className="text-red-600 text-sm">{previewError}</span>
+              ) : preview ? (
+                <img src={preview} alt={t('editor.preview')} className={`w-full block ${previewing ? 'opacity-50' : ''}`} />
+              ) : null}
+            </div>
+          </div>
+        </div>
+
+        {strokes.length > 0 && (
+          <div className="flex flex-wrap items-center gap-3 mb-4 text-sm text-amber-800">
+            <span className="font-semibold">{t('editor.background')}</span>
+            <select
+              value={backgroundMode}
+              onChange={(e) => setBackgroundMode(e.target.value as BackgroundMode)}
+              className="px-3 py-1 rounded-lg border-2 border-amber-200 focus:border-amber-400 focus:outline-none"
+            >
+              <option value="blank">{t('editor.background.blank')}</option>
+              <option value="simplify">{t('editor.background.simplify')}</option>
+            </select>
+            <button onClick={() => setStrokes(prev => prev.slice(0, -1))} className="underline">
+              {t('editor.undoStroke')}
+            </button>
+            <button onClick={() => setStrokes([])} className="underline">
+              {t('editor.clearMask')}
+            </button>
+          </div>
+        )}
+
+        <div className="grid sm:grid-cols-2 gap-4 mb-6">
+          <label className="block text-sm text-amber-800">
+            <span className="font-semibold">{t('editor.detail')}</span>
+            <input
+              type="range"
+              min={-1}
+              max={1}
+              step={0.1}
+              value={detail}
+              onChange={(e) => setDetail(Number(e.target.value))}
+              className="w-full accent-amber-500"
+            />
+          </label>
+          <label className="block text-sm text-amber-800">
+            <span className="font-semibold">{t('editor.contrast')}</span>
+            <input
+              type="range"
+              min={-1}
+              max={1}
+              step={0.1}
+              value={contrast}
+              onChange={(e) => setContrast(Number(e.target.value))}
+              className="w-full accent-amber-500"
+            />
+          </label>
+        </div>
+
+        <div className="flex flex-wrap gap-3 justify-between">
+          <div className="flex gap-3">
+            <button onClick={() => rotate(-1)} className="px-4 py-2 rounded-xl border-2 border-amber-200 hover:border-amber-400">
+              {t('editor.rotateLeft')}
+            </button>
+            <button onClick={() => rotate(1)} className="px-4 py-2 rounded-xl border-2 border-amber-200 hover:border-amber-400">
+              {t('editor.rotateRight')}
+            </button>
+            <button
+              onClick={() => {
+                setRotation(0);
+                setCrop(undefined);
+                setStrokes([]);
+                setDetail(0);
+                setContrast(0);
+              }}
+              className="px-4 py-2 rounded-xl border-2 border-amber-200 hover:border-amber-400"
+            >
+              {t('editor.reset')}
+            </button>
+          </div>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-4 py-2 rounded-xl text-amber-800 hover:bg-amber-50">
+              {t('editor.cancel')}
+            </button>
+            <button
+              onClick={() => onSave({ rotation, crop, detail, contrast, mask })}
+              className="px-6 py-2 rounded-xl bg-amber-500 hover:bg-amber-600 text-white font-semibold"
+            >
+              {t('editor.apply')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
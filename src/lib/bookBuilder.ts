@@ -0,0 +1,620 @@
+/**
+ * Turns a book upload (form fields + photos) into a finished PDF
+ * Shared by the synchronous /api/generate route and background jobs
+ */
+
+import { decodePhoto, imageToColoringPage, imageToDotToDot, imageToPaintByNumbers, photoToCoverImage } from './imageProcessor';
+import {
+  generateBook,
+  isPageType,
+  isSolutionMode,
+  isTemplatePosition,
+  unknownTemplatePlaceholders,
+  BookPage,
+  PageType,
+  SolutionMode,
+  TemplatePosition,
+  TEMPLATE_PLACEHOLDERS,
+} from './pdfGenerator';
+import { isTitleFont, TitleFont } from './pdfFonts';
+import { isPaperSize, MAX_MARGIN, PaperSize } from './pageLayout';
+import { adjustDetail, DEFAULT_DIFFICULTY, DIFFICULTY_PRESETS, isDifficulty, Difficulty, DifficultyPreset } from './difficulty';
+import { ColoringOptions } from './coloringPage';
+import { DotToDotOptions } from './dotToDot';
+import { PaintByNumbersOptions } from './paintByNumbers';
+import { PhotoEdits } from './imageCore';
+import { isSubjectMask } from './subjectMask';
+import { COVER_THEMES, DEFAULT_COVER_THEME, isCoverTheme, CoverTheme } from './coverThemes';
+import { DEFAULT_LOCALE, isLocale, LOCALES, t, Locale, MessageKey, MessageParams } from './i18n';
+import { isVectorArt, VectorArt } from './vectorTrace';
+import { isEmailAddress } from './email';
+import { checkImage, checkTotalUploadSize, checkUploadSize, UploadIssue } from './uploadValidation';
+import { detectImageFormat, ImageFormat } from './imageUtils';
+
+/** 'both' gives every photo a coloring and a paint-by-numbers page */
+export type BookType = 'coloring' | 'paint-by-numbers' | 'dot-to-dot' | 'both';
+
+export function isBookType(value: unknown): value is BookType {
+  return value === 'coloring' || value === 'paint-by-numbers' || value === 'dot-to-dot' || value === 'both';
+}
+
+export const MAX_PHOTOS = 20;
+
+export const MAX_NAME_LENGTH = 40;
+export const MAX_TITLE_LENGTH = 60;
+export const MAX_DEDICATION_LENGTH = 300;
+export const MAX_CAPTION_LENGTH = 80;
+export const MAX_PAGE_TEMPLATE_LENGTH = 80;
+
+/** Per-photo overrides of the difficulty preset (CLI manifests) */
+export interface PhotoTuning {
+  difficulty?: Difficulty;
+  coloring?: ColoringOptions;
+  paintByNumbers?: PaintByNumbersOptions;
+  dotToDot?: DotToDotOptions;
+}
+
+/**
+ * One entry of the `pages` field of a preprocessed upload
+ * `file` and `solution` name the form parts holding the images.
+ */
+export interface PageManifestEntry {
+  file: string;
+  type: PageType;
+  /** Format of the page image, checked against its bytes */
+  format: 'png' | 'jpeg';
+  /** Paint-by-numbers colors as #rrggbb, numbered from 1 (paint-by-numbers only) */
+  palette?: string[];
+  /** Line printed under the picture */
+  caption?: string;
+  /** Place in the book, 0-based; each position from 0 to pages - 1 once */
+  position: number;
+  /** Form part with the solution as PNG (paint-by-numbers and dot-to-dot only) */
+  solution?: string;
+  /** Traced line art, used with vector output; the dots of a dot-to-dot page (required there) */
+  vector?: VectorArt;
+}
+
+export interface BookRequest {
+  name: string;
+  bookType: BookType;
+  /** Language of all text printed in the book (and of its email) */
+  locale: Locale;
+  /** Also send the finished book to this address */
+  email?: string;
+  /** Photos were already converted in the browser */
+  preprocessed: boolean;
+  /** Draw traced line art as PDF strokes instead of embedding bitmaps */
+  vectorOutput: boolean;
+  /** Preset for line detail, colors and label size */
+  difficulty: Difficulty;
+  /** Cover title font; the theme's font when unset */
+  titleFont?: TitleFont;
+  theme: CoverTheme;
+  /** Custom cover title; "<Name>'s Malbuch" when unset */
+  title?: string;
+  /** Text of the dedication page; no dedication page when unset */
+  dedication?: string;
+  /** Line on every interior page with {name}, {n} and {pages}, e.g. "{name}s Malbuch – Seite {n}" */
+  pageTemplate?: string;
+  templatePosition: TemplatePosition;
+  /** Photo index to put on the cover (raw uploads) */
+  coverPhoto?: number;
+  /** Ready cover photo from the browser (preprocessed uploads) */
+  coverImage?: Buffer;
+  paperSize: PaperSize;
+  /** Margin on every side in mm; the generator's default when unset */
+  margin?: number;
+  /** Keep all pages portrait and turn landscape images on the page */
+  portraitOnly: boolean;
+  /** Empty back behind every picture for duplex printing */
+  blankBacks: boolean;
+  /** Saddle-stitch booklet, two pages per sheet */
+  booklet: boolean;
+  /** Raw photos (empty for preprocessed uploads) */
+  photos: Buffer[];
+  /** Ready pages in book order, built from the `pages` manifest (preprocessed uploads only) */
+  pages: BookPage[];
+  /** Editor edits per photo (raw uploads only; preprocessed photos are already edited) */
+  edits: (PhotoEdits | null)[];
+  /** Caption under each photo's pages (raw uploads only; preprocessed pages carry their own) */
+  captions: (string | null)[];
+  /** Preset overrides per photo (raw uploads only) */
+  tuning?: (PhotoTuning | null)[];
+  /** Where paint-by-numbers and dot-to-dot solutions go */
+  solutionMode: SolutionMode;
+}
+
+export type BuildStage = 'decode' | 'convert' | 'layout' | 'pdf';
+
+export interface BuildProgress {
+  /** Stage currently being worked on */
+  stage: BuildStage;
+  /** Pages finished within the current stage */
+  page: number;
+  totalPages: number;
+}
+
+/**
+ * Invalid upload; the message is shown to the user, translated with
+ * t(locale, key, params) (the Error message is the German text)
+ */
+export class BookRequestError extends Error {
+  constructor(
+    public readonly key: MessageKey,
+    public readonly params: MessageParams = {},
+    public readonly status: number = 400
+  ) {
+    super(t(DEFAULT_LOCALE, key, params));
+    this.name = 'BookRequestError';
+  }
+
+  static fromIssue(issue: UploadIssue): BookRequestError {
+    return new BookRequestError(issue.key, issue.params, issue.status);
+  }
+
+  /** Stable code for API clients, e.g. 'fileTooLarge' for 'api.fileTooLarge' */
+  get code(): string {
+    return this.key.replace(/^api\./, '');
+  }
+
+  /** JSON body of the error response: translated message, code and its parameters */
+  toResponse(locale: Locale): { error: string; code: string; details?: MessageParams } {
+    return {
+      error: t(locale, this.key, this.params),
+      code: this.code,
+      ...(Object.keys(this.params).length ? { details: this.params } : {}),
+    };
+  }
+}
+
+const PAGE_FORMATS: ImageFormat[] = ['png', 'jpeg'];
+const SOLUTION_FORMATS: ImageFormat[] = ['png'];
+const COVER_FORMATS: ImageFormat[] = ['jpeg', 'png'];
+
+/** More colors than any difficulty preset quantizes to */
+const MAX_PALETTE_COLORS = 64;
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Read an uploaded image after checking its real format and pixel count
+ */
+async function readImage(file: Blob, label: string, formats?: ImageFormat[]): Promise<Buffer> {
+  const data = Buffer.from(await file.arrayBuffer());
+  const issue = checkImage(data, label, formats);
+  if (issue) throw BookRequestError.fromIssue(issue);
+  return data;
+}
+
+/** File name for error messages (client-controlled, so kept short) */
+function uploadLabel(file: Blob, fallback: string): string {
+  const name = file instanceof File && file.name ? file.name : fallback;
+  return name.length > 60 ? `${name.slice(0, 57)}...` : name;
+}
+
+function parseJsonField<T>(formData: FormData, field: string): T[] {
+  try {
+    return JSON.parse((formData.get(field) as string) || '[]');
+  } catch {
+    console.warn(`Invalid ${field} field, ignoring`);
+    return [];
+  }
+}
+
+/**
+ * The `pages` manifest of a preprocessed upload, checked entry by entry and
+ * sorted by position; `page` in errors counts entries from 1
+ */
+function parsePageManifest(field: FormDataEntryValue | null): PageManifestEntry[] {
+  if (field === null) throw new BookRequestError('api.pageManifestRequired');
+  let entries: unknown;
+  try {
+    entries = typeof field === 'string' ? JSON.parse(field) : null;
+  } catch {
+    entries = null;
+  }
+  if (!Array.isArray(entries)) throw new BookRequestError('api.pageManifestUnreadable');
+
+  const count = entries.length;
+  const parts = new Set<string>();
+  const positions = new Set<number>();
+  const pages = entries.map((entry: unknown, i): PageManifestEntry => {
+    const invalid = (name: string) => new BookRequestError('api.invalidPageManifest', { page: i + 1, field: name });
+    if (!entry || typeof entry !== 'object') throw invalid('entry');
+    const { file, type, format, palette, caption, position, solution, vector } = entry as Record<string, unknown>;
+
+    // Every form part belongs to one page only
+    if (typeof file !== 'string' || !file || parts.has(file)) throw invalid('file');
+    parts.add(file);
+    if (!isPageType(type)) throw invalid('type');
+    if (format !== 'png' && format !== 'jpeg') throw invalid('format');
+    const validPalette = Array.isArray(palette) && palette.length > 0 && palette.length <= MAX_PALETTE_COLORS
+      && palette.every(color => typeof color === 'string' && HEX_COLOR.test(color));
+    if (type === 'paint-by-numbers' ? !validPalette : palette !== undefined) throw invalid('palette');
+    if (caption !== undefined && (typeof caption !== 'string' || caption.trim().length > MAX_CAPTION_LENGTH)) {
+      throw invalid('caption');
+    }
+    if (typeof position !== 'number' || !Number.isInteger(position) || position < 0 || position >= count
+      || positions.has(position)) {
+      throw invalid('position');
+    }
+    positions.add(position);
+    if (solution !== undefined) {
+      if (type === 'coloring' || typeof solution !== 'string' || !solution || parts.has(solution)) {
+        throw invalid('solution');
+      }
+      parts.add(solution);
+    }
+    if (vector !== undefined ? !isVectorArt(vector) : type === 'dot-to-dot') throw invalid('vector');
+
+    return {
+      file,
+      type,
+      format,
+      palette: validPalette ? (palette as string[]) : undefined,
+      caption: typeof caption === 'string' ? caption.trim() || undefined : undefined,
+      position,
+      solution: solution as string | undefined,
+      vector: vector as VectorArt | undefined,
+    };
+  });
+  return pages.sort((a, b) => a.position - b.position);
+}
+
+/**
+ * The `edits` field of a raw upload: one entry (or null) per photo, checked
+ * like the editor produces them; `photo` in errors counts from 1
+ */
+function parsePhotoEdits(field: FormDataEntryValue | null, photoCount: number): (PhotoEdits | null)[] {
+  if (field === null) return [];
+  let entries: unknown;
+  try {
+    entries = typeof field === 'string' ? JSON.parse(field) : null;
+  } catch {
+    entries = null;
+  }
+  if (!Array.isArray(entries)) throw new BookRequestError('api.editsUnreadable');
+  if (entries.length !== photoCount) {
+    throw new BookRequestError('api.editsCountMismatch', { edits: entries.length, photos: photoCount });
+  }
+
+  const fraction = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 1;
+  const amount = (value: unknown) => value === undefined || (typeof value === 'number' && value >= -1 && value <= 1);
+  return entries.map((entry: unknown, i): PhotoEdits | null => {
+    const invalid = (name: string) => new BookRequestError('api.invalidEdits', { photo: i + 1, field: name });
+    if (entry === null) return null;
+    if (typeof entry !== 'object' || Array.isArray(entry)) throw invalid('entry');
+    const { rotation, crop, detail, contrast, mask } = entry as Record<string, unknown>;
+
+    if (rotation !== undefined && rotation !== 0 && rotation !== 90 && rotation !== 180 && rotation !== 270) {
+      throw invalid('rotation');
+    }
+    if (crop !== undefined) {
+      const { x, y, width, height } = (crop || {}) as Record<string, unknown>;
+      if (!fraction(x) || !fraction(y) || !fraction(width) || !fraction(height) || !width || !height) {
+        throw invalid('crop');
+      }
+    }
+    if (!amount(detail)) throw invalid('detail');
+    if (!amount(contrast)) throw invalid('contrast');
+    if (mask !== undefined && !isSubjectMask(mask)) throw invalid('mask');
+    return entry as PhotoEdits;
+  });
+}
+
+/**
+ * Form part a manifest entry refers to
+ */
+function manifestPart(formData: FormData, field: string): Blob {
+  const part = formData.get(field);
+  if (part === null) throw new BookRequestError('api.pageFileMissing', { file: field });
+  if (!(part instanceof Blob)) throw new BookRequestError('api.invalidUpload', { field });
+  return part;
+}
+
+/**
+ * Read and validate the multipart upload (reads all photos into memory)
+ * Without a `locale` field the book uses `fallbackLocale` (the request's language).
+ */
+export async function parseBookRequest(formData: FormData, fallbackLocale: Locale = DEFAULT_LOCALE): Promise<BookRequest> {
+  const nameField = formData.get('name');
+  const name = typeof nameField === 'string' ? nameField : '';
+  const locale = formData.get('locale') || fallbackLocale;
+  const email = ((formData.get('email') as string | null) || '').trim();
+  const bookType = formData.get('type') || 'coloring';
+  const preprocessed = formData.get('preprocessed') === 'true';
+  const vectorOutput = formData.get('output') === 'vector';
+  const difficulty = formData.get('difficulty') || DEFAULT_DIFFICULTY;
+  const titleFont = formData.get('titleFont');
+  const theme = formData.get('theme') || DEFAULT_COVER_THEME;
+  const title = ((formData.get('title') as string | null) || '').trim();
+  const dedication = ((formData.get('dedication') as string | null) || '').trim();
+  const pageTemplate = ((formData.get('pageTemplate') as string | null) || '').trim();
+  const templatePosition = formData.get('templatePosition') || 'footer';
+  const coverPhotoField = formData.get('coverPhoto') as string | null;
+  const coverPhoto = coverPhotoField ? Number(coverPhotoField) : undefined;
+  const coverImage = formData.get('coverImage');
+  const paperSize = formData.get('paperSize') || 'a4';
+  const solutionMode = formData.get('solutionPages') || 'none';
+  const marginField = formData.get('margin') as string | null;
+  const margin = marginField ? Number(marginField) : undefined;
+  // Preprocessed uploads describe their pages in a manifest, raw photos are in page order
+  const manifest = preprocessed ? parsePageManifest(formData.get('pages')) : [];
+  const files = preprocessed ? [] : formData.getAll('photos');
+
+  if (!name || !(preprocessed ? manifest.length : files.length)) {
+    throw new BookRequestError('api.nameAndPhotoRequired');
+  }
+  if (name.length > MAX_NAME_LENGTH) {
+    throw new BookRequestError('api.nameTooLong', { max: MAX_NAME_LENGTH });
+  }
+
+  if (!isLocale(locale)) {
+    throw new BookRequestError('api.unknownLocale', { locales: Object.keys(LOCALES).join(', ') });
+  }
+  if (email && !isEmailAddress(email)) {
+    throw new BookRequestError('api.invalidEmail');
+  }
+  if (!isBookType(bookType)) {
+    throw new BookRequestError('api.unknownBookType');
+  }
+  if (!isDifficulty(difficulty)) {
+    throw new BookRequestError('api.unknownDifficulty');
+  }
+  if (!isPaperSize(paperSize)) {
+    throw new BookRequestError('api.unknownPaperSize');
+  }
+  if (margin !== undefined && !(margin >= 0 && margin <= MAX_MARGIN)) {
+    throw new BookRequestError('api.marginRange', { max: MAX_MARGIN });
+  }
+  if (!isSolutionMode(solutionMode)) {
+    throw new BookRequestError('api.unknownSolutionMode');
+  }
+  if (!isCoverTheme(theme)) {
+    throw new BookRequestError('api.unknownTheme', { themes: Object.keys(COVER_THEMES).join(', ') });
+  }
+  if (title.length > MAX_TITLE_LENGTH) {
+    throw new BookRequestError('api.titleTooLong', { max: MAX_TITLE_LENGTH });
+  }
+  if (dedication.length > MAX_DEDICATION_LENGTH) {
+    throw new BookRequestError('api.dedicationTooLong', { max: MAX_DEDICATION_LENGTH });
+  }
+  if (pageTemplate.length > MAX_PAGE_TEMPLATE_LENGTH) {
+    throw new BookRequestError('api.pageTemplateTooLong', { max: MAX_PAGE_TEMPLATE_LENGTH });
+  }
+  const [unknownPlaceholder] = unknownTemplatePlaceholders(pageTemplate);
+  if (unknownPlaceholder) {
+    throw new BookRequestError('api.unknownTemplatePlaceholder', {
+      placeholder: `{${unknownPlaceholder}}`,
+      placeholders: TEMPLATE_PLACEHOLDERS.map(placeholder => `{${placeholder}}`).join(', '),
+    });
+  }
+  if (!isTemplatePosition(templatePosition)) {
+    throw new BookRequestError('api.unknownTemplatePosition');
+  }
+  const captions = preprocessed ? [] : parseJsonField<unknown>(formData, 'captions').map(caption =>
+    (typeof caption === 'string' ? caption.trim() || null : null));
+  if (captions.some(caption => caption && caption.length > MAX_CAPTION_LENGTH)) {
+    throw new BookRequestError('api.captionTooLong', { max: MAX_CAPTION_LENGTH });
+  }
+  if (!preprocessed && coverPhoto !== undefined && !(Number.isInteger(coverPhoto) && coverPhoto >= 0 && coverPhoto < files.length)) {
+    throw new BookRequestError('api.invalidCoverPhoto');
+  }
+  const edits = preprocessed ? [] : parsePhotoEdits(formData.get('edits'), files.length);
+
+  // Preprocessed uploads carry up to two pages per photo
+  if (preprocessed ? manifest.length > MAX_PHOTOS * 2 : files.length > MAX_PHOTOS) {
+    throw new BookRequestError('api.tooManyPhotos', { max: MAX_PHOTOS });
+  }
+
+  // Sizes first, from the form entries, before anything is read into memory
+  const photoFiles = files.map(file => {
+    if (!(file instanceof Blob)) throw new BookRequestError('api.invalidUpload', { field: 'photos' });
+    return file;
+  });
+  const pageFiles = manifest.map(entry => ({
+    image: manifestPart(formData, entry.file),
+    solution: entry.solution ? manifestPart(formData, entry.solution) : null,
+  }));
+  if (preprocessed) {
+    // Files the manifest doesn't mention would be silently left out of the book
+    const referenced = manifest.map(entry => entry.file).concat(manifest.map(entry => entry.solution || ''));
+    formData.forEach((value, key) => {
+      if (typeof value !== 'string' && key !== 'coverImage' && !referenced.includes(key)) {
+        throw new BookRequestError('api.pageFileUnused', { file: key });
+      }
+    });
+  }
+  const coverFile = coverImage instanceof Blob ? coverImage : null;
+  const uploads = [...photoFiles, ...pageFiles.flatMap(({ image, solution }) => [image, solution]), coverFile]
+    .filter((file): file is File => !!file);
+  for (const file of uploads) {
+    const issue = checkUploadSize(file, uploadLabel(file, 'upload'));
+    if (issue) throw BookRequestError.fromIssue(issue);
+  }
+  const totalIssue = checkTotalUploadSize(uploads);
+  if (totalIssue) throw BookRequestError.fromIssue(totalIssue);
+
+  const photos: Buffer[] = [];
+  for (const file of photoFiles) {
+    const label = uploadLabel(file, `photo ${photos.length + 1}`);
+    console.log(`Photo ${photos.length + 1}: ${label}, type: ${file.type}, size: ${file.size} bytes`);
+    photos.push(await readImage(file, label));
+  }
+
+  const pages: BookPage[] = [];
+  for (let i = 0; i < manifest.length; i++) {
+    const entry = manifest[i];
+    const { image, solution } = pageFiles[i];
+    console.log(`Page ${i + 1}: ${entry.file}, type: ${entry.type}, format: ${entry.format}, size: ${image.size} bytes`);
+    const data = await readImage(image, entry.file, PAGE_FORMATS);
+    if (detectImageFormat(data) !== entry.format) {
+      throw new BookRequestError('api.pageFormatMismatch', { file: entry.file, format: entry.format.toUpperCase() });
+    }
+    pages.push({
+      image: data,
+      type: entry.type,
+      colorPalette: entry.palette,
+      // Dots are only ever drawn as vectors
+      vector: vectorOutput || entry.type === 'dot-to-dot' ? entry.vector : undefined,
+      difficulty,
+      solution: solution && entry.solution ? await readImage(solution, entry.solution, SOLUTION_FORMATS) : undefined,
+      caption: entry.caption,
+    });
+  }
+
+  return {
+    name,
+    bookType,
+    locale,
+    email: email || undefined,
+    preprocessed,
+    vectorOutput,
+    difficulty,
+    titleFont: isTitleFont(titleFont) ? titleFont : undefined,
+    theme,
+    title: title || undefined,
+    dedication: dedication || undefined,
+    pageTemplate: pageTemplate || undefined,
+    templatePosition,
+    coverPhoto: preprocessed ? undefined : coverPhoto,
+    coverImage: coverFile ? await readImage(coverFile, 'coverImage', COVER_FORMATS) : undefined,
+    paperSize,
+    margin,
+    portraitOnly: formData.get('orientation') === 'portrait',
+    blankBacks: formData.get('blankBacks') === 'true',
+    booklet: formData.get('booklet') === 'true',
+    photos,
+    pages,
+    edits,
+    captions,
+    solutionMode,
+  };
+}
+
+/**
+ * Number of interior pages the request will produce
+ */
+export function countPages(request: BookRequest): number {
+  if (request.preprocessed) return request.pages.length;
+  if (request.bookType !== 'both') return request.photos.length;
+  return request.photos.length * 2;
+}
+
+/**
+ * Preset for one raw photo: its own or the book's difficulty, adjusted to
+ * the editor's detail slider and the photo's tuning overrides
+ */
+export function photoPreset(request: BookRequest, index: number): { difficulty: Difficulty; preset: DifficultyPreset } {
+  const edits = request.edits[index] || {};
+  const tuning = request.tuning?.[index] || {};
+  const difficulty = tuning.difficulty || request.difficulty;
+  const adjusted = adjustDetail(DIFFICULTY_PRESETS[difficulty], edits.detail);
+  return {
+    difficulty,
+    preset: {
+      ...adjusted,
+      coloring: { ...adjusted.coloring, ...tuning.coloring },
+      paintByNumbers: { ...adjusted.paintByNumbers, ...tuning.paintByNumbers },
+      dotToDot: { ...adjusted.dotToDot, ...tuning.dotToDot },
+    },
+  };
+}
+
+/**
+ * Convert photos (unless preprocessed), lay out pages and render the PDF
+ * `onPage` sees every interior page once converted (e.g. to save it as PNG),
+ * with the index of its photo (of the page itself for preprocessed uploads).
+ */
+export async function buildBook(
+  request: BookRequest,
+  onProgress: (progress: BuildProgress) => void = () => {},
+  onPage: (page: BookPage, photoIndex: number) => void | Promise<void> = () => {}
+): Promise<Buffer> {
+  const { name, bookType, preprocessed, vectorOutput, difficulty, photos } = request;
+  const totalPages = countPages(request);
+  const pages: BookPage[] = [];
+
+  // Report, then let pending requests (e.g. status polls) run before the next CPU-heavy step
+  const report = async (progress: BuildProgress) => {
+    onProgress(progress);
+    await new Promise(resolve => setImmediate(resolve));
+  };
+
+  console.log(`Processing ${preprocessed ? `${totalPages} pages` : `${photos.length} photos`} for ${name}, type: ${bookType}, difficulty: ${difficulty}, preprocessed: ${preprocessed}`);
+
+  if (preprocessed) {
+    // Pages converted client-side, typed and ordered by the upload's manifest
+    for (let i = 0; i < request.pages.length; i++) {
+      pages.push(request.pages[i]);
+      await onPage(request.pages[i], i);
+    }
+  } else {
+    // Server-side processing
+    for (let i = 0; i < photos.length; i++) {
+      await report({ stage: 'decode', page: pages.length, totalPages });
+      const { difficulty: pageDifficulty, preset } = photoPreset(request, i);
+      const decoded = await decodePhoto(photos[i], preset.maxDimension, request.edits[i] || {});
+      const caption = request.captions[i] || undefined;
+
+      if (bookType === 'coloring' || bookType === 'both') {
+        await report({ stage: 'convert', page: pages.length, totalPages });
+        const { image, vector } = await imageToColoringPage(decoded, preset.coloring, vectorOutput);
+        pages.push({ image, type: 'coloring', vector, difficulty: pageDifficulty, caption });
+        await onPage(pages[pages.length - 1], i);
+      }
+
+      if (bookType === 'paint-by-numbers' || bookType === 'both') {
+        await report({ stage: 'convert', page: pages.length, totalPages });
+        const { image, palette, solution, vector } = await imageToPaintByNumbers(decoded, preset.paintByNumbers, vectorOutput);
+        console.log(`Paint-by-numbers palette: ${palette.join(', ')}`);
+        pages.push({ image, type: 'paint-by-numbers', colorPalette: palette, vector, difficulty: pageDifficulty, solution, caption });
+        await onPage(pages[pages.length - 1], i);
+      }
+
+      if (bookType === 'dot-to-dot') {
+        await report({ stage: 'convert', page: pages.length, totalPages });
+        const { image, solution, vector } = await imageToDotToDot(decoded, preset.dotToDot);
+        pages.push({ image, type: 'dot-to-dot', vector, difficulty: pageDifficulty, solution, caption });
+        await onPage(pages[pages.length - 1], i);
+      }
+    }
+  }
+
+  let coverImage = request.coverImage;
+  if (!coverImage && request.coverPhoto !== undefined) {
+    coverImage = await photoToCoverImage(photos[request.coverPhoto], request.edits[request.coverPhoto] || {});
+  }
+
+  console.log(`Generating PDF with ${pages.length} pages`);
+  await report({ stage: 'layout', page: 0, totalPages });
+
+  const pdfBuffer = await generateBook({
+    name,
+    locale: request.locale,
+    title: request.title,
+    titleFont: request.titleFont,
+    theme: request.theme,
+    coverImage,
+    dedication: request.dedication,
+    pageTemplate: request.pageTemplate,
+    templatePosition: request.templatePosition,
+    paperSize: request.paperSize,
+    margins: request.margin === undefined ? undefined
+      : { top: request.margin, right: request.margin, bottom: request.margin, left: request.margin },
+    orientation: request.portraitOnly ? 'portrait' : 'auto',
+    blankBacks: request.blankBacks,
+    booklet: request.booklet,
+    solutions: request.solutionMode,
+    pages,
+    onPageLaidOut: (page) => {
+      // After the last page only the PDF serialization is left
+      onProgress(page === pages.length
+        ? { stage: 'pdf', page: 0, totalPages }
+        : { stage: 'layout', page, totalPages });
+    },
+  });
+
+  console.log(`PDF generated: ${pdfBuffer.length} bytes`);
+  return pdfBuffer;
+}
@@ -0,0 +1,135 @@
+/**
+ * Book manifests for the command-line generator (scripts/book.ts)
+ * A manifest is a JSON file with the same fields as the /api/generate form,
+ * plus per-photo settings and where to write the PDF and page PNGs. It is
+ * turned into form data and validated by parseBookRequest, so the CLI and
+ * the API accept exactly the same books.
+ */
+
+import { readdir, readFile, stat } from 'fs/promises';
+import path from 'path';
+import { parseBookRequest, BookRequest, PhotoTuning } from './bookBuilder';
+import { isDifficulty } from './difficulty';
+import { PhotoEdits } from './imageCore';
+
+export interface ManifestPhoto extends PhotoTuning {
+  file: string;
+  edits?: PhotoEdits;
+  /** Printed under the photo's pages */
+  caption?: string;
+  /** Use this photo on the cover */
+  cover?: boolean;
+}
+
+export interface BookManifest {
+  name: string;
+  /** Form fields of /api/generate: title, type, difficulty, theme, paperSize, ... */
+  [field: string]: unknown;
+  /** Image files or folders of images, in page order */
+  photos: (string | ManifestPhoto)[];
+  /** PDF path (default: the manifest's name with .pdf) */
+  out?: string;
+  /** Folder for a PNG of every converted page (and paint-by-numbers and dot-to-dot solutions) */
+  pages?: string;
+}
+
+export interface LoadedManifest {
+  request: BookRequest;
+  /** Absolute PDF path */
+  out: string;
+  pagesDir?: string;
+  /** Manifest and photo folders, to watch for changes */
+  watchPaths: string[];
+}
+
+/** Manifest keys passed on to the form as they are */
+const FORM_FIELDS = [
+  'name', 'locale', 'type', 'output', 'difficulty', 'titleFont', 'theme', 'title', 'dedication',
+  'paperSize', 'margin', 'orientation', 'blankBacks', 'booklet', 'solutionPages', 'pageTemplate', 'templatePosition',
+];
+
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp'];
+
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+};
+
+/**
+ * Expand the manifest's photo list: folders become their images in name order
+ */
+async function expandPhotos(entries: (string | ManifestPhoto)[], baseDir: string): Promise<ManifestPhoto[]> {
+  const photos: ManifestPhoto[] = [];
+  for (const entry of entries) {
+    const photo = typeof entry === 'string' ? { file: entry } : entry;
+    if (!photo || typeof photo.file !== 'string') {
+      throw new Error(`Invalid photo entry: ${JSON.stringify(entry)}`);
+    }
+    if (photo.difficulty !== undefined && !isDifficulty(photo.difficulty)) {
+      throw new Error(`Unknown difficulty for ${photo.file}: ${photo.difficulty}`);
+    }
+
+    const file = path.resolve(baseDir, photo.file);
+    if ((await stat(file)).isDirectory()) {
+      const images = (await readdir(file))
+        .filter(name => IMAGE_EXTENSIONS.includes(path.extname(name).toLowerCase()) && !name.startsWith('.'))
+        .sort();
+      // Settings of a folder entry apply to each of its photos
+      photos.push(...images.map(name => ({ ...photo, file: path.join(file, name), cover: false })));
+    } else {
+      photos.push({ ...photo, file });
+    }
+  }
+  return photos;
+}
+
+/**
+ * Read, expand and validate a manifest file
+ */
+export async function loadManifest(manifestPath: string): Promise<LoadedManifest> {
+  const file = path.resolve(manifestPath);
+  const baseDir = path.dirname(file);
+  let manifest: BookManifest;
+  try {
+    manifest = JSON.parse(await readFile(file, 'utf8'));
+  } catch (error) {
+    throw new Error(`${manifestPath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const known = [...FORM_FIELDS, 'photos', 'out', 'pages'];
+  const unknown = Object.keys(manifest).filter(key => !known.includes(key) && !key.startsWith('$'));
+  if (unknown.length) {
+    throw new Error(`Unknown manifest field(s): ${unknown.join(', ')}`);
+  }
+  if (!Array.isArray(manifest.photos)) {
+    throw new Error('Manifest needs a "photos" list');
+  }
+
+  const photos = await expandPhotos(manifest.photos, baseDir);
+  const formData = new FormData();
+  for (const field of FORM_FIELDS) {
+    const value = manifest[field];
+    if (value !== undefined && value !== null) formData.append(field, String(value));
+  }
+  for (const photo of photos) {
+    const type = MIME_TYPES[path.extname(photo.file).toLowerCase()] || 'application/octet-stream';
+    formData.append('photos', new File([await readFile(photo.file)], path.basename(photo.file), { type }));
+  }
+  formData.append('edits', JSON.stringify(photos.map(photo => photo.edits || null)));
+  formData.append('captions', JSON.stringify(photos.map(photo => photo.caption || null)));
+  const coverPhoto = photos.findIndex(photo => photo.cover);
+  if (coverPhoto >= 0) formData.append('coverPhoto', String(coverPhoto));
+
+  const request = await parseBookRequest(formData);
+  request.tuning = photos.map(({ difficulty, coloring, paintByNumbers, dotToDot }) =>
+    (difficulty || coloring || paintByNumbers || dotToDot ? { difficulty, coloring, paintByNumbers, dotToDot } : null));
+
+  return {
+    request,
+    out: path.resolve(baseDir, manifest.out || `${path.basename(file, path.extname(file))}.pdf`),
+    pagesDir: manifest.pages ? path.resolve(baseDir, manifest.pages) : undefined,
+    watchPaths: Array.from(new Set([file, ...photos.map(photo => path.dirname(photo.file))])),
+  };
+}
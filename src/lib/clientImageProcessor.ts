@@ -1,197 +1,167 @@
 /**
- * Client-side image processing using Canvas API
- * Converts photos to coloring book outlines
+ * Browser adapter around imageCore.ts using the Canvas API
+ * Decodes photos and encodes PNGs; the conversion itself is shared with the server.
+ * Works on the main thread and inside Web Workers (see imageWorkerPool.ts).
  */
 
-export async function processImageToColoringPage(file: File): Promise<Blob> {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    const url = URL.createObjectURL(file);
-    
-    img.onload = () => {
-      URL.revokeObjectURL(url);
-      
-      try {
-        // Create canvas
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        if (!ctx) throw new Error('Could not get canvas context');
-        
-        // Resize to max 800px
-        const maxDim = 800;
-        let width = img.width;
-        let height = img.height;
-        
-        if (width > maxDim || height > maxDim) {
-          const scale = maxDim / Math.max(width, height);
-          width = Math.round(width * scale);
-          height = Math.round(height * scale);
-        }
-        
-        canvas.width = width;
-        canvas.height = height;
-        
-        // Draw image
-        ctx.drawImage(img, 0, 0, width, height);
-        
-        // Get image data
-        const imageData = ctx.getImageData(0, 0, width, height);
-        const data = imageData.data;
-        
-        // Convert to grayscale
-        for (let i = 0; i < data.length; i += 4) {
-          const gray = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
-          data[i] = gray;
-          data[i + 1] = gray;
-          data[i + 2] = gray;
-        }
-        
-        // Apply edge detection (Sobel operator)
-        const edgeData = sobelEdgeDetection(data, width, height);
-        
-        // Create output image data
-        const outputData = ctx.createImageData(width, height);
-        for (let i = 0; i < edgeData.length; i++) {
-          const idx = i * 4;
-          // Invert: edges become black lines on white background
-          const val = 255 - edgeData[i];
-          outputData.data[idx] = val;
-          outputData.data[idx + 1] = val;
-          outputData.data[idx + 2] = val;
-          outputData.data[idx + 3] = 255;
-        }
-        
-        ctx.putImageData(outputData, 0, 0);
-        
-        // Convert to JPEG blob
-        canvas.toBlob(
-          (blob) => {
-            if (blob) resolve(blob);
-            else reject(new Error('Failed to create blob'));
-          },
-          'image/jpeg',
-          0.92
-        );
-      } catch (err) {
-        reject(err);
-      }
-    };
-    
-    img.onerror = () => {
-      URL.revokeObjectURL(url);
-      reject(new Error('Failed to load image'));
-    };
-    
-    img.src = url;
-  });
+import { convertToColoringPage, convertToDotToDot, convertToPaintByNumbers, prepareImage, PhotoEdits, RgbaImage } from './imageCore';
+import { adjustDetail, DEFAULT_DIFFICULTY, DIFFICULTY_PRESETS, Difficulty } from './difficulty';
+import { COVER_DIMENSION } from './imageUtils';
+import { VectorArt } from './vectorTrace';
+
+type Canvas = OffscreenCanvas | HTMLCanvasElement;
+
+/**
+ * OffscreenCanvas where available (always in workers), a DOM canvas otherwise
+ */
+function createCanvas(width: number, height: number): { canvas: Canvas; ctx: OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D } {
+  let canvas: Canvas;
+  if (typeof OffscreenCanvas !== 'undefined') {
+    canvas = new OffscreenCanvas(width, height);
+  } else {
+    canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+  }
+
+  const ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+  if (!ctx) throw new Error('Could not get canvas context');
+  return { canvas, ctx };
 }
 
+/** Photos are read at up to this many times the processing size; the core does the final scaling */
+const DECODE_HEADROOM = 2;
+
 /**
- * Sobel edge detection
+ * Decode a photo (EXIF orientation applied), then edit and scale it to the
+ * processing size
+ * A phone photo holds ~200 MB of RGBA at full size, so only as many pixels
+ * are read as the cropped page needs, with headroom: the final scaling
+ * happens in the core, not in drawImage, so it stays close to the server.
  */
-function sobelEdgeDetection(data: Uint8ClampedArray, width: number, height: number): Uint8Array {
-  const output = new Uint8Array(width * height);
-  
-  // Sobel kernels
-  const sobelX = [-1, 0, 1, -2, 0, 2, -1, 0, 1];
-  const sobelY = [-1, -2, -1, 0, 0, 0, 1, 2, 1];
-  
-  for (let y = 1; y < height - 1; y++) {
-    for (let x = 1; x < width - 1; x++) {
-      let gx = 0;
-      let gy = 0;
-      
-      // Apply 3x3 kernel
-      for (let ky = -1; ky <= 1; ky++) {
-        for (let kx = -1; kx <= 1; kx++) {
-          const idx = ((y + ky) * width + (x + kx)) * 4;
-          const gray = data[idx]; // Already grayscale, R=G=B
-          const kernelIdx = (ky + 1) * 3 + (kx + 1);
-          gx += gray * sobelX[kernelIdx];
-          gy += gray * sobelY[kernelIdx];
-        }
-      }
-      
-      // Magnitude
-      const magnitude = Math.sqrt(gx * gx + gy * gy);
-      
-      // Threshold and amplify edges
-      const threshold = 30;
-      const amplify = 3;
-      const edgeVal = magnitude > threshold ? Math.min(255, magnitude * amplify) : 0;
-      
-      output[y * width + x] = edgeVal;
-    }
+async function loadImage(file: Blob, maxDimension: number, edits: PhotoEdits = {}): Promise<RgbaImage> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' }).catch(() => {
+    throw new Error('Failed to load image');
+  });
+
+  try {
+    // The crop is a share of the rotated photo
+    const swap = edits.rotation === 90 || edits.rotation === 270;
+    const crop = edits.crop || { width: 1, height: 1 };
+    const cropped = Math.max(
+      (swap ? bitmap.height : bitmap.width) * crop.width,
+      (swap ? bitmap.width : bitmap.height) * crop.height,
+      1
+    );
+    const scale = Math.min(1, (maxDimension * DECODE_HEADROOM) / cropped);
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const { ctx } = createCanvas(width, height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    const { data } = ctx.getImageData(0, 0, width, height);
+    return prepareImage({ data, width, height }, edits, maxDimension);
+  } finally {
+    bitmap.close();
   }
-  
-  return output;
 }
 
 /**
- * Simple grayscale + contrast for paint-by-numbers
+ * Encode RGBA pixels, as PNG by default (keeps binarized lines and digits sharp)
  */
-export async function processImageToPaintByNumbers(file: File, numColors: number = 8): Promise<Blob> {
+function encodeImage(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  type: 'image/png' | 'image/jpeg' = 'image/png'
+): Promise<Blob> {
+  const { canvas, ctx } = createCanvas(width, height);
+  const imageData = ctx.createImageData(width, height);
+  imageData.data.set(pixels);
+  ctx.putImageData(imageData, 0, 0);
+
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type, quality: 0.85 });
+  }
   return new Promise((resolve, reject) => {
-    const img = new Image();
-    const url = URL.createObjectURL(file);
-    
-    img.onload = () => {
-      URL.revokeObjectURL(url);
-      
-      try {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        if (!ctx) throw new Error('Could not get canvas context');
-        
-        // Resize
-        const maxDim = 800;
-        let width = img.width;
-        let height = img.height;
-        
-        if (width > maxDim || height > maxDim) {
-          const scale = maxDim / Math.max(width, height);
-          width = Math.round(width * scale);
-          height = Math.round(height * scale);
-        }
-        
-        canvas.width = width;
-        canvas.height = height;
-        ctx.drawImage(img, 0, 0, width, height);
-        
-        // Get image data
-        const imageData = ctx.getImageData(0, 0, width, height);
-        const data = imageData.data;
-        
-        // Posterize to reduce colors
-        const levels = numColors;
-        const step = 255 / levels;
-        
-        for (let i = 0; i < data.length; i += 4) {
-          data[i] = Math.round(data[i] / step) * step;
-          data[i + 1] = Math.round(data[i + 1] / step) * step;
-          data[i + 2] = Math.round(data[i + 2] / step) * step;
-        }
-        
-        ctx.putImageData(imageData, 0, 0);
-        
-        canvas.toBlob(
-          (blob) => {
-            if (blob) resolve(blob);
-            else reject(new Error('Failed to create blob'));
-          },
-          'image/jpeg',
-          0.92
-        );
-      } catch (err) {
-        reject(err);
-      }
-    };
-    
-    img.onerror = () => {
-      URL.revokeObjectURL(url);
-      reject(new Error('Failed to load image'));
-    };
-    
-    img.src = url;
+    canvas.toBlob(
+      (blob) => {
+        if (blob) resolve(blob);
+        else reject(new Error('Failed to create blob'));
+      },
+      type,
+      0.85
+    );
   });
 }
+
+/**
+ * Coloring page: Canny line art with the detail and stroke of the difficulty preset
+ * With `vector` the line art is also traced to paths for the PDF
+ */
+export async function processImageToColoringPage(
+  file: Blob,
+  difficulty: Difficulty = DEFAULT_DIFFICULTY,
+  vector: boolean = false,
+  edits: PhotoEdits = {}
+): Promise<{ image: Blob; vector?: VectorArt }> {
+  const { maxDimension, coloring } = adjustDetail(DIFFICULTY_PRESETS[difficulty], edits.detail);
+  const photo = await loadImage(file, maxDimension, edits);
+
+  const result = convertToColoringPage(photo, coloring, vector);
+  return {
+    image: await encodeImage(result.pixels, photo.width, photo.height),
+    vector: result.vector,
+  };
+}
+
+/**
+ * Paint-by-numbers: quantized regions with outlines and number labels,
+ * plus the colored solution
+ */
+export async function processImageToPaintByNumbers(
+  file: Blob,
+  difficulty: Difficulty = DEFAULT_DIFFICULTY,
+  vector: boolean = false,
+  edits: PhotoEdits = {}
+): Promise<{ image: Blob; palette: string[]; solution: Blob; vector?: VectorArt }> {
+  const { maxDimension, paintByNumbers } = adjustDetail(DIFFICULTY_PRESETS[difficulty], edits.detail);
+  const photo = await loadImage(file, maxDimension, edits);
+
+  const result = convertToPaintByNumbers(photo, paintByNumbers, vector);
+  return {
+    image: await encodeImage(result.pixels, photo.width, photo.height),
+    palette: result.palette,
+    solution: await encodeImage(result.solution, photo.width, photo.height),
+    vector: result.vector,
+  };
+}
+
+/**
+ * Dot-to-dot: numbered dots along the main outline, plus the connected
+ * outline as solution; the dots are always vectors for the PDF
+ */
+export async function processImageToDotToDot(
+  file: Blob,
+  difficulty: Difficulty = DEFAULT_DIFFICULTY,
+  edits: PhotoEdits = {}
+): Promise<{ image: Blob; solution: Blob; vector: VectorArt }> {
+  const { maxDimension, dotToDot } = adjustDetail(DIFFICULTY_PRESETS[difficulty], edits.detail);
+  const photo = await loadImage(file, maxDimension, edits);
+
+  const result = convertToDotToDot(photo, dotToDot);
+  return {
+    image: await encodeImage(result.pixels, photo.width, photo.height),
+    solution: await encodeImage(result.solution, photo.width, photo.height),
+    vector: result.vector,
+  };
+}
+
+/**
+ * Cover photo: the photo itself (turned and cropped like in the editor) as JPEG
+ */
+export async function processImageToCoverImage(file: Blob, edits: PhotoEdits = {}): Promise<Blob> {
+  const photo = await loadImage(file, COVER_DIMENSION, { rotation: edits.rotation, crop: edits.crop });
+  return encodeImage(photo.data, photo.width, photo.height, 'image/jpeg');
+}
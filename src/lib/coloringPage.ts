@@ -0,0 +1,310 @@
+/**
+ * Coloring page conversion on raw RGBA pixel data
+ * Grayscale → Gaussian blur → Canny edges → contour cleanup → black lines on white
+ *
+ * Shared by the browser (Canvas ImageData) and server (jimp bitmap) paths.
+ */
+
+import { traceLineArt, VectorArt } from './vectorTrace';
+
+export interface ColoringOptions {
+  /** Gaussian pre-blur strength; higher ignores more texture (grass, hair, carpet) */
+  blurSigma?: number;
+  /** Hysteresis thresholds on Sobel gradient magnitude */
+  lowThreshold?: number;
+  highThreshold?: number;
+  /** Connected edge fragments shorter than this (in pixels) are dropped */
+  minContourLength?: number;
+  /** Final stroke width in pixels (1 = thin Canny lines) */
+  strokeWidth?: number;
+}
+
+export const DEFAULT_COLORING_OPTIONS: Required<ColoringOptions> = {
+  blurSigma: 1.4,
+  lowThreshold: 25,
+  highThreshold: 60,
+  minContourLength: 15,
+  strokeWidth: 2,
+};
+
+/**
+ * Convert an RGBA image to coloring book line art (RGBA, opaque, pure black and white)
+ */
+export function coloringPage(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: ColoringOptions = {}
+): Uint8ClampedArray {
+  const opts = { ...DEFAULT_COLORING_OPTIONS, ...options };
+
+  let edges = coloringEdges(data, width, height, opts);
+  if (opts.strokeWidth > 1) {
+    edges = dilate(edges, width, height, opts.strokeWidth);
+  }
+
+  const output = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < edges.length; i++) {
+    const idx = i * 4;
+    // Edges become black lines on white background
+    const val = edges[i] ? 0 : 255;
+    output[idx] = val;
+    output[idx + 1] = val;
+    output[idx + 2] = val;
+    output[idx + 3] = 255;
+  }
+
+  return output;
+}
+
+/**
+ * Trace the line art into vector paths for crisp printing
+ */
+export function coloringVector(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: ColoringOptions = {}
+): VectorArt {
+  const opts = { ...DEFAULT_COLORING_OPTIONS, ...options };
+  return traceLineArt(coloringEdges(data, width, height, opts), width, height, opts.strokeWidth);
+}
+
+/**
+ * Thin (1px) cleaned-up edge mask, 1 = line (also the outline source of dot-to-dot pages)
+ */
+export function coloringEdges(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  opts: Required<ColoringOptions>
+): Uint8Array {
+  return edgesOfSmoothed(smoothedGray(data, width, height, opts.blurSigma), width, height, opts);
+}
+
+/**
+ * Blurred grayscale of an RGBA image, the input of the edge detection
+ */
+export function smoothedGray(data: Uint8ClampedArray, width: number, height: number, blurSigma: number): Float32Array {
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    const idx = i * 4;
+    gray[i] = 0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
+  }
+  return gaussianBlur(gray, width, height, blurSigma);
+}
+
+/**
+ * Edge mask of a smoothedGray() image; lets callers try several thresholds
+ * on one blur
+ */
+export function edgesOfSmoothed(
+  smoothed: Float32Array,
+  width: number,
+  height: number,
+  opts: Required<Pick<ColoringOptions, 'lowThreshold' | 'highThreshold' | 'minContourLength'>>
+): Uint8Array {
+  const edges = cannyEdges(smoothed, width, height, opts.lowThreshold, opts.highThreshold);
+  removeShortContours(edges, width, height, opts.minContourLength);
+  return edges;
+}
+
+/**
+ * Separable Gaussian blur with clamped borders
+ */
+function gaussianBlur(src: Float32Array, width: number, height: number, sigma: number): Float32Array {
+  if (sigma <= 0) return src;
+
+  const radius = Math.max(1, Math.ceil(sigma * 3));
+  const kernel = new Float32Array(radius * 2 + 1);
+  let sum = 0;
+  for (let i = -radius; i <= radius; i++) {
+    kernel[i + radius] = Math.exp(-(i * i) / (2 * sigma * sigma));
+    sum += kernel[i + radius];
+  }
+  for (let i = 0; i < kernel.length; i++) kernel[i] /= sum;
+
+  const tmp = new Float32Array(width * height);
+  const out = new Float32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let acc = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sx = Math.min(width - 1, Math.max(0, x + k));
+        acc += src[y * width + sx] * kernel[k + radius];
+      }
+      tmp[y * width + x] = acc;
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let acc = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sy = Math.min(height - 1, Math.max(0, y + k));
+        acc += tmp[sy * width + x] * kernel[k + radius];
+      }
+      out[y * width + x] = acc;
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Sobel gradients → non-maximum suppression → hysteresis thresholding
+ * Returns 1 for edge pixels, 0 elsewhere
+ */
+function cannyEdges(
+  gray: Float32Array,
+  width: number,
+  height: number,
+  low: number,
+  high: number
+): Uint8Array {
+  const magnitude = new Float32Array(width * height);
+  // Gradient direction quantized to 0°, 45°, 90°, 135°
+  const direction = new Uint8Array(width * height);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const p = y * width + x;
+      const gx =
+        -gray[p - width - 1] + gray[p - width + 1] -
+        2 * gray[p - 1] + 2 * gray[p + 1] -
+        gray[p + width - 1] + gray[p + width + 1];
+      const gy =
+        -gray[p - width - 1] - 2 * gray[p - width] - gray[p - width + 1] +
+        gray[p + width - 1] + 2 * gray[p + width] + gray[p + width + 1];
+
+      magnitude[p] = Math.sqrt(gx * gx + gy * gy);
+
+      let angle = (Math.atan2(gy, gx) * 180) / Math.PI;
+      if (angle < 0) angle += 180;
+      direction[p] = angle < 22.5 || angle >= 157.5 ? 0 : angle < 67.5 ? 1 : angle < 112.5 ? 2 : 3;
+    }
+  }
+
+  // Non-maximum suppression: keep only the ridge of each gradient
+  const STRONG = 2;
+  const WEAK = 1;
+  const state = new Uint8Array(width * height);
+  const stack: number[] = [];
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const p = y * width + x;
+      const m = magnitude[p];
+      if (m < low) continue;
+
+      let a: number;
+      let b: number;
+      switch (direction[p]) {
+        case 0: a = magnitude[p - 1]; b = magnitude[p + 1]; break;
+        case 1: a = magnitude[p - width - 1]; b = magnitude[p + width + 1]; break;
+        case 2: a = magnitude[p - width]; b = magnitude[p + width]; break;
+        default: a = magnitude[p - width + 1]; b = magnitude[p + width - 1]; break;
+      }
+      if (m < a || m < b) continue;
+
+      if (m >= high) {
+        state[p] = STRONG;
+        stack.push(p);
+      } else {
+        state[p] = WEAK;
+      }
+    }
+  }
+
+  // Hysteresis: weak pixels survive only when connected to a strong one
+  const edges = new Uint8Array(width * height);
+  while (stack.length) {
+    const p = stack.pop()!;
+    if (edges[p]) continue;
+    edges[p] = 1;
+
+    const x = p % width;
+    const y = (p - x) / width;
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        const n = ny * width + nx;
+        if (!edges[n] && state[n]) stack.push(n);
+      }
+    }
+  }
+
+  return edges;
+}
+
+/**
+ * Drop 8-connected edge fragments smaller than minLength pixels (speckle)
+ */
+function removeShortContours(edges: Uint8Array, width: number, height: number, minLength: number): void {
+  if (minLength <= 1) return;
+
+  const visited = new Uint8Array(width * height);
+  const component: number[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < edges.length; start++) {
+    if (!edges[start] || visited[start]) continue;
+
+    component.length = 0;
+    stack.push(start);
+    visited[start] = 1;
+
+    while (stack.length) {
+      const p = stack.pop()!;
+      component.push(p);
+
+      const x = p % width;
+      const y = (p - x) / width;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const n = ny * width + nx;
+          if (edges[n] && !visited[n]) {
+            visited[n] = 1;
+            stack.push(n);
+          }
+        }
+      }
+    }
+
+    if (component.length < minLength) {
+      for (const p of component) edges[p] = 0;
+    }
+  }
+}
+
+/**
+ * Thicken strokes with a square structuring element of the given width
+ */
+export function dilate(edges: Uint8Array, width: number, height: number, strokeWidth: number): Uint8Array {
+  const out = new Uint8Array(width * height);
+  const before = Math.floor((strokeWidth - 1) / 2);
+  const after = Math.ceil((strokeWidth - 1) / 2);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!edges[y * width + x]) continue;
+      for (let dy = -before; dy <= after; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -before; dx <= after; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width) continue;
+          out[ny * width + nx] = 1;
+        }
+      }
+    }
+  }
+
+  return out;
+}
@@ -0,0 +1,351 @@
+/**
+ * Cover themes: colors, title font and a decorative vector border
+ * Subtitles are messages ('theme.<name>.subtitle'), so they follow the book's locale.
+ * Decorations are plain jsPDF shapes, so they print sharp at any size and
+ * need no image assets. All measurements in mm, scaled to the page width.
+ */
+
+import { jsPDF } from 'jspdf';
+import { Box } from './pageLayout';
+import { TitleFont } from './pdfFonts';
+
+export type CoverTheme = 'neutral' | 'geburtstag' | 'weihnachten' | 'ostern' | 'einschulung';
+
+export type Rgb = [number, number, number];
+
+export interface CoverThemeStyle {
+  label: string;
+  /** Title font unless the book picks one */
+  titleFont: TitleFont;
+  /** Cover and back cover fill */
+  background: Rgb;
+  text: Rgb;
+  /** Frame and main ornament color */
+  accent: Rgb;
+  /** Second ornament color */
+  secondary: Rgb;
+}
+
+export const COVER_THEMES: Record<CoverTheme, CoverThemeStyle> = {
+  neutral: {
+    label: 'Neutral',
+    titleFont: 'fredoka',
+    background: [255, 250, 240],
+    text: [60, 60, 60],
+    accent: [200, 180, 160],
+    secondary: [230, 215, 195],
+  },
+  geburtstag: {
+    label: 'Geburtstag',
+    titleFont: 'baloo',
+    background: [255, 248, 235],
+    text: [90, 40, 110],
+    accent: [236, 72, 153],
+    secondary: [59, 130, 246],
+  },
+  weihnachten: {
+    label: 'Weihnachten',
+    titleFont: 'patrick-hand',
+    background: [252, 248, 240],
+    text: [150, 30, 40],
+    accent: [190, 30, 45],
+    secondary: [22, 110, 60],
+  },
+  ostern: {
+    label: 'Ostern',
+    titleFont: 'fredoka',
+    background: [250, 252, 240],
+    text: [70, 100, 50],
+    accent: [250, 170, 60],
+    secondary: [120, 190, 90],
+  },
+  einschulung: {
+    label: 'Einschulung',
+    titleFont: 'nunito',
+    background: [245, 250, 255],
+    text: [30, 60, 120],
+    accent: [37, 99, 235],
+    secondary: [250, 200, 40],
+  },
+};
+
+export const DEFAULT_COVER_THEME: CoverTheme = 'neutral';
+
+export function isCoverTheme(value: unknown): value is CoverTheme {
+  return typeof value === 'string' && value in COVER_THEMES;
+}
+
+const GOLD: Rgb = [235, 185, 40];
+const WHITE: Rgb = [255, 255, 255];
+
+/**
+ * Draw the theme's frame and ornaments onto a cover-sized box
+ * Ornaments stay in the outer ~20% at the top and bottom, the middle is free
+ * for title, cover photo and subtitle.
+ */
+export function drawThemeBorder(doc: jsPDF, theme: CoverTheme, page: Box) {
+  const style = COVER_THEMES[theme];
+  // Ornaments are designed for A4 width
+  const s = page.width / 210;
+  doc.setLineDashPattern([], 0);
+  BORDERS[theme](doc, style, page, s);
+  doc.setLineWidth(0.2);
+}
+
+type BorderDrawer = (doc: jsPDF, style: CoverThemeStyle, page: Box, s: number) => void;
+
+const BORDERS: Record<CoverTheme, BorderDrawer> = {
+  neutral: (doc, style, { x, y, width, height }) => {
+    doc.setDrawColor(...style.accent);
+    doc.setLineWidth(0.5);
+    doc.rect(x + 20, y + 20, width - 40, height - 40);
+  },
+
+  geburtstag: (doc, style, { x, y, width, height }, s) => {
+    frame(doc, style.accent, { x, y, width, height }, 12 * s, 1.2);
+    doc.setDrawColor(...style.secondary);
+    doc.setLineDashPattern([2, 2], 0);
+    doc.setLineWidth(0.4);
+    doc.roundedRect(x + 15 * s, y + 15 * s, width - 30 * s, height - 30 * s, 4, 4);
+    doc.setLineDashPattern([], 0);
+
+    balloon(doc, x + 30 * s, y + 40 * s, 9 * s, style.accent);
+    balloon(doc, x + 46 * s, y + 33 * s, 8 * s, style.secondary);
+    balloon(doc, x + width - 30 * s, y + 40 * s, 9 * s, GOLD);
+    balloon(doc, x + width - 46 * s, y + 33 * s, 8 * s, style.accent);
+
+    // Confetti along the bottom, always the same pattern
+    const colors = [style.accent, style.secondary, GOLD, [120, 200, 120] as Rgb];
+    const random = seededRandom(7);
+    for (let i = 0; i < 48; i++) {
+      const cx = x + 20 * s + random() * (width - 40 * s);
+      const cy = y + height - 34 * s + random() * 14 * s;
+      doc.setFillColor(...colors[i % colors.length]);
+      if (i % 3 === 0) {
+        doc.circle(cx, cy, 1.1 * s, 'F');
+      } else {
+        polygon(doc, rotatedRect(cx, cy, 2.6 * s, 1.1 * s, random() * Math.PI), 'F');
+      }
+    }
+  },
+
+  weihnachten: (doc, style, { x, y, width, height }, s) => {
+    frame(doc, style.accent, { x, y, width, height }, 12 * s, 1.5);
+    frame(doc, style.secondary, { x, y, width, height }, 15 * s, 0.5);
+
+    // A row of stars under the top edge
+    const count = 7;
+    for (let i = 0; i < count; i++) {
+      const cx = x + 30 * s + (i * (width - 60 * s)) / (count - 1);
+      doc.setFillColor(...(i % 2 ? GOLD : style.accent));
+      polygon(doc, star(cx, y + 26 * s + (i % 2) * 4 * s, (i % 2 ? 3.5 : 4.5) * s), 'F');
+    }
+
+    fir(doc, x + 34 * s, y + height - 22 * s, 30 * s, style.secondary);
+    fir(doc, x + width - 34 * s, y + height - 22 * s, 30 * s, style.secondary);
+    snowflake(doc, x + 62 * s, y + height - 40 * s, 5 * s, style.secondary);
+    snowflake(doc, x + width - 62 * s, y + height - 40 * s, 5 * s, style.secondary);
+  },
+
+  ostern: (doc, style, { x, y, width, height }, s) => {
+    frame(doc, style.secondary, { x, y, width, height }, 12 * s, 1);
+
+    // Flowers under the top edge
+    const count = 6;
+    for (let i = 0; i < count; i++) {
+      const cx = x + 32 * s + (i * (width - 64 * s)) / (count - 1);
+      flower(doc, cx, y + 26 * s, 4 * s, i % 2 ? style.accent : [230, 140, 200]);
+    }
+
+    // Grass over the bottom edge, eggs sitting in it
+    const left = x + 12 * s;
+    const right = x + width - 12 * s;
+    const base = y + height - 12 * s;
+    const blades = Math.round((right - left) / (5 * s));
+    const grass: [number, number][] = [[left, base]];
+    for (let i = 0; i < blades; i++) {
+      const bx = left + (i * (right - left)) / blades;
+      grass.push([bx + (right - left) / blades / 2, base - (8 + (i % 3) * 3) * s]);
+      grass.push([bx + (right - left) / blades, base - 3 * s]);
+    }
+    grass.push([right, base]);
+
+    egg(doc, x + 32 * s, base - 14 * s, 9 * s, style.accent, WHITE);
+    egg(doc, x + 50 * s, base - 11 * s, 7 * s, [230, 140, 200], GOLD);
+    egg(doc, x + width - 32 * s, base - 14 * s, 9 * s, [120, 170, 230], WHITE);
+    egg(doc, x + width - 50 * s, base - 11 * s, 7 * s, GOLD, style.accent);
+
+    doc.setFillColor(...style.secondary);
+    polygon(doc, grass, 'F');
+  },
+
+  einschulung: (doc, style, { x, y, width, height }, s) => {
+    frame(doc, style.accent, { x, y, width, height }, 12 * s, 1);
+
+    // Pencils along the top and bottom edge
+    const colors: Rgb[] = [style.accent, [220, 50, 50], [40, 160, 80], style.secondary];
+    const length = (width - 40 * s) / 2 - 4 * s;
+    colors.forEach((color, i) => {
+      const px = x + 20 * s + (i % 2) * (length + 8 * s);
+      const py = i < 2 ? y + 20 * s : y + height - 26 * s;
+      pencil(doc, px, py, length, 6 * s, color);
+    });
+
+    schultuete(doc, x + 30 * s, y + height - 68 * s, 40 * s, style.secondary, style.accent);
+    schultuete(doc, x + width - 30 * s, y + height - 68 * s, 40 * s, [220, 50, 50], style.secondary);
+  },
+};
+
+function frame(doc: jsPDF, color: Rgb, { x, y, width, height }: Box, inset: number, lineWidth: number) {
+  doc.setDrawColor(...color);
+  doc.setLineWidth(lineWidth);
+  doc.roundedRect(x + inset, y + inset, width - 2 * inset, height - 2 * inset, 3, 3);
+}
+
+/**
+ * Closed polygon through absolute points (jsPDF wants relative segments)
+ */
+function polygon(doc: jsPDF, points: [number, number][], style: 'F' | 'S' | 'FD') {
+  const segments = points.slice(1).map(([px, py], i) => [px - points[i][0], py - points[i][1]]);
+  doc.lines(segments, points[0][0], points[0][1], [1, 1], style, true);
+}
+
+function star(cx: number, cy: number, r: number, spikes = 5): [number, number][] {
+  const points: [number, number][] = [];
+  for (let i = 0; i < spikes * 2; i++) {
+    const radius = i % 2 ? r * 0.45 : r;
+    const angle = -Math.PI / 2 + (i * Math.PI) / spikes;
+    points.push([cx + radius * Math.cos(angle), cy + radius * Math.sin(angle)]);
+  }
+  return points;
+}
+
+function rotatedRect(cx: number, cy: number, w: number, h: number, angle: number): [number, number][] {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return [[-w, -h], [w, -h], [w, h], [-w, h]].map(([dx, dy]): [number, number] => [
+    cx + (dx / 2) * cos - (dy / 2) * sin,
+    cy + (dx / 2) * sin + (dy / 2) * cos,
+  ]);
+}
+
+/** Small deterministic generator so every book gets the same ornaments */
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+function balloon(doc: jsPDF, cx: number, cy: number, r: number, color: Rgb) {
+  const bottom = cy + r * 1.2;
+  // String first, so the balloon covers its top
+  doc.setDrawColor(120, 120, 120);
+  doc.setLineWidth(0.3);
+  doc.lines([[r * 0.6, r * 0.8, -r * 0.6, r * 1.6, 0, r * 2.4]], cx, bottom, [1, 1], 'S');
+
+  doc.setFillColor(...color);
+  doc.ellipse(cx, cy, r, r * 1.2, 'F');
+  doc.triangle(cx, bottom - 0.5, cx - r * 0.2, bottom + r * 0.25, cx + r * 0.2, bottom + r * 0.25, 'F');
+  // Highlight
+  doc.setFillColor(255, 255, 255);
+  doc.ellipse(cx - r * 0.4, cy - r * 0.5, r * 0.18, r * 0.3, 'F');
+}
+
+function fir(doc: jsPDF, cx: number, bottom: number, size: number, color: Rgb) {
+  doc.setFillColor(120, 80, 40);
+  doc.rect(cx - size * 0.07, bottom - size * 0.12, size * 0.14, size * 0.12, 'F');
+  doc.setFillColor(...color);
+  for (let tier = 0; tier < 3; tier++) {
+    const tierBottom = bottom - size * (0.12 + tier * 0.24);
+    const half = size * (0.4 - tier * 0.1);
+    doc.triangle(cx - half, tierBottom, cx + half, tierBottom, cx, tierBottom - size * 0.4, 'F');
+  }
+  doc.setFillColor(...GOLD);
+  polygon(doc, star(cx, bottom - size * 0.98, size * 0.1), 'F');
+}
+
+function snowflake(doc: jsPDF, cx: number, cy: number, r: number, color: Rgb) {
+  doc.setDrawColor(...color);
+  doc.setLineWidth(0.5);
+  for (let i = 0; i < 3; i++) {
+    const angle = (i * Math.PI) / 3;
+    const dx = r * Math.cos(angle);
+    const dy = r * Math.sin(angle);
+    doc.line(cx - dx, cy - dy, cx + dx, cy + dy);
+  }
+}
+
+function flower(doc: jsPDF, cx: number, cy: number, r: number, color: Rgb) {
+  doc.setFillColor(...color);
+  for (let i = 0; i < 5; i++) {
+    const angle = -Math.PI / 2 + (i * 2 * Math.PI) / 5;
+    doc.circle(cx + r * 0.6 * Math.cos(angle), cy + r * 0.6 * Math.sin(angle), r * 0.45, 'F');
+  }
+  doc.setFillColor(...GOLD);
+  doc.circle(cx, cy, r * 0.35, 'F');
+}
+
+function egg(doc: jsPDF, cx: number, cy: number, r: number, color: Rgb, stripe: Rgb) {
+  const rx = r * 0.78;
+  doc.setFillColor(...color);
+  doc.ellipse(cx, cy, rx, r, 'F');
+
+  // Zigzag band across the middle
+  doc.setDrawColor(...stripe);
+  doc.setLineWidth(r * 0.12);
+  const steps = 6;
+  const segments: number[][] = [];
+  for (let i = 0; i < steps; i++) {
+    segments.push([(rx * 1.6) / steps, i % 2 ? -r * 0.2 : r * 0.2]);
+  }
+  doc.lines(segments, cx - rx * 0.8, cy, [1, 1], 'S');
+}
+
+function pencil(doc: jsPDF, x: number, y: number, length: number, thickness: number, color: Rgb) {
+  const tip = thickness * 1.6;
+  const eraser = thickness * 0.9;
+  doc.setFillColor(240, 150, 160);
+  doc.rect(x, y, eraser, thickness, 'F');
+  doc.setFillColor(180, 180, 180);
+  doc.rect(x + eraser, y, thickness * 0.4, thickness, 'F');
+  doc.setFillColor(...color);
+  doc.rect(x + eraser + thickness * 0.4, y, length - tip - eraser - thickness * 0.4, thickness, 'F');
+  // Sharpened wood and lead
+  doc.setFillColor(240, 210, 160);
+  doc.triangle(x + length - tip, y, x + length - tip, y + thickness, x + length, y + thickness / 2, 'F');
+  doc.setFillColor(60, 60, 60);
+  doc.triangle(
+    x + length - tip * 0.35, y + thickness * 0.5 - thickness * 0.18,
+    x + length - tip * 0.35, y + thickness * 0.5 + thickness * 0.18,
+    x + length, y + thickness / 2,
+    'F'
+  );
+}
+
+/** School cone ("Schultüte"), top centered at (cx, top) */
+function schultuete(doc: jsPDF, cx: number, top: number, size: number, color: Rgb, stripe: Rgb) {
+  const half = size * 0.3;
+  const coneTop = top + size * 0.18;
+  doc.setFillColor(...color);
+  doc.triangle(cx - half, coneTop, cx + half, coneTop, cx, top + size, 'F');
+
+  // Diagonal stripes, shortened to stay inside the cone
+  doc.setDrawColor(...stripe);
+  doc.setLineWidth(size * 0.04);
+  for (let i = 1; i <= 3; i++) {
+    const t = i / 4;
+    const y = coneTop + (top + size - coneTop) * t;
+    const w = half * (1 - t);
+    doc.line(cx - w * 0.8, y, cx + w * 0.8, y - size * 0.06);
+  }
+
+  // Tissue paper closing the top
+  doc.setFillColor(...WHITE);
+  doc.setDrawColor(...stripe);
+  doc.setLineWidth(0.3);
+  doc.triangle(cx - half, coneTop, cx + half, coneTop, cx, top, 'FD');
+  doc.setFillColor(...stripe);
+  doc.rect(cx - half * 1.05, coneTop - size * 0.02, half * 2.1, size * 0.05, 'F');
+}
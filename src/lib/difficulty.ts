@@ -0,0 +1,92 @@
+/**
+ * Age-based difficulty presets
+ * One preset drives every conversion knob so the browser and server
+ * pipelines produce the same page for the same choice.
+ */
+
+import { ColoringOptions, DEFAULT_COLORING_OPTIONS } from './coloringPage';
+import { DotToDotOptions, MAX_DOTS, MIN_DOTS } from './dotToDot';
+import { MAX_DIMENSION } from './imageUtils';
+import { PaintByNumbersOptions } from './paintByNumbers';
+
+export type Difficulty = 'kleinkind' | 'kind' | 'erwachsene';
+
+export interface DifficultyPreset {
+  label: string;
+  description: string;
+  /** Longest edge of the processed image in pixels */
+  maxDimension: number;
+  /** Line detail (blur, thresholds, contour length) and stroke weight */
+  coloring: ColoringOptions;
+  /** Number of colors, minimum region size and label size */
+  paintByNumbers: PaintByNumbersOptions;
+  /** Number of dots and label size */
+  dotToDot: DotToDotOptions;
+}
+
+export const DIFFICULTY_PRESETS: Record<Difficulty, DifficultyPreset> = {
+  kleinkind: {
+    label: 'Kleinkind',
+    description: 'Wenige, dicke Linien und große Flächen',
+    maxDimension: 600,
+    coloring: { blurSigma: 2.6, lowThreshold: 40, highThreshold: 90, minContourLength: 40, strokeWidth: 4 },
+    paintByNumbers: { numColors: 6, minRegionShare: 0.004, labelScale: 3 },
+    dotToDot: { dots: 20, labelScale: 4 },
+  },
+  kind: {
+    label: 'Kind',
+    description: 'Ausgewogene Details',
+    maxDimension: MAX_DIMENSION,
+    coloring: DEFAULT_COLORING_OPTIONS,
+    paintByNumbers: { numColors: 12, minRegionShare: 0.0004, labelScale: 2 },
+    dotToDot: { dots: 50, labelScale: 3 },
+  },
+  erwachsene: {
+    label: 'Erwachsene',
+    description: 'Feine Linien und viele Farben',
+    maxDimension: 1200,
+    coloring: { blurSigma: 1.0, lowThreshold: 18, highThreshold: 45, minContourLength: 10, strokeWidth: 2 },
+    paintByNumbers: { numColors: 20, minRegionShare: 0.0001, labelScale: 2 },
+    dotToDot: { dots: 120, labelScale: 2 },
+  },
+};
+
+export const DEFAULT_DIFFICULTY: Difficulty = 'kind';
+
+export function isDifficulty(value: unknown): value is Difficulty {
+  return typeof value === 'string' && value in DIFFICULTY_PRESETS;
+}
+
+/**
+ * Shift a preset towards less (detail < 0) or more (detail > 0) detail
+ * Used by the photo editor's detail slider; 0 returns the preset unchanged.
+ */
+export function adjustDetail(preset: DifficultyPreset, detail: number = 0): DifficultyPreset {
+  const d = Math.max(-1, Math.min(1, detail));
+  if (!d) return preset;
+
+  const coloring = { ...DEFAULT_COLORING_OPTIONS, ...preset.coloring };
+  const numColors = preset.paintByNumbers.numColors ?? 12;
+  const minRegionShare = preset.paintByNumbers.minRegionShare ?? 0.0004;
+  const dots = preset.dotToDot.dots ?? 50;
+
+  return {
+    ...preset,
+    coloring: {
+      ...coloring,
+      blurSigma: coloring.blurSigma * (1 - 0.3 * d),
+      lowThreshold: coloring.lowThreshold * (1 - 0.4 * d),
+      highThreshold: coloring.highThreshold * (1 - 0.4 * d),
+      minContourLength: Math.round(coloring.minContourLength * (1 - 0.5 * d)),
+    },
+    paintByNumbers: {
+      ...preset.paintByNumbers,
+      numColors: Math.max(2, Math.min(24, Math.round(numColors * (1 + 0.5 * d)))),
+      minRegionShare: minRegionShare * (1 - 0.6 * d),
+    },
+    dotToDot: {
+      ...preset.dotToDot,
+      dots: Math.max(MIN_DOTS, Math.min(MAX_DOTS, Math.round(dots * (1 + 0.5 * d)))),
+    },
+  };
+}
@@ -0,0 +1,815 @@
+/**
+ * Dot-to-dot pipeline on raw RGBA pixel data
+ * Edges → main subject outline → numbered dots along it → collision-free labels
+ *
+ * The outline is the largest enclosed edge shape near the middle of the
+ * photo, with an ellipse when none qualifies. Shared by the browser and
+ * server paths like the other conversions.
+ */
+
+import { dilate, edgesOfSmoothed, smoothedGray } from './coloringPage';
+import { drawNumber } from './paintByNumbers';
+import { VectorArt, VectorLabel } from './vectorTrace';
+
+export interface DotToDotOptions {
+  /** Dots along the outline (MIN_DOTS..MAX_DOTS, fewer on small outlines) */
+  dots?: number;
+  /** Pixel scale of the 3×5 digit font used for labels */
+  labelScale?: number;
+  /** Gaussian pre-blur; higher keeps only the strong outline */
+  blurSigma?: number;
+}
+
+export const DEFAULT_DOT_TO_DOT_OPTIONS: Required<DotToDotOptions> = {
+  dots: 50,
+  labelScale: 3,
+  blurSigma: 2.2,
+};
+
+export const MIN_DOTS = 20;
+export const MAX_DOTS = 150;
+
+type Point = [number, number];
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DotToDotResult {
+  width: number;
+  height: number;
+  /** Dots in drawing order; dot i is numbered i + 1, the last one joins the first */
+  dots: Point[];
+  /** Numbers beside their dots, clear of other numbers, dots and the outline */
+  labels: VectorLabel[];
+  dotRadius: number;
+  /** Dots and numbers, RGBA */
+  pixels: Uint8ClampedArray;
+  /** Connected outline, RGBA */
+  solution: Uint8ClampedArray;
+  labelScale: number;
+  /** False when no subject outline was found and the dots follow an ellipse */
+  traced: boolean;
+  /** Dots short of the requested count (the outline had no room for them) */
+  shortfall: number;
+}
+
+const LABEL_GRAY = 90;
+const LINE_GRAY = 60;
+
+/** Edge components tried as the subject, largest first */
+const MAX_CANDIDATES = 8;
+/** Subject area as a share of the image: below is a speck, above the whole frame */
+const MIN_SUBJECT_SHARE = 0.01;
+const MAX_SUBJECT_SHARE = 0.9;
+/** Shorter side of the subject's bounding box relative to the longer one */
+const MIN_SUBJECT_ASPECT = 0.15;
+/** Share of the requested dots worth shrinking the numbers for */
+const DOT_COUNT_TOLERANCE = 0.8;
+/** Outline fill-ins after numbers didn't fit */
+const MAX_LAYOUT_ATTEMPTS = 6;
+/** Canny thresholds tried for the subject, from clear outlines to faint ones */
+const EDGE_THRESHOLDS: [number, number][] = [[30, 70], [18, 45], [10, 25], [6, 15]];
+
+// Clockwise neighbours (y down), starting west
+const NEIGHBORS: Point[] = [[-1, 0], [-1, -1], [0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1]];
+
+/**
+ * Convert an RGBA image to a numbered dot-to-dot page and its solution
+ */
+export function dotToDot(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: DotToDotOptions = {}
+): DotToDotResult {
+  const opts = { ...DEFAULT_DOT_TO_DOT_OPTIONS, ...options };
+  const wanted = Math.max(MIN_DOTS, Math.min(MAX_DOTS, Math.round(opts.dots)));
+
+  const subject = subjectShape(data, width, height, opts.blurSigma);
+  const shape = subject || ellipseShape(width, height);
+  const outline = smoothClosed(traceBoundary(shape, width, height), 3);
+
+  // Smaller numbers rather than fewer dots: a page keeps at least MIN_DOTS
+  // and comes close to the requested count when the outline allows it
+  const enough = Math.max(MIN_DOTS, Math.round(wanted * DOT_COUNT_TOLERANCE));
+  let labelScale = Math.max(1, Math.round(opts.labelScale));
+  let layout = layoutDots(outline, shape, width, height, wanted, labelScale);
+  for (let scale = labelScale - 1; scale >= 1 && layout.dots.length < enough; scale--) {
+    const smaller = layoutDots(outline, shape, width, height, wanted, scale);
+    if (smaller.dots.length > layout.dots.length) {
+      layout = smaller;
+      labelScale = scale;
+    }
+  }
+  const { dots, labels, dotRadius } = layout;
+
+  const pixels = new Uint8ClampedArray(width * height * 4).fill(255);
+  for (const [x, y] of dots) fillCircle(pixels, width, height, x, y, dotRadius, 0);
+  labels.forEach(label => {
+    drawNumber(pixels, width, height, label.x, label.y, Number(label.text), labelScale, LABEL_GRAY);
+  });
+
+  const solution = new Uint8ClampedArray(width * height * 4).fill(255);
+  // Bold enough to read in the small solution thumbnail
+  const lineRadius = Math.max(1.5, dotRadius * 0.8);
+  dots.forEach((dot, i) => {
+    drawLine(solution, width, height, dot, dots[(i + 1) % dots.length], lineRadius, LINE_GRAY);
+  });
+  for (const [x, y] of dots) fillCircle(solution, width, height, x, y, dotRadius, 0);
+
+  return {
+    width,
+    height,
+    dots,
+    labels,
+    dotRadius,
+    pixels,
+    solution,
+    labelScale,
+    traced: !!subject,
+    shortfall: Math.max(0, wanted - dots.length),
+  };
+}
+
+/**
+ * Dots as vector circles, numbers as vector labels
+ */
+export function dotToDotVector(result: DotToDotResult): VectorArt {
+  return {
+    width: result.width,
+    height: result.height,
+    strokeWidth: 1,
+    paths: [],
+    labels: result.labels,
+    dots: result.dots.map(([x, y]) => ({ x, y, radius: result.dotRadius })),
+  };
+}
+
+/**
+ * Label box of a number centered on (x, y): 3×5 digits with one column of
+ * spacing, the same box as the vector font
+ */
+export function labelBox(label: VectorLabel): Rect {
+  const width = (label.text.length * 4 - 1) / 5 * label.size;
+  return { x: label.x - width / 2, y: label.y - label.size / 2, width, height: label.size };
+}
+
+/**
+ * Dots along the outline and their numbers for one label size
+ * Dots whose number fits nowhere are left out, which frees room for their
+ * neighbours, so no two numbers ever overlap; new dots then go into the
+ * longest open stretches to make up for them.
+ */
+function layoutDots(
+  outline: Point[],
+  shape: Uint8Array,
+  width: number,
+  height: number,
+  wanted: number,
+  labelScale: number
+): { dots: Point[]; labels: VectorLabel[]; dotRadius: number } {
+  const labelSize = 5 * labelScale;
+  const dotRadius = Math.max(1.5, labelScale * 1.2);
+  // Dots closer than about a label apart would crowd their numbers
+  const count = Math.min(wanted, Math.max(MIN_DOTS, Math.floor(perimeter(outline) / (labelSize * 1.2))));
+
+  let best: { dots: Point[]; labels: VectorLabel[]; dotRadius: number } | null = null;
+  let dots = startAtTop(clockwise(dropCrowded(pickDots(outline, count), labelSize * 0.8)));
+  for (let attempt = 0; attempt < MAX_LAYOUT_ATTEMPTS; attempt++) {
+    let labels: VectorLabel[];
+    for (;;) {
+      const placement = placeLabels(dots, shape, width, height, labelSize, dotRadius);
+      labels = placement.labels;
+      if (!placement.unplaced.length || dots.length - placement.unplaced.length < 3) break;
+      dots = startAtTop(dots.filter((_, i) => !placement.unplaced.includes(i)));
+    }
+
+    if (!best || dots.length > best.dots.length) best = { dots, labels, dotRadius };
+    if (dots.length >= count) break;
+    const filled = fillGaps(outline, dots, count, labelSize * 2.4);
+    if (filled.length === dots.length) break;
+    dots = startAtTop(clockwise(filled));
+  }
+  return best!;
+}
+
+/**
+ * Filled shape of the main subject, 1 = inside; null when the photo has no
+ * usable outline
+ * Edge components are scored by the area they enclose, weighted towards the
+ * middle: a long edge such as a horizon encloses nothing and loses to any
+ * closed outline. Thin strips (edges touching the subject) are opened away,
+ * and slivers or near-full-frame shapes don't count. Edges are found at
+ * several thresholds, so a faint subject (a pale sun on a pale sky) still
+ * closes up; the best shape over all of them wins.
+ */
+function subjectShape(data: Uint8ClampedArray, width: number, height: number, blurSigma: number): Uint8Array | null {
+  // Close small gaps so the subject's edges form one enclosing component
+  const gap = Math.max(3, Math.round(Math.max(width, height) * 0.012));
+  const minArea = width * height * MIN_SUBJECT_SHARE;
+  // No outline shorter than a circle of the smallest subject encloses it
+  const minCount = 2 * Math.sqrt(Math.PI * minArea);
+  const maxDistance = Math.hypot(width / 2, height / 2);
+
+  let best: Uint8Array | null = null, bestScore = 0;
+  // A component found again at a lower threshold gives the same shape
+  const tried = new Set<string>();
+  const smoothed = smoothedGray(data, width, height, blurSigma);
+  for (const [lowThreshold, highThreshold] of EDGE_THRESHOLDS) {
+    const edges = edgesOfSmoothed(smoothed, width, height, { lowThreshold, highThreshold, minContourLength: 30 });
+    const { ids, components } = edgeComponents(dilate(edges, width, height, gap), width, height);
+    const candidates = components
+      .filter(({ start, count }) => count >= minCount && !tried.has(`${start}:${count}`))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, MAX_CANDIDATES);
+
+    for (const { id, start, count, touchesBorder } of candidates) {
+      tried.add(`${start}:${count}`);
+      const component = new Uint8Array(width * height);
+      for (let p = 0; p < ids.length; p++) component[p] = ids[p] === id ? 1 : 0;
+      const shape = largestRegion(openShape(fillEnclosed(component, width, height), width, height, gap + 2), width, height);
+      if (!shape) continue;
+
+      const { area, centerX, centerY, boxWidth, boxHeight } = shapeStats(shape, width, height);
+      if (area < minArea || area > width * height * MAX_SUBJECT_SHARE
+        || Math.min(boxWidth, boxHeight) < Math.max(boxWidth, boxHeight) * MIN_SUBJECT_ASPECT) {
+        continue;
+      }
+      const offCenter = Math.hypot(centerX - width / 2, centerY - height / 2) / maxDistance;
+      const score = area * (1 - 0.6 * offCenter) * (touchesBorder ? 0.5 : 1);
+      if (score > bestScore) {
+        bestScore = score;
+        best = shape;
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * 8-connected components of the mask: per-pixel ids (0 = none) and sizes
+ */
+function edgeComponents(
+  mask: Uint8Array,
+  width: number,
+  height: number
+): { ids: Int32Array; components: { id: number; start: number; count: number; touchesBorder: boolean }[] } {
+  const ids = new Int32Array(width * height);
+  const components: { id: number; start: number; count: number; touchesBorder: boolean }[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || ids[start]) continue;
+    const component = { id: components.length + 1, start, count: 0, touchesBorder: false };
+    components.push(component);
+    ids[start] = component.id;
+    stack.push(start);
+
+    while (stack.length) {
+      const p = stack.pop()!;
+      const x = p % width;
+      const y = (p - x) / width;
+      component.count++;
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) component.touchesBorder = true;
+      for (const [dx, dy] of NEIGHBORS) {
+        const nx = x + dx, ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        const q = ny * width + nx;
+        if (mask[q] && !ids[q]) {
+          ids[q] = component.id;
+          stack.push(q);
+        }
+      }
+    }
+  }
+  return { ids, components };
+}
+
+/**
+ * The component plus everything it encloses (not reachable from the border)
+ */
+function fillEnclosed(component: Uint8Array, width: number, height: number): Uint8Array {
+  const outside = new Uint8Array(width * height);
+  const stack: number[] = [];
+  const visit = (p: number) => {
+    if (!component[p] && !outside[p]) {
+      outside[p] = 1;
+      stack.push(p);
+    }
+  };
+  for (let x = 0; x < width; x++) {
+    visit(x);
+    visit((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    visit(y * width);
+    visit(y * width + width - 1);
+  }
+
+  while (stack.length) {
+    const p = stack.pop()!;
+    const x = p % width;
+    if (x > 0) visit(p - 1);
+    if (x < width - 1) visit(p + 1);
+    if (p >= width) visit(p - width);
+    if (p < width * (height - 1)) visit(p + width);
+  }
+
+  const shape = new Uint8Array(width * height);
+  for (let p = 0; p < shape.length; p++) shape[p] = outside[p] ? 0 : 1;
+  return shape;
+}
+
+/**
+ * Morphological opening with a size × size square: removes strips thinner
+ * than `size`, e.g. an edge line that touches the subject
+ */
+function openShape(shape: Uint8Array, width: number, height: number, size: number): Uint8Array {
+  const background = new Uint8Array(shape.length);
+  for (let p = 0; p < shape.length; p++) background[p] = shape[p] ? 0 : 1;
+  const grown = growSquare(background, width, height, size);
+  const eroded = new Uint8Array(shape.length);
+  for (let p = 0; p < shape.length; p++) eroded[p] = grown[p] ? 0 : 1;
+  return growSquare(eroded, width, height, size);
+}
+
+/**
+ * Same result as dilate() with a size × size square, in time independent of
+ * the size: rows, then columns, with a running count over the window
+ */
+function growSquare(mask: Uint8Array, width: number, height: number, size: number): Uint8Array {
+  const before = Math.floor((size - 1) / 2);
+  const after = Math.ceil((size - 1) / 2);
+  const pass = (src: Uint8Array, lines: number, length: number, index: (line: number, pos: number) => number) => {
+    const out = new Uint8Array(src.length);
+    for (let line = 0; line < lines; line++) {
+      let count = 0;
+      for (let pos = 0; pos < Math.min(before, length); pos++) count += src[index(line, pos)];
+      for (let pos = 0; pos < length; pos++) {
+        if (pos + before < length) count += src[index(line, pos + before)];
+        if (pos - after - 1 >= 0) count -= src[index(line, pos - after - 1)];
+        out[index(line, pos)] = count > 0 ? 1 : 0;
+      }
+    }
+    return out;
+  };
+  const rows = pass(mask, height, width, (y, x) => y * width + x);
+  return pass(rows, width, height, (x, y) => y * width + x);
+}
+
+/**
+ * Largest 4-connected region of the shape; null when the shape is empty
+ */
+function largestRegion(shape: Uint8Array, width: number, height: number): Uint8Array | null {
+  const ids = new Int32Array(shape.length);
+  const stack: number[] = [];
+  let bestId = 0, bestCount = 0, nextId = 0;
+
+  for (let start = 0; start < shape.length; start++) {
+    if (!shape[start] || ids[start]) continue;
+    const id = ++nextId;
+    let count = 0;
+    ids[start] = id;
+    stack.push(start);
+    while (stack.length) {
+      const p = stack.pop()!;
+      const x = p % width;
+      count++;
+      for (const q of [x > 0 ? p - 1 : -1, x < width - 1 ? p + 1 : -1, p - width, p + width]) {
+        if (q >= 0 && q < shape.length && shape[q] && !ids[q]) {
+          ids[q] = id;
+          stack.push(q);
+        }
+      }
+    }
+    if (count > bestCount) {
+      bestCount = count;
+      bestId = id;
+    }
+  }
+
+  if (!bestId) return null;
+  const region = new Uint8Array(shape.length);
+  for (let p = 0; p < ids.length; p++) region[p] = ids[p] === bestId ? 1 : 0;
+  return region;
+}
+
+/**
+ * Area, centroid and bounding box size of a shape
+ */
+function shapeStats(shape: Uint8Array, width: number, height: number) {
+  let area = 0, sumX = 0, sumY = 0;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let p = 0; p < shape.length; p++) {
+    if (!shape[p]) continue;
+    const x = p % width;
+    const y = (p - x) / width;
+    area++;
+    sumX += x;
+    sumY += y;
+    minX = Math.min(minX, x);
+    maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y);
+    maxY = Math.max(maxY, y);
+  }
+  return {
+    area,
+    centerX: area ? sumX / area : width / 2,
+    centerY: area ? sumY / area : height / 2,
+    boxWidth: maxX - minX + 1,
+    boxHeight: maxY - minY + 1,
+  };
+}
+
+/**
+ * Centered ellipse, the fallback outline for photos without usable edges
+ */
+function ellipseShape(width: number, height: number): Uint8Array {
+  const shape = new Uint8Array(width * height);
+  const rx = width * 0.35, ry = height * 0.35;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const dx = (x - width / 2) / rx, dy = (y - height / 2) / ry;
+      shape[y * width + x] = dx * dx + dy * dy <= 1 ? 1 : 0;
+    }
+  }
+  return shape;
+}
+
+/**
+ * Outer boundary of the shape as a closed pixel chain (Moore neighbour tracing)
+ */
+function traceBoundary(shape: Uint8Array, width: number, height: number): Point[] {
+  const inside = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height && shape[y * width + x] === 1;
+
+  const first = shape.indexOf(1);
+  const startX = first % width;
+  const startY = (first - startX) / width;
+  const contour: Point[] = [[startX, startY]];
+  // The first pixel in raster order has nothing to its west
+  let back = 0;
+  let x = startX, y = startY;
+
+  for (let step = 0; step < width * height * 2; step++) {
+    let found = -1;
+    for (let k = 1; k <= 8; k++) {
+      const d = (back + k) % 8;
+      if (inside(x + NEIGHBORS[d][0], y + NEIGHBORS[d][1])) {
+        found = d;
+        break;
+      }
+    }
+    if (found < 0) break;
+
+    x += NEIGHBORS[found][0];
+    y += NEIGHBORS[found][1];
+    if (x === startX && y === startY) break;
+    contour.push([x, y]);
+    // Last empty neighbour checked, seen from the new pixel
+    back = (found + (found % 2 ? 5 : 6)) % 8;
+  }
+  return contour;
+}
+
+/**
+ * Circular moving average over 2 * radius + 1 points
+ */
+function smoothClosed(points: Point[], radius: number): Point[] {
+  const n = points.length;
+  if (n < 2 * radius + 1) return points;
+  return points.map((_, i) => {
+    let sx = 0, sy = 0;
+    for (let k = -radius; k <= radius; k++) {
+      const [x, y] = points[(i + k + n) % n];
+      sx += x;
+      sy += y;
+    }
+    return [sx / (2 * radius + 1), sy / (2 * radius + 1)] as Point;
+  });
+}
+
+function perimeter(points: Point[]): number {
+  let length = 0;
+  points.forEach((point, i) => {
+    length += distance(point, points[(i + 1) % points.length]);
+  });
+  return length;
+}
+
+/**
+ * Thin the outline to `count` dots
+ * Corners come first (Douglas-Peucker down to ~60% of the dots), the rest
+ * split the longest stretches, so curves get more dots than straight runs.
+ */
+function pickDots(points: Point[], count: number): Point[] {
+  const n = points.length;
+  if (n <= count) return points.slice();
+
+  const arc = arcLengths(points);
+  const total = arc[n];
+
+  let low = 0.5, high = total / 4;
+  let chosen = simplifyClosed(points, high);
+  for (let iteration = 0; iteration < 20; iteration++) {
+    const tolerance = (low + high) / 2;
+    const corners = simplifyClosed(points, tolerance);
+    if (corners.length <= count * 0.6) {
+      chosen = corners;
+      high = tolerance;
+    } else {
+      low = tolerance;
+    }
+  }
+
+  return splitStretches(points, arc, chosen, count, 0).map(i => points[i]);
+}
+
+/**
+ * Add dots in the middle of the longest open stretches of the outline, up to
+ * `count`, where a stretch is at least `minStretch` long
+ */
+function fillGaps(outline: Point[], dots: Point[], count: number, minStretch: number): Point[] {
+  // The dots are outline points themselves
+  const index = new Map<Point, number>();
+  outline.forEach((point, i) => index.set(point, i));
+  const chosen = dots.map(dot => index.get(dot)!).sort((a, b) => a - b);
+  return splitStretches(outline, arcLengths(outline), chosen, count, minStretch).map(i => outline[i]);
+}
+
+function arcLengths(points: Point[]): Float64Array {
+  const n = points.length;
+  const arc = new Float64Array(n + 1);
+  for (let i = 1; i <= n; i++) arc[i] = arc[i - 1] + distance(points[i - 1], points[i % n]);
+  return arc;
+}
+
+/**
+ * Split the longest stretches between chosen point indices (kept in outline
+ * order, possibly wrapping past the end) until there are `count`
+ */
+function splitStretches(points: Point[], arc: Float64Array, indices: number[], count: number, minStretch: number): number[] {
+  const chosen = indices.slice();
+  const n = points.length;
+  const total = arc[n];
+  const stretch = (a: number, b: number) => (b > a ? arc[b] - arc[a] : total - arc[a] + arc[b]);
+  const gapAfter = (i: number) => stretch(chosen[i], chosen[(i + 1) % chosen.length]);
+  while (chosen.length < count) {
+    let longest = 0;
+    for (let i = 1; i < chosen.length; i++) {
+      if (gapAfter(i) > gapAfter(longest)) longest = i;
+    }
+    if (gapAfter(longest) < minStretch) break;
+    const from = chosen[longest];
+    const target = gapAfter(longest) / 2;
+    let middle = from;
+    while (stretch(from, (middle + 1) % n) < target) middle = (middle + 1) % n;
+    if (middle === from) break;
+    chosen.splice(longest + 1, 0, middle);
+  }
+  return chosen;
+}
+
+/**
+ * Drop dots closer than minGap to the previous one (sharp corners found twice)
+ */
+function dropCrowded(dots: Point[], minGap: number): Point[] {
+  const kept: Point[] = [];
+  for (const dot of dots) {
+    if (!kept.length || distance(kept[kept.length - 1], dot) >= minGap) kept.push(dot);
+  }
+  while (kept.length > 3 && distance(kept[kept.length - 1], kept[0]) < minGap) kept.pop();
+  return kept;
+}
+
+/**
+ * Douglas-Peucker on a closed chain; returns the kept indices in order
+ */
+function simplifyClosed(points: Point[], tolerance: number): number[] {
+  const n = points.length;
+  let far = 0, farDistance = -1;
+  points.forEach((point, i) => {
+    const d = distance(points[0], point);
+    if (d > farDistance) {
+      farDistance = d;
+      far = i;
+    }
+  });
+
+  const keep = new Uint8Array(n);
+  keep[0] = 1;
+  keep[far] = 1;
+  // Index n stands for point 0 closing the loop
+  const stack: [number, number][] = [[0, far], [far, n]];
+  while (stack.length) {
+    const [first, last] = stack.pop()!;
+    let worst = -1, worstDistance = tolerance;
+    for (let i = first + 1; i < last; i++) {
+      const d = segmentDistance(points[i], points[first], points[last % n]);
+      if (d > worstDistance) {
+        worstDistance = d;
+        worst = i;
+      }
+    }
+    if (worst < 0) continue;
+    keep[worst] = 1;
+    stack.push([first, worst], [worst, last]);
+  }
+
+  const indices: number[] = [];
+  keep.forEach((kept, i) => {
+    if (kept) indices.push(i);
+  });
+  return indices;
+}
+
+/**
+ * Clockwise on the page (positive shoelace area with y pointing down)
+ */
+function clockwise(dots: Point[]): Point[] {
+  let area = 0;
+  dots.forEach(([x1, y1], i) => {
+    const [x2, y2] = dots[(i + 1) % dots.length];
+    area += x1 * y2 - x2 * y1;
+  });
+  return area < 0 ? dots.slice().reverse() : dots;
+}
+
+/**
+ * Rotate so dot 1 is the topmost one
+ */
+function startAtTop(dots: Point[]): Point[] {
+  let top = 0;
+  dots.forEach(([x, y], i) => {
+    if (y < dots[top][1] || (y === dots[top][1] && x < dots[top][0])) top = i;
+  });
+  return [...dots.slice(top), ...dots.slice(0, top)];
+}
+
+/**
+ * Put each number beside its dot where it overlaps nothing
+ * Candidates start outside the shape (along the outline's normal) and turn
+ * towards the inside, on rings moving outward. Dots without a clear spot
+ * get the candidate with the fewest collisions and are listed in `unplaced`.
+ */
+function placeLabels(
+  dots: Point[],
+  shape: Uint8Array,
+  width: number,
+  height: number,
+  size: number,
+  dotRadius: number
+): { labels: VectorLabel[]; unplaced: number[] } {
+  const gap = size * 0.3;
+  const placed: Rect[] = [];
+  const labels: VectorLabel[] = [];
+  const unplaced: number[] = [];
+  const n = dots.length;
+  const isInside = ([x, y]: Point) => {
+    const px = Math.round(x), py = Math.round(y);
+    return px >= 0 && py >= 0 && px < width && py < height && shape[py * width + px] === 1;
+  };
+
+  dots.forEach((dot, i) => {
+    const text = String(i + 1);
+    const boxWidth = labelBox({ x: 0, y: 0, text, size }).width;
+    const prev = dots[(i - 1 + n) % n], next = dots[(i + 1) % n];
+    const tx = next[0] - prev[0], ty = next[1] - prev[1];
+    const length = Math.hypot(tx, ty) || 1;
+    let angle = Math.atan2(tx / length, -ty / length);
+    const probe: Point = [dot[0] + Math.cos(angle) * size, dot[1] + Math.sin(angle) * size];
+    if (isInside(probe)) angle += Math.PI;
+
+    let best: Rect | null = null, bestHits = Infinity;
+    // Farther out the number would read as a neighbour's
+    for (const ring of [1, 1.6, 2.2]) {
+      for (const turn of [0, 1, -1, 2, -2, 3, -3, 4]) {
+        const a = angle + turn * Math.PI / 4;
+        const cos = Math.cos(a), sin = Math.sin(a);
+        const reach = (dotRadius + gap + Math.abs(cos) * boxWidth / 2 + Math.abs(sin) * size / 2) * ring;
+        const box: Rect = {
+          x: dot[0] + cos * reach - boxWidth / 2,
+          y: dot[1] + sin * reach - size / 2,
+          width: boxWidth,
+          height: size,
+        };
+        const hits = collisions(box, dots, placed, dotRadius + gap / 2, size * 0.5, width, height);
+        if (hits < bestHits) {
+          best = box;
+          bestHits = hits;
+        }
+        if (!hits) break;
+      }
+      if (!bestHits) break;
+    }
+
+    if (bestHits) unplaced.push(i);
+    placed.push(best!);
+    labels.push({ x: best!.x + best!.width / 2, y: best!.y + best!.height / 2, text, size });
+  });
+  return { labels, unplaced };
+}
+
+/**
+ * Number of things a label box would cover: other labels (closer than
+ * `spacing`, so neighbouring numbers don't run together), dots within
+ * `clearance`, outline segments; leaving the image counts as many
+ */
+function collisions(
+  box: Rect,
+  dots: Point[],
+  placed: Rect[],
+  clearance: number,
+  spacing: number,
+  width: number,
+  height: number
+): number {
+  if (box.x < 0 || box.y < 0 || box.x + box.width > width || box.y + box.height > height) return 1000;
+
+  let hits = 0;
+  for (const other of placed) {
+    if (box.x < other.x + other.width + spacing && other.x < box.x + box.width + spacing
+      && box.y < other.y + other.height + spacing && other.y < box.y + box.height + spacing) {
+      hits += 10;
+    }
+  }
+  const padded = { x: box.x - clearance, y: box.y - clearance, width: box.width + 2 * clearance, height: box.height + 2 * clearance };
+  dots.forEach((dot, i) => {
+    if (dot[0] >= padded.x && dot[0] <= padded.x + padded.width
+      && dot[1] >= padded.y && dot[1] <= padded.y + padded.height) {
+      hits += 3;
+    }
+    if (segmentHitsRect(dot, dots[(i + 1) % dots.length], box)) hits++;
+  });
+  return hits;
+}
+
+/**
+ * Liang-Barsky: does the segment cross the rectangle?
+ */
+function segmentHitsRect([x1, y1]: Point, [x2, y2]: Point, rect: Rect): boolean {
+  const dx = x2 - x1, dy = y2 - y1;
+  const clips: [number, number][] = [
+    [-dx, x1 - rect.x],
+    [dx, rect.x + rect.width - x1],
+    [-dy, y1 - rect.y],
+    [dy, rect.y + rect.height - y1],
+  ];
+  let t0 = 0, t1 = 1;
+  for (const [p, q] of clips) {
+    if (p === 0) {
+      if (q < 0) return false;
+      continue;
+    }
+    const r = q / p;
+    if (p < 0) {
+      if (r > t1) return false;
+      if (r > t0) t0 = r;
+    } else {
+      if (r < t0) return false;
+      if (r < t1) t1 = r;
+    }
+  }
+  return true;
+}
+
+function distance([x1, y1]: Point, [x2, y2]: Point): number {
+  return Math.hypot(x2 - x1, y2 - y1);
+}
+
+/**
+ * Distance from a point to a segment
+ */
+function segmentDistance([px, py]: Point, [x1, y1]: Point, [x2, y2]: Point): number {
+  const dx = x2 - x1, dy = y2 - y1;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared ? Math.max(0, Math.min(1, ((px - x1) * dx + (py - y1) * dy) / lengthSquared)) : 0;
+  return Math.hypot(px - x1 - t * dx, py - y1 - t * dy);
+}
+
+function fillCircle(pixels: Uint8ClampedArray, width: number, height: number, cx: number, cy: number, radius: number, gray: number): void {
+  for (let y = Math.max(0, Math.floor(cy - radius)); y <= Math.min(height - 1, Math.ceil(cy + radius)); y++) {
+    for (let x = Math.max(0, Math.floor(cx - radius)); x <= Math.min(width - 1, Math.ceil(cx + radius)); x++) {
+      if ((x - cx) * (x - cx) + (y - cy) * (y - cy) > radius * radius) continue;
+      const idx = (y * width + x) * 4;
+      pixels[idx] = gray;
+      pixels[idx + 1] = gray;
+      pixels[idx + 2] = gray;
+    }
+  }
+}
+
+/**
+ * Round-capped line, stamped as circles every half pixel
+ */
+function drawLine(pixels: Uint8ClampedArray, width: number, height: number, from: Point, to: Point, radius: number, gray: number): void {
+  const steps = Math.max(1, Math.ceil(distance(from, to) * 2));
+  for (let s = 0; s <= steps; s++) {
+    const t = s / steps;
+    fillCircle(pixels, width, height, from[0] + (to[0] - from[0]) * t, from[1] + (to[1] - from[1]) * t, radius, gray);
+  }
+}
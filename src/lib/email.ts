@@ -0,0 +1,173 @@
+/**
+ * Email delivery of finished books over SMTP
+ * The PDF goes out as an attachment, or as a download link when it is too
+ * large for mailboxes. Failed sends are retried with backoff; the outcome is
+ * recorded on the job or order so the page can report it.
+ *
+ * Environment:
+ *   SMTP_HOST             enables email; e.g. localhost for a local catch-all (Mailpit, MailHog)
+ *   SMTP_PORT             default 587 (465 implies TLS)
+ *   SMTP_SECURE           'true' for TLS from the start; otherwise STARTTLS when offered
+ *   SMTP_USER, SMTP_PASS  optional login
+ *   MAIL_FROM             sender, default "Malbuch <malbuch@localhost>"
+ *   MAIL_MAX_ATTACHMENT_MB  larger books are sent as a link (default 10)
+ *   PUBLIC_URL            base of download links, e.g. https://malbuch.app (default: request origin)
+ */
+
+import nodemailer, { Transporter } from 'nodemailer';
+import { Locale, t } from './i18n';
+
+export type EmailStatus = 'sending' | 'sent' | 'failed';
+
+export interface EmailDelivery {
+  to: string;
+  status: EmailStatus;
+  /** Send attempts so far */
+  attempts: number;
+  /** The PDF was attached (otherwise the mail carries the download link) */
+  attached?: boolean;
+  sentAt?: string;
+  error?: string;
+}
+
+export interface BookEmail {
+  to: string;
+  name: string;
+  locale: Locale;
+  pdf: Buffer;
+  /** Absolute link to the PDF; used when the PDF is too large to attach */
+  downloadUrl?: string;
+}
+
+/** Attempts per email, with 2s, 4s, ... between them */
+const MAX_ATTEMPTS = 4;
+const RETRY_DELAY_MS = 2000;
+
+const DEFAULT_MAX_ATTACHMENT_MB = 10;
+
+// Pragmatic check; the SMTP server has the final word
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const MAX_EMAIL_LENGTH = 254;
+
+let transport: Transporter | null = null;
+
+export function emailEnabled(): boolean {
+  return Boolean(process.env.SMTP_HOST);
+}
+
+export function isEmailAddress(value: string): boolean {
+  return value.length <= MAX_EMAIL_LENGTH && EMAIL_PATTERN.test(value);
+}
+
+export function getTransport(): Transporter {
+  if (!transport) {
+    const host = process.env.SMTP_HOST;
+    if (!host) throw new Error('SMTP_HOST is not configured');
+
+    const port = Number(process.env.SMTP_PORT) || 587;
+    transport = nodemailer.createTransport({
+      host,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS || '' }
+        : undefined,
+    });
+  }
+  return transport;
+}
+
+/**
+ * Base URL for links in emails; PUBLIC_URL wins over the request's origin
+ */
+export function publicBaseUrl(origin?: string): string | undefined {
+  return (process.env.PUBLIC_URL || origin)?.replace(/\/+$/, '');
+}
+
+function maxAttachmentBytes(): number {
+  return (Number(process.env.MAIL_MAX_ATTACHMENT_MB) || DEFAULT_MAX_ATTACHMENT_MB) * 1024 * 1024;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Subject, text and HTML body of a book email in the book's language
+ */
+export function renderBookEmail(name: string, locale: Locale, downloadUrl?: string) {
+  const paragraphs = [
+    t(locale, 'email.greeting'),
+    t(locale, downloadUrl ? 'email.bodyLink' : 'email.bodyAttached', { name }),
+    ...(downloadUrl ? [downloadUrl] : []),
+    t(locale, 'email.printTip'),
+    t(locale, 'email.signature'),
+  ];
+
+  return {
+    subject: t(locale, 'email.subject', { name }),
+    text: paragraphs.join('\n\n'),
+    html: paragraphs
+      .map(p => (p === downloadUrl
+        ? `<p><a href="${escapeHtml(p)}">${escapeHtml(t(locale, 'email.downloadButton'))}</a></p>`
+        : `<p>${escapeHtml(p).replace(/\n/g, '<br>')}</p>`))
+      .join('\n'),
+  };
+}
+
+/**
+ * Send a finished book, retrying failed attempts; never throws
+ * `onAttempt` sees the delivery state before each retry (to persist progress).
+ */
+export async function sendBookEmail(
+  email: BookEmail,
+  onAttempt?: (delivery: EmailDelivery) => void | Promise<void>
+): Promise<EmailDelivery> {
+  const delivery: EmailDelivery = { to: email.to, status: 'sending', attempts: 0 };
+
+  if (!emailEnabled()) {
+    return { ...delivery, status: 'failed', error: 'SMTP_HOST is not configured' };
+  }
+
+  const attach = email.pdf.length <= maxAttachmentBytes();
+  if (!attach && !email.downloadUrl) {
+    return { ...delivery, status: 'failed', error: `PDF too large to attach (${email.pdf.length} bytes) and no download link` };
+  }
+
+  const { subject, text, html } = renderBookEmail(email.name, email.locale, attach ? undefined : email.downloadUrl);
+  const safeName = email.name.replace(/[^a-zA-Z0-9]/g, '_') || 'Malbuch';
+
+  for (;;) {
+    delivery.attempts++;
+    try {
+      await getTransport().sendMail({
+        from: process.env.MAIL_FROM || 'Malbuch <malbuch@localhost>',
+        to: email.to,
+        subject,
+        text,
+        html,
+        attachments: attach
+          ? [{ filename: `${safeName}_Malbuch.pdf`, content: email.pdf, contentType: 'application/pdf' }]
+          : [],
+      });
+      return { ...delivery, status: 'sent', attached: attach, sentAt: new Date().toISOString(), error: undefined };
+    } catch (error) {
+      delivery.error = error instanceof Error ? error.message : String(error);
+      // 5xx replies (unknown mailbox, rejected content) won't change on retry
+      const permanent = typeof (error as { responseCode?: number }).responseCode === 'number'
+        && (error as { responseCode: number }).responseCode >= 500;
+      console.warn(`Email to ${email.to} failed (attempt ${delivery.attempts}): ${delivery.error}`);
+
+      if (permanent || delivery.attempts >= MAX_ATTEMPTS) {
+        return { ...delivery, status: 'failed' };
+      }
+      await onAttempt?.({ ...delivery });
+      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * 2 ** (delivery.attempts - 1)));
+    }
+  }
+}
@@ -0,0 +1,350 @@
+/**
+ * Etsy order fulfillment from the shop's CSV export
+ * Sold order items CSV → one book per order (buyer, book type, personalization)
+ * → photos from a folder or zip named by order number → PDF per order + report.
+ *
+ * Works on files only; no Etsy API access needed. Used by scripts/etsy-import.ts.
+ */
+
+import { readdir, readFile, stat, writeFile, mkdir } from 'fs/promises';
+import path from 'path';
+import AdmZip from 'adm-zip';
+import { buildBook, BookRequest, BookType, MAX_DEDICATION_LENGTH, MAX_NAME_LENGTH, MAX_PHOTOS } from './bookBuilder';
+import { COVER_THEMES, DEFAULT_COVER_THEME, CoverTheme } from './coverThemes';
+import { DEFAULT_DIFFICULTY, Difficulty } from './difficulty';
+import { DEFAULT_LOCALE, Locale } from './i18n';
+import { PaperSize } from './pageLayout';
+
+export interface EtsyOrder {
+  orderId: string;
+  /** Buyer as given in the export (ship-to name, else buyer) */
+  buyer: string;
+  /** Name printed on the book: the personalization's first line, else the buyer's first name */
+  name: string;
+  bookType: BookType;
+  theme: CoverTheme;
+  /** Further personalization lines */
+  dedication?: string;
+  /** Raw personalization text */
+  personalization: string;
+  /** Item names of the order (for the report) */
+  items: string[];
+  /** Ordered items the book leaves out (for the report) */
+  warnings: string[];
+}
+
+export interface FulfillmentOptions {
+  /** Folder with one subfolder or zip per order, named by order number */
+  photosDir: string;
+  outDir: string;
+  difficulty?: Difficulty;
+  paperSize?: PaperSize;
+  locale?: Locale;
+  vectorOutput?: boolean;
+}
+
+export interface FulfillmentResult {
+  orderId: string;
+  name: string;
+  status: 'ok' | 'failed';
+  photos: number;
+  file?: string;
+  error?: string;
+  warnings?: string[];
+}
+
+export interface FulfillmentReport {
+  createdAt: string;
+  ok: number;
+  failed: number;
+  /** Orders built without everything that was ordered */
+  withWarnings: number;
+  results: FulfillmentResult[];
+}
+
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp'];
+
+/** Header names of the columns we read; Etsy exports English headers, older or localized ones vary */
+const COLUMNS = {
+  orderId: ['order id', 'bestellnummer', 'bestell-id'],
+  itemName: ['item name', 'artikelname', 'artikel'],
+  shipName: ['ship name', 'full name', 'lieferung name', 'name'],
+  buyer: ['buyer', 'käufer'],
+  variations: ['variations', 'variationen'],
+  personalization: ['personalization', 'personalisation', 'personalisierung'],
+};
+
+/** Variation names that carry the personalization text */
+const PERSONALIZATION_VARIATIONS = ['personalization', 'personalisation', 'personalisierung'];
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, doubled quotes, line breaks in quotes)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  // Etsy's export starts with a byte order mark
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+/**
+ * Split Etsy's "Variations" cell ("Buchtyp:Malen nach Zahlen,Personalisierung:Emma")
+ * A comma starts a new variation only when a "Name:" follows it.
+ */
+export function parseVariations(cell: string): Record<string, string> {
+  const variations: Record<string, string> = {};
+  let current: string | null = null;
+  for (const part of cell.split(',')) {
+    const colon = part.indexOf(':');
+    if (colon > 0 && colon < 40) {
+      current = part.slice(0, colon).trim().toLowerCase();
+      variations[current] = part.slice(colon + 1).trim();
+    } else if (current) {
+      variations[current] += `,${part}`;
+    }
+  }
+  return variations;
+}
+
+function bookTypeOf(text: string): BookType | null {
+  const lower = text.toLowerCase();
+  if (/beides|both|\balle\b|kombi/.test(lower)) return 'both';
+  // Before "zahlen": "Punkte nach Zahlen verbinden"
+  if (/punkt|dot.to.dot|connect the dots/.test(lower)) return 'dot-to-dot';
+  if (/zahlen|number/.test(lower)) return 'paint-by-numbers';
+  if (/ausmal|coloring|colouring/.test(lower)) return 'coloring';
+  return null;
+}
+
+function themeOf(text: string): CoverTheme | null {
+  const lower = text.toLowerCase();
+  const theme = (Object.keys(COVER_THEMES) as CoverTheme[])
+    .find(key => key !== DEFAULT_COVER_THEME && lower.includes(key));
+  return theme || null;
+}
+
+/**
+ * Group the rows of a sold order items export into one book per order
+ */
+export function parseEtsyOrders(csv: string): EtsyOrder[] {
+  const [header, ...rows] = parseCsv(csv);
+  if (!header) return [];
+
+  const columns = header.map(h => h.trim().toLowerCase());
+  const column = (names: string[]) => columns.findIndex(c => names.includes(c));
+  const index = {
+    orderId: column(COLUMNS.orderId),
+    itemName: column(COLUMNS.itemName),
+    shipName: column(COLUMNS.shipName),
+    buyer: column(COLUMNS.buyer),
+    variations: column(COLUMNS.variations),
+    personalization: column(COLUMNS.personalization),
+  };
+  if (index.orderId < 0) {
+    throw new Error(`No order id column found (expected one of: ${COLUMNS.orderId.join(', ')})`);
+  }
+
+  const orders = new Map<string, EtsyOrder>();
+  for (const row of rows) {
+    const cell = (i: number) => (i >= 0 ? (row[i] || '').trim() : '');
+    const orderId = cell(index.orderId);
+    if (!orderId) continue;
+
+    const itemName = cell(index.itemName);
+    const variations = parseVariations(cell(index.variations));
+    const personalization = cell(index.personalization)
+      || PERSONALIZATION_VARIATIONS.map(key => variations[key]).find(Boolean)
+      || '';
+    // Book type and theme come from the other variations (a name could contain "Zahlen")
+    const variationText = Object.keys(variations)
+      .filter(key => !PERSONALIZATION_VARIATIONS.includes(key))
+      .map(key => variations[key])
+      .join(' ');
+    const bookType = bookTypeOf(variationText) || bookTypeOf(itemName);
+    const theme = themeOf(variationText) || themeOf(itemName);
+
+    const existing = orders.get(orderId);
+    if (existing) {
+      // Several items in one order: still one book, with every page type ordered
+      // ('both' has no dot-to-dot pages, so those orders keep their first type)
+      existing.items.push(itemName);
+      if (bookType && bookType !== existing.bookType) {
+        if (bookType !== 'dot-to-dot' && existing.bookType !== 'dot-to-dot') {
+          existing.bookType = 'both';
+        } else {
+          existing.warnings.push(`${itemName || 'Item'}: ${bookType} pages left out, the book has ${existing.bookType} pages`);
+        }
+      }
+      if (!existing.personalization && personalization) Object.assign(existing, personalize(existing.buyer, personalization));
+      continue;
+    }
+
+    const buyer = cell(index.shipName) || cell(index.buyer);
+    orders.set(orderId, {
+      orderId,
+      buyer,
+      bookType: bookType || 'coloring',
+      theme: theme || DEFAULT_COVER_THEME,
+      items: [itemName],
+      warnings: [],
+      ...personalize(buyer, personalization),
+    });
+  }
+  return Array.from(orders.values());
+}
+
+function personalize(buyer: string, personalization: string): Pick<EtsyOrder, 'name' | 'dedication' | 'personalization'> {
+  // Etsy keeps line breaks of the personalization box; some buyers use " / " instead
+  const lines = personalization.split(/\r?\n| \/ /).map(line => line.trim()).filter(Boolean);
+  return {
+    name: (lines[0] || buyer.split(/\s+/)[0] || '').slice(0, MAX_NAME_LENGTH),
+    dedication: lines.slice(1).join('\n').slice(0, MAX_DEDICATION_LENGTH) || undefined,
+    personalization,
+  };
+}
+
+function isImageFile(file: string): boolean {
+  return IMAGE_EXTENSIONS.includes(path.extname(file).toLowerCase()) && !path.basename(file).startsWith('.');
+}
+
+/**
+ * Photos of an order: a folder or zip in `photosDir` whose name contains the
+ * order number (e.g. "3141592653", "3141592653_Emma.zip"), sorted by file name
+ */
+export async function findOrderPhotos(photosDir: string, orderId: string): Promise<Buffer[]> {
+  const id = orderId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const matcher = new RegExp(`(^|[^0-9A-Za-z])${id}([^0-9A-Za-z]|$)`);
+  const entries = (await readdir(photosDir)).filter(entry => matcher.test(entry)).sort();
+
+  const photos: { name: string; data: Buffer }[] = [];
+  for (const entry of entries) {
+    const full = path.join(photosDir, entry);
+    if ((await stat(full)).isDirectory()) {
+      for (const file of (await readdir(full)).filter(isImageFile).sort()) {
+        photos.push({ name: `${entry}/${file}`, data: await readFile(path.join(full, file)) });
+      }
+    } else if (path.extname(entry).toLowerCase() === '.zip') {
+      const zip = new AdmZip(full);
+      for (const zipEntry of zip.getEntries()) {
+        // Skip macOS resource forks (__MACOSX/._foo.jpg)
+        if (zipEntry.isDirectory || zipEntry.entryName.startsWith('__MACOSX') || !isImageFile(zipEntry.entryName)) continue;
+        photos.push({ name: `${entry}/${zipEntry.entryName}`, data: zipEntry.getData() });
+      }
+    } else if (isImageFile(entry)) {
+      photos.push({ name: entry, data: await readFile(full) });
+    }
+  }
+  return photos.sort((a, b) => a.name.localeCompare(b.name)).map(photo => photo.data);
+}
+
+/**
+ * Build the book request of an Etsy order (server-side conversion of raw photos)
+ */
+export function orderBookRequest(order: EtsyOrder, photos: Buffer[], options: FulfillmentOptions): BookRequest {
+  return {
+    name: order.name,
+    bookType: order.bookType,
+    locale: options.locale || DEFAULT_LOCALE,
+    preprocessed: false,
+    vectorOutput: options.vectorOutput ?? true,
+    difficulty: options.difficulty || DEFAULT_DIFFICULTY,
+    theme: order.theme,
+    dedication: order.dedication,
+    templatePosition: 'footer',
+    paperSize: options.paperSize || 'a4',
+    portraitOnly: false,
+    blankBacks: false,
+    booklet: false,
+    photos,
+    pages: [],
+    edits: [],
+    captions: [],
+    solutionMode: order.bookType === 'coloring' ? 'none' : 'appendix',
+  };
+}
+
+/**
+ * Generate one PDF per order, one at a time; failures don't stop the batch
+ * Writes <outDir>/<order>_<name>_Malbuch.pdf and <outDir>/report.json.
+ */
+export async function fulfillOrders(
+  orders: EtsyOrder[],
+  options: FulfillmentOptions,
+  onResult: (result: FulfillmentResult, index: number) => void = () => {}
+): Promise<FulfillmentReport> {
+  await mkdir(options.outDir, { recursive: true });
+  const results: FulfillmentResult[] = [];
+
+  for (const order of orders) {
+    let result: FulfillmentResult;
+    try {
+      if (!order.name) throw new Error('No buyer name or personalization');
+
+      const photos = await findOrderPhotos(options.photosDir, order.orderId);
+      if (!photos.length) throw new Error(`No photos found for order ${order.orderId} in ${options.photosDir}`);
+      if (photos.length > MAX_PHOTOS) throw new Error(`${photos.length} photos, at most ${MAX_PHOTOS} fit in a book`);
+
+      const pdf = await buildBook(orderBookRequest(order, photos, options));
+      const safeName = order.name.replace(/[^a-zA-Z0-9]/g, '_') || 'Malbuch';
+      const file = path.join(options.outDir, `${order.orderId}_${safeName}_Malbuch.pdf`);
+      await writeFile(file, pdf);
+      result = { orderId: order.orderId, name: order.name, status: 'ok', photos: photos.length, file };
+      if (order.warnings.length) result.warnings = order.warnings;
+    } catch (error) {
+      result = {
+        orderId: order.orderId,
+        name: order.name,
+        status: 'failed',
+        photos: 0,
+        error: error instanceof Error ? error.message : String(error),
+        warnings: order.warnings.length ? order.warnings : undefined,
+      };
+    }
+    results.push(result);
+    onResult(result, results.length - 1);
+  }
+
+  const report: FulfillmentReport = {
+    createdAt: new Date().toISOString(),
+    ok: results.filter(r => r.status === 'ok').length,
+    failed: results.filter(r => r.status === 'failed').length,
+    withWarnings: results.filter(r => r.warnings).length,
+    results,
+  };
+  await writeFile(path.join(options.outDir, 'report.json'), JSON.stringify(report, null, 2));
+  return report;
+}
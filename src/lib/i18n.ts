@@ -0,0 +1,80 @@
+/**
+ * Locales and message lookup, shared by the page, the API routes and the PDF
+ * The locale comes from an explicit choice, the URL (?lang=) or the
+ * Accept-Language header, in that order. Regional variants (de-AT, de-CH,
+ * fr-CH, en-GB, ...) use their language's messages.
+ */
+
+import { MESSAGES, MessageKey } from './messages';
+
+export type { MessageKey } from './messages';
+
+export type Locale = 'de' | 'en' | 'fr';
+
+export type MessageParams = Record<string, string | number>;
+
+export const LOCALES: Record<Locale, { label: string }> = {
+  de: { label: 'Deutsch' },
+  en: { label: 'English' },
+  fr: { label: 'Français' },
+};
+
+export const DEFAULT_LOCALE: Locale = 'de';
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && value in LOCALES;
+}
+
+/**
+ * Fill {placeholders} of a template; unknown ones stay as they are
+ */
+export function interpolate(template: string, params: MessageParams): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+/**
+ * Message in the given locale with {placeholders} filled in
+ */
+export function t(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  return interpolate(MESSAGES[locale][key] ?? MESSAGES[DEFAULT_LOCALE][key], params);
+}
+
+/**
+ * Best supported locale of an Accept-Language header ("de-CH,de;q=0.9,en;q=0.8")
+ */
+export function negotiateLocale(header: string | null | undefined): Locale | null {
+  if (!header) return null;
+
+  const ranges = header.split(',').map(part => {
+    const [tag, ...attributes] = part.trim().split(';');
+    const quality = attributes.map(a => a.trim()).find(a => a.startsWith('q='));
+    return {
+      language: tag.trim().toLowerCase().split('-')[0],
+      q: quality ? Number(quality.slice(2)) : 1,
+    };
+  });
+
+  const best = ranges
+    .filter(range => range.q > 0 && isLocale(range.language))
+    .sort((a, b) => b.q - a.q)[0];
+  return best ? (best.language as Locale) : null;
+}
+
+/**
+ * Locale for an API request: explicit value (form field), then ?lang=, then Accept-Language
+ */
+export function requestLocale(request: Request, explicit?: unknown): Locale {
+  if (isLocale(explicit)) return explicit;
+  const fromUrl = new URL(request.url).searchParams.get('lang');
+  if (isLocale(fromUrl)) return fromUrl;
+  return negotiateLocale(request.headers.get('accept-language')) || DEFAULT_LOCALE;
+}
+
+/**
+ * Locale in the browser: ?lang=, then the browser's language list
+ */
+export function browserLocale(): Locale {
+  const fromUrl = new URLSearchParams(window.location.search).get('lang');
+  if (isLocale(fromUrl)) return fromUrl;
+  return negotiateLocale(navigator.languages?.join(',') || navigator.language) || DEFAULT_LOCALE;
+}
@@ -0,0 +1,256 @@
+/**
+ * Environment-independent conversion core on raw RGBA buffers
+ * The browser (clientImageProcessor.ts) and server (imageProcessor.ts) only
+ * decode and encode; scaling and every conversion step happen here, so both
+ * paths produce the same pages from the same pixels.
+ */
+
+import { coloringPage, coloringVector, ColoringOptions } from './coloringPage';
+import { dotToDot, dotToDotVector, DotToDotOptions } from './dotToDot';
+import { paintByNumbers, paintByNumbersVector, renderQuantized, PaintByNumbersOptions } from './paintByNumbers';
+import { fitDimensions, MAX_DIMENSION } from './imageUtils';
+import { isSubjectMask, simplifyBackground, SubjectMask } from './subjectMask';
+import { VectorArt } from './vectorTrace';
+
+export interface RgbaImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/** Per-photo edits from the editor, applied before conversion */
+export interface PhotoEdits {
+  /** Clockwise quarter turns, applied after the EXIF orientation */
+  rotation?: 0 | 90 | 180 | 270;
+  /** Crop rectangle as fractions (0..1) of the rotated photo */
+  crop?: { x: number; y: number; width: number; height: number };
+  /** -1 (fewer lines and colors) .. 1 (more), see adjustDetail() */
+  detail?: number;
+  /** -1 (flatter) .. 1 (punchier) */
+  contrast?: number;
+  /** Strokes marking the subject and/or background; the background is simplified */
+  mask?: SubjectMask;
+}
+
+export interface ColoringResult {
+  /** Black-and-white line art, RGBA */
+  pixels: Uint8ClampedArray;
+  vector?: VectorArt;
+}
+
+export interface PaintByNumbersPage {
+  /** Outlines and number labels, RGBA */
+  pixels: Uint8ClampedArray;
+  palette: string[];
+  /** Colored solution, RGBA */
+  solution: Uint8ClampedArray;
+  vector?: VectorArt;
+}
+
+export interface DotToDotPage {
+  /** Numbered dots, RGBA */
+  pixels: Uint8ClampedArray;
+  /** Connected outline, RGBA */
+  solution: Uint8ClampedArray;
+  /** Dots and numbers for the PDF, always included */
+  vector: VectorArt;
+  /** Dots short of the requested count */
+  shortfall: number;
+}
+
+/**
+ * Scale an image down so its longest edge fits maxDimension (never up)
+ * Area averaging: every source pixel contributes by the share it covers,
+ * which avoids the aliasing of nearest-neighbour and doesn't depend on
+ * the browser's or jimp's resampling.
+ */
+export function resizeImage(image: RgbaImage, maxDimension: number = MAX_DIMENSION): RgbaImage {
+  const { width, height } = fitDimensions(image.width, image.height, maxDimension);
+  if (width === image.width && height === image.height) return image;
+
+  // Separable: shrink rows first, then columns
+  const horizontal = resampleAxis(image.data, image.width, image.height, width, true);
+  const data = resampleAxis(horizontal, width, image.height, height, false);
+
+  const out = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < out.length; i++) out[i] = Math.round(data[i]);
+  return { data: out, width, height };
+}
+
+/**
+ * Rotate, crop, scale, adjust contrast and simplify the background:
+ * everything before conversion
+ * Rotation and crop run at full resolution so the crop keeps its detail;
+ * the mask is segmented at processing size.
+ */
+export function prepareImage(image: RgbaImage, edits: PhotoEdits = {}, maxDimension: number = MAX_DIMENSION): RgbaImage {
+  let prepared = rotateImage(image, edits.rotation || 0);
+  if (edits.crop) prepared = cropImage(prepared, edits.crop);
+  prepared = resizeImage(prepared, maxDimension);
+  if (edits.contrast) prepared = adjustContrast(prepared, edits.contrast);
+  if (isSubjectMask(edits.mask) && edits.mask.strokes.length) {
+    const data = simplifyBackground(prepared.data, prepared.width, prepared.height, edits.mask, edits.crop);
+    prepared = { ...prepared, data };
+  }
+  return prepared;
+}
+
+/**
+ * Rotate clockwise by 90, 180 or 270 degrees
+ */
+export function rotateImage(image: RgbaImage, rotation: 0 | 90 | 180 | 270): RgbaImage {
+  if (!rotation) return image;
+
+  const { data, width, height } = image;
+  const swap = rotation !== 180;
+  const outWidth = swap ? height : width;
+  const outHeight = swap ? width : height;
+  const out = new Uint8ClampedArray(data.length);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let ox: number, oy: number;
+      if (rotation === 90) {
+        ox = height - 1 - y;
+        oy = x;
+      } else if (rotation === 180) {
+        ox = width - 1 - x;
+        oy = height - 1 - y;
+      } else {
+        ox = y;
+        oy = width - 1 - x;
+      }
+      const i = (y * width + x) * 4;
+      const j = (oy * outWidth + ox) * 4;
+      out[j] = data[i];
+      out[j + 1] = data[i + 1];
+      out[j + 2] = data[i + 2];
+      out[j + 3] = data[i + 3];
+    }
+  }
+  return { data: out, width: outWidth, height: outHeight };
+}
+
+/**
+ * Cut out a rectangle given as fractions of the image size
+ */
+export function cropImage(image: RgbaImage, crop: NonNullable<PhotoEdits['crop']>): RgbaImage {
+  const clamp = (v: number) => Math.max(0, Math.min(1, v));
+  const x0 = Math.min(image.width - 1, Math.round(clamp(crop.x) * image.width));
+  const y0 = Math.min(image.height - 1, Math.round(clamp(crop.y) * image.height));
+  const x1 = Math.round(clamp(crop.x + crop.width) * image.width);
+  const y1 = Math.round(clamp(crop.y + crop.height) * image.height);
+  const width = Math.max(1, x1 - x0);
+  const height = Math.max(1, y1 - y0);
+  if (width === image.width && height === image.height) return image;
+
+  const out = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const start = ((y0 + y) * image.width + x0) * 4;
+    out.set(image.data.subarray(start, start + width * 4), y * width * 4);
+  }
+  return { data: out, width, height };
+}
+
+/**
+ * Stretch (amount > 0) or flatten (amount < 0) contrast around mid-gray
+ */
+export function adjustContrast(image: RgbaImage, amount: number): RgbaImage {
+  const factor = Math.pow(2, Math.max(-1, Math.min(1, amount)));
+  const out = new Uint8ClampedArray(image.data.length);
+  for (let i = 0; i < out.length; i += 4) {
+    out[i] = (image.data[i] - 128) * factor + 128;
+    out[i + 1] = (image.data[i + 1] - 128) * factor + 128;
+    out[i + 2] = (image.data[i + 2] - 128) * factor + 128;
+    out[i + 3] = image.data[i + 3];
+  }
+  return { ...image, data: out };
+}
+
+/**
+ * Area-average one axis of an RGBA buffer to `size` pixels
+ */
+function resampleAxis(
+  src: ArrayLike<number>,
+  width: number,
+  height: number,
+  size: number,
+  horizontal: boolean
+): Float32Array {
+  const srcSize = horizontal ? width : height;
+  const lines = horizontal ? height : width;
+  const scale = srcSize / size;
+  const outWidth = horizontal ? size : width;
+  const out = new Float32Array(outWidth * (horizontal ? height : size) * 4);
+
+  for (let line = 0; line < lines; line++) {
+    for (let o = 0; o < size; o++) {
+      const start = o * scale;
+      const end = start + scale;
+      let r = 0, g = 0, b = 0, a = 0;
+
+      for (let s = Math.floor(start); s < end && s < srcSize; s++) {
+        const weight = Math.min(s + 1, end) - Math.max(s, start);
+        const i = (horizontal ? line * width + s : s * width + line) * 4;
+        r += src[i] * weight;
+        g += src[i + 1] * weight;
+        b += src[i + 2] * weight;
+        a += src[i + 3] * weight;
+      }
+
+      const j = (horizontal ? line * outWidth + o : o * outWidth + line) * 4;
+      out[j] = r / scale;
+      out[j + 1] = g / scale;
+      out[j + 2] = b / scale;
+      out[j + 3] = a / scale;
+    }
+  }
+  return out;
+}
+
+/**
+ * Coloring page from a processing-size image
+ */
+export function convertToColoringPage(
+  { data, width, height }: RgbaImage,
+  options: ColoringOptions = {},
+  vector: boolean = false
+): ColoringResult {
+  return {
+    pixels: coloringPage(data, width, height, options),
+    vector: vector ? coloringVector(data, width, height, options) : undefined,
+  };
+}
+
+/**
+ * Paint-by-numbers page and its solution from a processing-size image
+ */
+export function convertToPaintByNumbers(
+  { data, width, height }: RgbaImage,
+  options: PaintByNumbersOptions = {},
+  vector: boolean = false
+): PaintByNumbersPage {
+  const result = paintByNumbers(data, width, height, options);
+  return {
+    pixels: result.pixels,
+    palette: result.palette,
+    solution: renderQuantized(result.labels, result.palette),
+    vector: vector ? paintByNumbersVector(result) : undefined,
+  };
+}
+
+/**
+ * Dot-to-dot page and its solution from a processing-size image
+ */
+export function convertToDotToDot(
+  { data, width, height }: RgbaImage,
+  options: DotToDotOptions = {}
+): DotToDotPage {
+  const result = dotToDot(data, width, height, options);
+  return {
+    pixels: result.pixels,
+    solution: result.solution,
+    vector: dotToDotVector(result),
+    shortfall: result.shortfall,
+  };
+}
@@ -1,30 +1,164 @@
 /**
- * Server-side image processor (fallback only)
- * Main processing happens client-side via clientImageProcessor.ts
+ * Server-side adapter around imageCore.ts using jimp
+ * Runs the same conversions as clientImageProcessor.ts for clients
+ * that upload raw photos (scripts, partners, low-powered phones)
  */
 
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { Jimp } from 'jimp';
+import decodeWebp, { init as initWebpDecoder } from '@jsquash/webp/decode';
+import { ColoringOptions } from './coloringPage';
+import { DotToDotOptions } from './dotToDot';
+import { PaintByNumbersOptions } from './paintByNumbers';
+import { convertToColoringPage, convertToDotToDot, convertToPaintByNumbers, prepareImage, PhotoEdits, RgbaImage } from './imageCore';
+import { COVER_DIMENSION, detectImageFormat, MAX_DIMENSION } from './imageUtils';
+import { VectorArt } from './vectorTrace';
+
+export type DecodedImage = RgbaImage;
+
+let webpReady: Promise<void> | null = null;
+
+/**
+ * The WEBP codec is wasm; Node can't fetch it by URL, so hand it the binary
+ */
+function ensureWebpDecoder(): Promise<void> {
+  if (!webpReady) {
+    const wasmPath = path.join(process.cwd(), 'node_modules/@jsquash/webp/codec/dec/webp_dec.wasm');
+    webpReady = readFile(wasmPath).then(wasmBinary => initWebpDecoder({ wasmBinary }));
+  }
+  return webpReady;
+}
+
+async function decodeWebpBitmap(imageBuffer: Buffer) {
+  await ensureWebpDecoder();
+  const arrayBuffer = imageBuffer.buffer.slice(imageBuffer.byteOffset, imageBuffer.byteOffset + imageBuffer.length);
+  const { data, width, height } = await decodeWebp(arrayBuffer as ArrayBuffer);
+  return { data: Buffer.from(data.buffer, data.byteOffset, data.length), width, height };
+}
+
 /**
- * Pass through - images should be preprocessed client-side
+ * Decode a JPEG/PNG/WEBP photo (jimp applies the EXIF orientation), then
+ * apply the editor's edits and scale it to the processing size
  */
-export async function photoToColoringPage(imageBuffer: Buffer): Promise<Buffer> {
-  console.log(`photoToColoringPage: passing through ${imageBuffer.length} bytes`);
-  return imageBuffer;
+export async function decodePhoto(
+  imageBuffer: Buffer,
+  maxDimension: number = MAX_DIMENSION,
+  edits: PhotoEdits = {}
+): Promise<DecodedImage> {
+  const format = detectImageFormat(imageBuffer);
+  if (!format) {
+    throw new Error('Unsupported image format (JPEG, PNG or WEBP expected)');
+  }
+
+  const { data, width, height } = format === 'webp'
+    ? await decodeWebpBitmap(imageBuffer)
+    : (await Jimp.fromBuffer(imageBuffer)).bitmap;
+
+  return prepareImage({
+    data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.length),
+    width,
+    height,
+  }, edits, maxDimension);
+}
+
+async function encodePng(pixels: Uint8ClampedArray, width: number, height: number): Promise<Buffer> {
+  const image = Jimp.fromBitmap({
+    data: Buffer.from(pixels.buffer, pixels.byteOffset, pixels.length),
+    width,
+    height,
+  });
+  return image.getBuffer('image/png');
+}
+
+/**
+ * Convert a photo to a coloring page (PNG), optionally traced to vector paths
+ */
+export async function photoToColoringPage(
+  imageBuffer: Buffer,
+  options: ColoringOptions = {},
+  vector: boolean = false
+): Promise<{ image: Buffer; vector?: VectorArt }> {
+  return imageToColoringPage(await decodePhoto(imageBuffer), options, vector);
 }
 
 /**
- * Pass through for paint-by-numbers
+ * Convert a photo to a numbered paint-by-numbers page (PNG), its palette
+ * and the colored solution (PNG)
  */
 export async function photoToPaintByNumbers(
   imageBuffer: Buffer,
-  numColors: number = 8
-): Promise<{ image: Buffer; palette: string[] }> {
-  console.log(`photoToPaintByNumbers: passing through ${imageBuffer.length} bytes`);
-  
-  // Default palette
-  const palette = [
-    '#FF6B6B', '#4ECDC4', '#45B7D1', '#96CEB4', 
-    '#FFEAA7', '#DDA0DD', '#98D8C8', '#F7DC6F'
-  ].slice(0, numColors);
-  
-  return { image: imageBuffer, palette };
+  options: PaintByNumbersOptions = {},
+  vector: boolean = false
+): Promise<{ image: Buffer; palette: string[]; solution: Buffer; vector?: VectorArt }> {
+  return imageToPaintByNumbers(await decodePhoto(imageBuffer), options, vector);
+}
+
+/**
+ * Coloring page from an already decoded photo
+ */
+export async function imageToColoringPage(
+  decoded: DecodedImage,
+  options: ColoringOptions = {},
+  vector: boolean = false
+): Promise<{ image: Buffer; vector?: VectorArt }> {
+  const { width, height } = decoded;
+  console.log(`imageToColoringPage: ${width}x${height}`);
+
+  const result = convertToColoringPage(decoded, options, vector);
+  return {
+    image: await encodePng(result.pixels, width, height),
+    vector: result.vector,
+  };
+}
+
+/**
+ * Paint-by-numbers page from an already decoded photo
+ */
+export async function imageToPaintByNumbers(
+  decoded: DecodedImage,
+  options: PaintByNumbersOptions = {},
+  vector: boolean = false
+): Promise<{ image: Buffer; palette: string[]; solution: Buffer; vector?: VectorArt }> {
+  const { width, height } = decoded;
+  console.log(`imageToPaintByNumbers: ${width}x${height}, ${options.numColors ?? 12} colors`);
+
+  const result = convertToPaintByNumbers(decoded, options, vector);
+  return {
+    image: await encodePng(result.pixels, width, height),
+    palette: result.palette,
+    solution: await encodePng(result.solution, width, height),
+    vector: result.vector,
+  };
+}
+
+/**
+ * Dot-to-dot page (PNG) with its dots as vectors, and the connected outline
+ * as solution (PNG)
+ */
+export async function imageToDotToDot(
+  decoded: DecodedImage,
+  options: DotToDotOptions = {}
+): Promise<{ image: Buffer; solution: Buffer; vector: VectorArt }> {
+  const { width, height } = decoded;
+  console.log(`imageToDotToDot: ${width}x${height}, ${options.dots ?? 50} dots`);
+
+  const result = convertToDotToDot(decoded, options);
+  if (result.shortfall) {
+    console.warn(`imageToDotToDot: outline only fits ${(options.dots ?? 50) - result.shortfall} of ${options.dots ?? 50} dots`);
+  }
+  return {
+    image: await encodePng(result.pixels, width, height),
+    solution: await encodePng(result.solution, width, height),
+    vector: result.vector,
+  };
+}
+
+/**
+ * Cover photo: the photo itself (turned and cropped like in the editor) as JPEG
+ */
+export async function photoToCoverImage(imageBuffer: Buffer, edits: PhotoEdits = {}): Promise<Buffer> {
+  const { data, width, height } = await decodePhoto(imageBuffer, COVER_DIMENSION, { rotation: edits.rotation, crop: edits.crop });
+  const image = Jimp.fromBitmap({ data: Buffer.from(data.buffer, data.byteOffset, data.length), width, height });
+  return image.getBuffer('image/jpeg', { quality: 85 });
 }
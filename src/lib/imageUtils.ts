@@ -0,0 +1,104 @@
+/**
+ * Small helpers shared by the browser and server image pipelines
+ */
+
+/** Longest edge of processed pages in pixels */
+export const MAX_DIMENSION = 800;
+
+/** Longest edge of the cover photo in pixels (~200 dpi across a cover) */
+export const COVER_DIMENSION = 1200;
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp';
+
+/**
+ * Scale dimensions down (never up) so the longest edge fits maxDim
+ */
+export function fitDimensions(
+  width: number,
+  height: number,
+  maxDim: number = MAX_DIMENSION
+): { width: number; height: number } {
+  if (width <= maxDim && height <= maxDim) {
+    return { width, height };
+  }
+  const scale = maxDim / Math.max(width, height);
+  return {
+    width: Math.round(width * scale),
+    height: Math.round(height * scale),
+  };
+}
+
+/**
+ * Identify an image by its magic bytes
+ */
+export function detectImageFormat(bytes: Uint8Array): ImageFormat | null {
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return 'jpeg';
+  }
+  if (
+    bytes.length >= 8 &&
+    bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47 &&
+    bytes[4] === 0x0d && bytes[5] === 0x0a && bytes[6] === 0x1a && bytes[7] === 0x0a
+  ) {
+    return 'png';
+  }
+  if (
+    bytes.length >= 12 &&
+    bytes[0] === 0x52 && bytes[1] === 0x49 && bytes[2] === 0x46 && bytes[3] === 0x46 &&
+    bytes[8] === 0x57 && bytes[9] === 0x45 && bytes[10] === 0x42 && bytes[11] === 0x50
+  ) {
+    return 'webp';
+  }
+  return null;
+}
+
+/**
+ * Pixel dimensions from the image header, without decoding
+ * Lets uploads be checked for decompression bombs before anything is allocated.
+ */
+export function readImageSize(bytes: Uint8Array, format: ImageFormat): { width: number; height: number } | null {
+  const u16be = (i: number) => (bytes[i] << 8) | bytes[i + 1];
+  const u16le = (i: number) => bytes[i] | (bytes[i + 1] << 8);
+  const u24le = (i: number) => bytes[i] | (bytes[i + 1] << 8) | (bytes[i + 2] << 16);
+  const u32be = (i: number) => ((bytes[i] << 24) | (bytes[i + 1] << 16) | (bytes[i + 2] << 8) | bytes[i + 3]) >>> 0;
+  const tag = (i: number) => String.fromCharCode(bytes[i], bytes[i + 1], bytes[i + 2], bytes[i + 3]);
+
+  if (format === 'png') {
+    if (bytes.length < 24 || tag(12) !== 'IHDR') return null;
+    return { width: u32be(16), height: u32be(20) };
+  }
+
+  if (format === 'webp') {
+    if (bytes.length < 30) return null;
+    const chunk = tag(12);
+    if (chunk === 'VP8 ') return { width: u16le(26) & 0x3fff, height: u16le(28) & 0x3fff };
+    if (chunk === 'VP8L') {
+      const b = (i: number) => bytes[21 + i];
+      return {
+        width: 1 + (((b(1) & 0x3f) << 8) | b(0)),
+        height: 1 + (((b(3) & 0x0f) << 10) | (b(2) << 2) | ((b(1) & 0xc0) >> 6)),
+      };
+    }
+    if (chunk === 'VP8X') return { width: 1 + u24le(24), height: 1 + u24le(27) };
+    return null;
+  }
+
+  // JPEG: walk the segments up to the start-of-frame marker
+  let i = 2;
+  while (i + 9 < bytes.length) {
+    if (bytes[i] !== 0xff) return null;
+    const marker = bytes[i + 1];
+    if (marker === 0xff) {
+      i++;
+      continue;
+    }
+    const isFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isFrame) return { width: u16be(i + 7), height: u16be(i + 5) };
+    if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      i += 2;
+      continue;
+    }
+    i += 2 + u16be(i + 2);
+  }
+  return null;
+}
@@ -0,0 +1,28 @@
+/**
+ * Web Worker entry: converts one photo per message off the main thread
+ * Started by imageWorkerPool.ts
+ */
+
+import { processImageToColoringPage, processImageToDotToDot, processImageToPaintByNumbers } from './clientImageProcessor';
+import type { ImageTask, WorkerRequest, WorkerResponse } from './imageWorkerPool';
+
+async function runTask(task: ImageTask) {
+  if (task.kind === 'coloring') {
+    return processImageToColoringPage(task.file, task.difficulty, task.vector, task.edits);
+  }
+  if (task.kind === 'dot-to-dot') {
+    return processImageToDotToDot(task.file, task.difficulty, task.edits);
+  }
+  return processImageToPaintByNumbers(task.file, task.difficulty, task.vector, task.edits);
+}
+
+addEventListener('message', async (event: MessageEvent<WorkerRequest>) => {
+  const { id, task } = event.data;
+  let response: WorkerResponse;
+  try {
+    response = { id, result: await runTask(task) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+  postMessage(response);
+});
@@ -0,0 +1,141 @@
+/**
+ * Runs client-side photo conversions in a pool of Web Workers
+ * Several photos are converted in parallel; aborting terminates the workers,
+ * so remaining work really stops. Browsers without Worker/OffscreenCanvas
+ * fall back to the main thread.
+ */
+
+import { processImageToColoringPage, processImageToDotToDot, processImageToPaintByNumbers } from './clientImageProcessor';
+import { Difficulty } from './difficulty';
+import { PhotoEdits } from './imageCore';
+import { VectorArt } from './vectorTrace';
+
+export interface ImageTask {
+  kind: 'coloring' | 'paint-by-numbers' | 'dot-to-dot';
+  file: Blob;
+  difficulty: Difficulty;
+  /** Trace to vectors (dot-to-dot pages always are) */
+  vector: boolean;
+  /** Crop, rotation, detail and contrast from the photo editor */
+  edits?: PhotoEdits;
+}
+
+export interface ImageTaskResult {
+  image: Blob;
+  palette?: string[];
+  solution?: Blob;
+  vector?: VectorArt;
+}
+
+export type WorkerRequest = { id: number; task: ImageTask };
+
+export type WorkerResponse =
+  | { id: number; result: ImageTaskResult; error?: undefined }
+  | { id: number; error: string };
+
+export interface ProcessImagesOptions {
+  signal?: AbortSignal;
+  /** Called after each finished task */
+  onProgress?: (done: number, total: number) => void;
+  /** Number of workers; defaults to the core count minus one (max 4) */
+  concurrency?: number;
+}
+
+function abortError(): DOMException {
+  return new DOMException('Verarbeitung abgebrochen', 'AbortError');
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function workersSupported(): boolean {
+  return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+}
+
+function runOnMainThread(task: ImageTask): Promise<ImageTaskResult> {
+  if (task.kind === 'dot-to-dot') return processImageToDotToDot(task.file, task.difficulty, task.edits);
+  return task.kind === 'coloring'
+    ? processImageToColoringPage(task.file, task.difficulty, task.vector, task.edits)
+    : processImageToPaintByNumbers(task.file, task.difficulty, task.vector, task.edits);
+}
+
+/**
+ * Convert all tasks; results keep the order of `tasks`
+ */
+export async function processImages(
+  tasks: ImageTask[],
+  { signal, onProgress, concurrency }: ProcessImagesOptions = {}
+): Promise<ImageTaskResult[]> {
+  if (signal?.aborted) throw abortError();
+  if (!tasks.length) return [];
+
+  const results: ImageTaskResult[] = new Array(tasks.length);
+  let done = 0;
+
+  if (!workersSupported()) {
+    for (let i = 0; i < tasks.length; i++) {
+      results[i] = await runOnMainThread(tasks[i]);
+      if (signal?.aborted) throw abortError();
+      onProgress?.(++done, tasks.length);
+    }
+    return results;
+  }
+
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  const size = Math.max(1, Math.min(concurrency ?? Math.min(cores - 1, 4), tasks.length));
+  const workers: Worker[] = [];
+  let onAbort = () => {};
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      let next = 0;
+      let settled = false;
+
+      const fail = (error: unknown) => {
+        if (settled) return;
+        settled = true;
+        reject(error);
+      };
+      onAbort = () => fail(abortError());
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const feed = (worker: Worker) => {
+        if (settled) return;
+        if (next >= tasks.length) {
+          if (done === tasks.length) {
+            settled = true;
+            resolve();
+          }
+          return;
+        }
+        const id = next++;
+        const request: WorkerRequest = { id, task: tasks[id] };
+        worker.postMessage(request);
+      };
+
+      for (let w = 0; w < size; w++) {
+        const worker = new Worker(new URL('./imageWorker.ts', import.meta.url));
+        worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => {
+          const response = event.data;
+          if (response.error !== undefined) {
+            fail(new Error(response.error));
+            return;
+          }
+          results[response.id] = response.result;
+          onProgress?.(++done, tasks.length);
+          feed(worker);
+        });
+        worker.addEventListener('error', (event) => fail(new Error(event.message || 'Worker error')));
+        workers.push(worker);
+        feed(worker);
+      }
+    });
+  } finally {
+    // Also stops tasks still running after an abort or error
+    workers.forEach(worker => worker.terminate());
+    signal?.removeEventListener('abort', onAbort);
+  }
+
+  return results;
+}
@@ -0,0 +1,237 @@
+/**
+ * Background book generation jobs
+ * POST /api/jobs starts a job, /api/jobs/[id] reports progress,
+ * /api/jobs/[id]/result streams the finished PDF.
+ *
+ * Jobs run in the server process; state lives behind JobStore so the
+ * status endpoint can answer while the book is still being built. The job
+ * keeps running after the 202 response, so this needs a long-running server:
+ * a serverless function may be frozen mid-build unless JOBS_INLINE=true
+ * makes POST /api/jobs answer only once the book is built. Without a shared
+ * store (JOB_STORE_DIR) in production the page builds through POST
+ * /api/generate instead, see backgroundJobsAvailable().
+ */
+
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { buildBook, countPages, BookRequest, BuildStage } from './bookBuilder';
+import { createOrder } from './orders';
+import { paymentsEnabled } from './payments';
+import { EmailDelivery, publicBaseUrl, sendBookEmail } from './email';
+
+export type JobState = 'queued' | 'running' | 'done' | 'failed';
+
+export interface Job {
+  id: string;
+  name: string;
+  state: JobState;
+  stage?: BuildStage;
+  /** Pages finished within the current stage */
+  page: number;
+  totalPages: number;
+  createdAt: string;
+  updatedAt: string;
+  error?: string;
+  /** Set instead of a downloadable result when payments are enabled */
+  orderId?: string;
+  /** Email of the finished book (unpaid books; paid ones are emailed by their order) */
+  email?: EmailDelivery;
+}
+
+export interface JobStore {
+  create(job: Job): Promise<void>;
+  get(id: string): Promise<Job | null>;
+  update(job: Job): Promise<void>;
+  saveResult(id: string, pdf: Buffer): Promise<void>;
+  getResult(id: string): Promise<Buffer | null>;
+}
+
+const JOB_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+/** Jobs and their PDFs are dropped this long after their last update */
+export const JOB_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Jobs kept in process memory (default)
+ * Only one server process sees them, so this suits a single long-running
+ * server; use JOB_STORE_DIR on shared storage when running several.
+ */
+export class MemoryJobStore implements JobStore {
+  private jobs = new Map<string, Job>();
+  private results = new Map<string, Buffer>();
+
+  async create(job: Job): Promise<void> {
+    this.prune(Date.now());
+    this.jobs.set(job.id, { ...job });
+  }
+
+  async get(id: string): Promise<Job | null> {
+    this.prune(Date.now());
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
+  }
+
+  async update(job: Job): Promise<void> {
+    this.jobs.set(job.id, { ...job });
+  }
+
+  async saveResult(id: string, pdf: Buffer): Promise<void> {
+    this.results.set(id, pdf);
+  }
+
+  async getResult(id: string): Promise<Buffer | null> {
+    this.prune(Date.now());
+    return this.results.get(id) || null;
+  }
+
+  // Running jobs update on every page, so only finished or abandoned ones expire
+  private prune(now: number): void {
+    this.jobs.forEach((job, id) => {
+      if (Date.parse(job.updatedAt) <= now - JOB_TTL_MS) {
+        this.jobs.delete(id);
+        this.results.delete(id);
+      }
+    });
+  }
+}
+
+/**
+ * Jobs as JSON + PDF files in a local directory (survives dev server reloads)
+ */
+export class FileJobStore implements JobStore {
+  constructor(private readonly dir: string) {}
+
+  private file(id: string, ext: 'json' | 'pdf'): string {
+    if (!JOB_ID_PATTERN.test(id)) throw new Error('Invalid job id');
+    return path.join(this.dir, `${id}.${ext}`);
+  }
+
+  async create(job: Job): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await this.update(job);
+  }
+
+  async get(id: string): Promise<Job | null> {
+    if (!JOB_ID_PATTERN.test(id)) return null;
+    try {
+      return JSON.parse(await readFile(this.file(id, 'json'), 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  async update(job: Job): Promise<void> {
+    await writeFile(this.file(job.id, 'json'), JSON.stringify(job, null, 2));
+  }
+
+  async saveResult(id: string, pdf: Buffer): Promise<void> {
+    await writeFile(this.file(id, 'pdf'), pdf);
+  }
+
+  async getResult(id: string): Promise<Buffer | null> {
+    if (!JOB_ID_PATTERN.test(id)) return null;
+    try {
+      return await readFile(this.file(id, 'pdf'));
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Keep one store per process, also across dev-server module reloads
+const globalForJobs = globalThis as unknown as { malbuchJobStore?: JobStore };
+
+export function getJobStore(): JobStore {
+  if (!globalForJobs.malbuchJobStore) {
+    globalForJobs.malbuchJobStore = process.env.JOB_STORE_DIR
+      ? new FileJobStore(process.env.JOB_STORE_DIR)
+      : new MemoryJobStore();
+  }
+  return globalForJobs.malbuchJobStore;
+}
+
+/**
+ * Whether clients may poll background jobs
+ * A poll can reach another server instance than the one building the book;
+ * in production only a shared JOB_STORE_DIR answers it reliably. Otherwise
+ * the page builds through POST /api/generate.
+ */
+export function backgroundJobsAvailable(env: Record<string, string | undefined> = process.env): boolean {
+  return Boolean(env.JOB_STORE_DIR) || env.NODE_ENV !== 'production';
+}
+
+/**
+ * Register a job and start building in the background
+ * `origin` is the base of download links in emails (unless PUBLIC_URL is set).
+ * With JOBS_INLINE=true the build finishes before this returns.
+ */
+export async function startJob(request: BookRequest, origin?: string): Promise<Job> {
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: randomUUID(),
+    name: request.name,
+    state: 'queued',
+    page: 0,
+    totalPages: countPages(request),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await getJobStore().create(job);
+
+  // Normally not awaited: the caller returns the job id right away
+  const running = runJob(job, request, origin).catch(error => {
+    console.error(`Job ${job.id} crashed:`, error);
+  });
+  if (process.env.JOBS_INLINE === 'true') await running;
+
+  return job;
+}
+
+async function runJob(job: Job, request: BookRequest, origin?: string): Promise<void> {
+  const jobs = getJobStore();
+  let current: Job = { ...job, state: 'running' };
+  // Progress writes are chained so a slow store can't reorder them
+  let saving: Promise<void> = jobs.update(current);
+
+  const save = (changes: Partial<Job>) => {
+    current = { ...current, ...changes, updatedAt: new Date().toISOString() };
+    const snapshot = current;
+    saving = saving.then(() => jobs.update(snapshot));
+  };
+
+  try {
+    const pdf = await buildBook(request, ({ stage, page }) => save({ stage, page }));
+
+    if (paymentsEnabled()) {
+      const order = await createOrder(request.name, pdf, { email: request.email, locale: request.locale });
+      save({ state: 'done', orderId: order.id });
+    } else {
+      await jobs.saveResult(job.id, pdf);
+      save({ state: 'done', email: request.email ? { to: request.email, status: 'sending', attempts: 0 } : undefined });
+    }
+    console.log(`Job ${job.id} finished: ${pdf.length} bytes`);
+
+    // The download is available already; the email follows (with retries)
+    if (request.email && !paymentsEnabled()) {
+      const base = publicBaseUrl(origin);
+      const email = await sendBookEmail(
+        {
+          to: request.email,
+          name: request.name,
+          locale: request.locale,
+          pdf,
+          downloadUrl: base ? `${base}/api/jobs/${job.id}/result` : undefined,
+        },
+        delivery => save({ email: delivery })
+      );
+      save({ email });
+      if (email.status === 'failed') console.error(`Job ${job.id} email failed: ${email.error}`);
+    }
+  } catch (error) {
+    console.error(`Job ${job.id} failed:`, error);
+    save({ state: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+
+  await saving;
+}
@@ -0,0 +1,723 @@
+/**
+ * Message catalog for the UI, API errors and the printed book
+ * German is the source; the other locales must translate every key
+ * (enforced by the Messages type). Placeholders look like {name}.
+ */
+
+const de = {
+  // Page
+  'app.title': 'Malbuch Generator',
+  'app.language': 'Sprache',
+  'hero.title': 'Dein persönliches Malbuch',
+  'hero.subtitle': 'Verwandle deine Fotos in einzigartige Ausmalbilder und Malen-nach-Zahlen Vorlagen',
+
+  'form.name.label': 'Für wen ist das Malbuch?',
+  'form.name.placeholder': 'z.B. Emma, Oma, Familie Müller...',
+  'form.theme.label': 'Cover-Thema',
+  'form.title.placeholder': 'Titel (Standard: {title})',
+  'form.dedication.placeholder': 'Widmung, z.B. Für Emma, von Oma (optional)',
+  'form.cover.hint': 'Mit ★ auf einem Foto wird es zum Titelbild.',
+  'form.pageTemplate.label': 'Zeile auf jeder Seite (optional)',
+  'form.pageTemplate.placeholder': '{name}s Malbuch – Seite {n}',
+  'form.pageTemplate.hint': 'Platzhalter: {name} für den Namen, {n} für die Seitenzahl, {pages} für die Anzahl der Seiten. Bildunterschriften stehen unter den Fotos.',
+  'templatePosition.footer': 'Fußzeile (statt der Seitenzahl)',
+  'templatePosition.header': 'Kopfzeile',
+  'form.bookType.label': 'Welche Art von Malbuch möchtest du?',
+  'form.solutions.label': 'Lösungen für Malen nach Zahlen und Punkt-zu-Punkt',
+  'form.difficulty.label': 'Für welches Alter?',
+  'form.titleFont.label': 'Schrift für den Titel',
+  'form.titleFont.theme': 'Passend zum Thema',
+  'form.paperSize.label': 'Papierformat',
+  'form.photos.label': 'Fotos hochladen (max. {max})',
+  'form.photos.drop': 'Fotos hierher ziehen oder klicken zum Auswählen',
+  'form.photos.formats': 'JPG, PNG oder WEBP',
+  'form.email.label': 'Malbuch zusätzlich per E-Mail (optional)',
+  'form.email.placeholder': 'name@beispiel.de',
+
+  'bookType.coloring.label': 'Ausmalbuch',
+  'bookType.coloring.desc': 'Klassische Ausmalbilder',
+  'bookType.paint-by-numbers.label': 'Malen nach Zahlen',
+  'bookType.paint-by-numbers.desc': 'Mit Farbnummern',
+  'bookType.dot-to-dot.label': 'Punkt zu Punkt',
+  'bookType.dot-to-dot.desc': 'Punkte der Reihe nach verbinden',
+  'bookType.both.label': 'Beides',
+  'bookType.both.desc': 'Ausmalbild und Malen nach Zahlen',
+
+  'solutions.none': 'Keine Lösungen',
+  'solutions.inline': 'Kleines Lösungsbild auf jeder Seite',
+  'solutions.appendix': 'Lösungen im Anhang',
+
+  'difficulty.kleinkind.label': 'Kleinkind',
+  'difficulty.kleinkind.desc': 'Wenige, dicke Linien und große Flächen',
+  'difficulty.kind.label': 'Kind',
+  'difficulty.kind.desc': 'Ausgewogene Details',
+  'difficulty.erwachsene.label': 'Erwachsene',
+  'difficulty.erwachsene.desc': 'Feine Linien und viele Farben',
+
+  'titleFont.fredoka.desc': 'Rund und freundlich',
+  'titleFont.baloo.desc': 'Kräftig und verspielt',
+  'titleFont.patrick-hand.desc': 'Wie handgeschrieben',
+  'titleFont.nunito.desc': 'Schlicht und klar',
+
+  'paperSize.a4': 'A4 (210 × 297 mm)',
+  'paperSize.a5': 'A5 (148 × 210 mm)',
+  'paperSize.letter': 'US Letter (8,5 × 11 in)',
+
+  'theme.neutral.label': 'Neutral',
+  'theme.geburtstag.label': 'Geburtstag',
+  'theme.weihnachten.label': 'Weihnachten',
+  'theme.ostern.label': 'Ostern',
+  'theme.einschulung.label': 'Einschulung',
+
+  'option.vector.label': 'Vektorlinien',
+  'option.vector.desc': 'Gestochen scharfe Linien in jeder Druckgröße, kleinere PDF-Datei',
+  'option.portrait.label': 'Nur Hochformat',
+  'option.portrait.desc': 'Querformat-Fotos werden auf der Seite gedreht statt auf Querseiten gedruckt',
+  'option.blankBacks.label': 'Leere Rückseiten',
+  'option.blankBacks.desc': 'Für beidseitigen Druck: Filzstifte drücken nicht aufs nächste Bild durch',
+  'option.booklet.label': 'Heftdruck',
+  'option.booklet.desc': 'Zwei Seiten pro Blatt, beidseitig drucken (kurze Kante), falten und in der Mitte heften',
+
+  'photo.alt': 'Foto {number}',
+  'photo.edited': 'bearbeitet',
+  'photo.cover': 'Titelbild',
+  'photo.setCover': 'Als Titelbild verwenden',
+  'photo.caption': 'Bildunterschrift',
+  'photo.edit': 'Bearbeiten',
+  'photo.remove': 'Entfernen',
+
+  'payment.confirming': 'Zahlung wird bestätigt...',
+  'payment.cancelled': 'Die Bezahlung wurde abgebrochen.',
+  'payment.pending': 'Die Zahlung ist noch nicht bestätigt. Bitte lade die Seite später neu.',
+  'payment.redirect': 'Weiter zur Bezahlung...',
+  'payment.thanks': 'Vielen Dank für deinen Kauf!',
+  'payment.download': 'Malbuch herunterladen',
+
+  'status.converting': 'Verarbeite Bilder ({done} von {total})...',
+  'status.uploading': 'Lade Bilder hoch...',
+  'status.working': 'Wird erstellt...',
+  'status.stage': '{stage} (Seite {page} von {total})...',
+  'stage.decode': 'Fotos werden gelesen',
+  'stage.convert': 'Bilder werden umgewandelt',
+  'stage.layout': 'Seiten werden gesetzt',
+  'stage.pdf': 'PDF wird erstellt',
+
+  'button.generate.one': '🎨 Malbuch erstellen ({count} Foto)',
+  'button.generate.other': '🎨 Malbuch erstellen ({count} Fotos)',
+  'button.cancel': 'Abbrechen',
+
+  'error.nameRequired': 'Bitte gib einen Namen ein',
+  'error.photoRequired': 'Bitte wähle mindestens ein Foto aus',
+  'error.unknown': 'Unbekannter Fehler',
+  'error.server': 'Serverfehler: {status}',
+  'error.jobFailed': 'Fehler beim Erstellen: {error}',
+  'email.status.sending': 'Das Malbuch wird an {email} geschickt...',
+  'email.status.sent': 'Das Malbuch wurde an {email} geschickt.',
+  'email.status.failed': 'Die E-Mail an {email} konnte nicht gesendet werden. Bitte lade das Malbuch herunter.',
+  'preview.open': 'Vorschau ansehen',
+  'preview.close': 'Vorschau schließen',
+  'preview.hint': 'Jede Seite so, wie sie ins Malbuch kommt – in geringer Auflösung und mit Wasserzeichen.',
+  'preview.position': '{current} von {total}',
+  'preview.previous': 'Vorherige Seite',
+  'preview.next': 'Nächste Seite',
+  'preview.loading': 'Seite wird erstellt...',
+  'preview.page.cover': 'Titelseite',
+  'preview.page.dedication': 'Widmung',
+  'preview.page.coloring': 'Ausmalbild {number}',
+  'preview.page.paint-by-numbers': 'Malen nach Zahlen {number}',
+  'preview.page.dot-to-dot': 'Punkt zu Punkt {number}',
+  'preview.page.back': 'Rückseite',
+  'preview.watermark': 'VORSCHAU',
+
+  'feature.instant.title': 'Sofort Download',
+  'feature.instant.desc': 'Dein Malbuch ist in Sekunden fertig zum Ausdrucken',
+  'feature.gift.title': 'Perfektes Geschenk',
+  'feature.gift.desc': 'Überrasche Familie & Freunde mit personalisierten Malbüchern',
+  'feature.print.title': 'Druckfertig',
+  'feature.print.desc': 'A4, A5 oder US Letter, optimiert für jeden Drucker',
+  'pricing.intro': 'Einführungspreis',
+  'pricing.price': '€4,99',
+  'pricing.per': 'pro Malbuch • Sofort-Download',
+
+  // Photo editor
+  'editor.title': 'Foto bearbeiten',
+  'editor.tool.crop': 'Zuschneiden',
+  'editor.tool.subject': 'Motiv markieren',
+  'editor.tool.background': 'Hintergrund markieren',
+  'editor.hint.crop': 'Ziehe einen Rahmen zum Zuschneiden',
+  'editor.hint.subject': 'Male grob über das Motiv (Kind, Tier, ...)',
+  'editor.hint.background': 'Male über Hintergrund, der wegfallen soll',
+  'editor.original': 'Original',
+  'editor.preview': 'Vorschau',
+  'editor.previewing': 'Vorschau wird berechnet...',
+  'editor.loadFailed': 'Foto konnte nicht geladen werden',
+  'editor.previewFailed': 'Vorschau fehlgeschlagen',
+  'editor.kind.coloring': 'Ausmalbild',
+  'editor.kind.paint-by-numbers': 'Malen nach Zahlen',
+  'editor.kind.dot-to-dot': 'Punkt zu Punkt',
+  'editor.background': 'Hintergrund:',
+  'editor.background.blank': 'Weglassen',
+  'editor.background.simplify': 'Vereinfachen',
+  'editor.undoStroke': 'Letzten Strich entfernen',
+  'editor.clearMask': 'Markierung löschen',
+  'editor.detail': 'Details',
+  'editor.contrast': 'Kontrast',
+  'editor.rotateLeft': '⟲ Links drehen',
+  'editor.rotateRight': '⟳ Rechts drehen',
+  'editor.reset': 'Zurücksetzen',
+  'editor.cancel': 'Abbrechen',
+  'editor.apply': 'Übernehmen',
+
+  // API errors
+  'api.nameAndPhotoRequired': 'Name und mindestens ein Foto sind erforderlich',
+  'api.unknownBookType': 'Unbekannte Buchart (coloring, paint-by-numbers, dot-to-dot oder both)',
+  'api.unknownDifficulty': 'Unbekannter Schwierigkeitsgrad (kleinkind, kind oder erwachsene)',
+  'api.unknownPaperSize': 'Unbekanntes Papierformat (A4, A5 oder Letter)',
+  'api.marginRange': 'Der Rand muss zwischen 0 und {max} mm liegen',
+  'api.unknownSolutionMode': 'Unbekannte Lösungsseiten (none, inline oder appendix)',
+  'api.unknownTheme': 'Unbekanntes Cover-Thema ({themes})',
+  'api.unknownLocale': 'Unbekannte Sprache ({locales})',
+  'api.titleTooLong': 'Der Titel darf höchstens {max} Zeichen lang sein',
+  'api.dedicationTooLong': 'Die Widmung darf höchstens {max} Zeichen lang sein',
+  'api.invalidCoverPhoto': 'Ungültiges Titelbild (Index eines hochgeladenen Fotos erwartet)',
+  'api.tooManyPhotos': 'Maximal {max} Fotos erlaubt',
+  'api.generationFailed': 'Fehler beim Erstellen: {error}',
+  'api.jobNotFound': 'Auftrag nicht gefunden',
+  'api.bookNotReady': 'Malbuch ist noch nicht fertig',
+  'api.paymentRequired': 'Bezahlung erforderlich',
+  'api.bookNotFound': 'Malbuch nicht gefunden',
+  'api.orderNotFound': 'Bestellung nicht gefunden',
+  'api.orderAlreadyPaid': 'Bestellung ist bereits bezahlt',
+  'api.paymentsDisabled': 'Zahlungen sind nicht aktiviert',
+  'api.checkoutFailed': 'Fehler beim Bezahlvorgang: {error}',
+  'api.downloadInvalid': 'Download-Link ist ungültig oder abgelaufen',
+  'api.invalidEmail': 'Ungültige E-Mail-Adresse',
+  'api.nameTooLong': 'Der Name darf höchstens {max} Zeichen lang sein',
+  'api.invalidUpload': 'Ungültiger Upload: {field} muss eine Datei sein',
+  'api.unsupportedFormat': '{file} ist kein JPG-, PNG- oder WEBP-Bild',
+  'api.unreadableImage': '{file} ist beschädigt oder kein vollständiges Bild',
+  'api.fileTooLarge': '{file} ist größer als {max} MB',
+  'api.uploadTooLarge': 'Die Dateien sind zusammen größer als {max} MB',
+  'api.tooManyPixels': '{file} hat mehr als {max} Megapixel',
+  'api.rateLimited': 'Zu viele Anfragen. Bitte versuche es in {minutes} Minuten erneut.',
+  'api.debugDisabled': 'Nicht gefunden',
+  'api.debugUnauthorized': 'Debug-Token fehlt oder ist ungültig',
+  'api.unknownPreviewPage': 'Unbekannte Vorschauseite ({pages})',
+  'api.previewOnePhoto': 'Die Vorschau braucht genau ein Foto',
+  'api.dedicationRequired': 'Ohne Widmung gibt es keine Widmungsseite',
+  'api.pageManifestRequired': 'Vorverarbeitete Seiten brauchen eine Seitenliste (pages)',
+  'api.pageManifestUnreadable': 'Die Seitenliste (pages) ist kein gültiges JSON-Array',
+  'api.invalidPageManifest': 'Ungültige Seitenliste: {field} bei Seite {page}',
+  'api.pageFileMissing': '{file} fehlt im Upload',
+  'api.pageFileUnused': '{file} wurde hochgeladen, aber keiner Seite zugeordnet',
+  'api.pageFormatMismatch': '{file} ist kein {format}-Bild wie angegeben',
+  'api.captionTooLong': 'Bildunterschriften dürfen höchstens {max} Zeichen lang sein',
+  'api.editsUnreadable': 'Die Fotobearbeitungen (edits) sind kein gültiges JSON-Array',
+  'api.editsCountMismatch': '{edits} Fotobearbeitungen für {photos} Fotos (eine pro Foto erwartet)',
+  'api.invalidEdits': 'Ungültige Fotobearbeitung: {field} bei Foto {photo}',
+  'api.pageTemplateTooLong': 'Die Zeile auf jeder Seite darf höchstens {max} Zeichen lang sein',
+  'api.unknownTemplatePlaceholder': 'Unbekannter Platzhalter {placeholder} (erlaubt: {placeholders})',
+  'api.unknownTemplatePosition': 'Unbekannte Position der Seitenzeile (header oder footer)',
+
+  // Printed book
+  'pdf.defaultTitle': "{name}'s Malbuch",
+  'pdf.createdFor': 'Erstellt für {name}',
+  'pdf.palette': 'Farbpalette:',
+  'pdf.solution': 'Lösung:',
+  'pdf.solutionRef': 'Lösung: Seite {page}',
+  'pdf.solutions': 'Lösungen',
+  'pdf.pageCaption': 'Seite {page}',
+  'pdf.imageFailed': 'Bild konnte nicht geladen werden',
+  'theme.neutral.subtitle': 'Ein personalisiertes Malbuch',
+  'theme.geburtstag.subtitle': 'Alles Gute zum Geburtstag!',
+  'theme.weihnachten.subtitle': 'Frohe Weihnachten!',
+  'theme.ostern.subtitle': 'Frohe Ostern!',
+  'theme.einschulung.subtitle': 'Viel Spaß in der Schule!',
+
+  // Book email
+  'email.subject': 'Dein Malbuch für {name}',
+  'email.greeting': 'Hallo,',
+  'email.bodyAttached': 'dein Malbuch für {name} ist fertig! Du findest es als PDF im Anhang.',
+  'email.bodyLink': 'dein Malbuch für {name} ist fertig! Es ist zu groß für einen Anhang, du kannst es hier herunterladen:',
+  'email.downloadButton': 'Malbuch herunterladen',
+  'email.printTip': 'Tipp: Drucke das PDF in Originalgröße (100 %), damit nichts abgeschnitten wird.',
+  'email.signature': 'Viel Spaß beim Ausmalen!\nDein Malbuch-Team',
+};
+
+export type MessageKey = keyof typeof de;
+
+export type Messages = Record<MessageKey, string>;
+
+const en: Messages = {
+  'app.title': 'Coloring Book Generator',
+  'app.language': 'Language',
+  'hero.title': 'Your personal coloring book',
+  'hero.subtitle': 'Turn your photos into unique coloring pages and paint-by-numbers templates',
+
+  'form.name.label': 'Who is the coloring book for?',
+  'form.name.placeholder': 'e.g. Emma, Grandma, the Miller family...',
+  'form.theme.label': 'Cover theme',
+  'form.title.placeholder': 'Title (default: {title})',
+  'form.dedication.placeholder': 'Dedication, e.g. For Emma, love Grandma (optional)',
+  'form.cover.hint': 'Tap ★ on a photo to put it on the cover.',
+  'form.pageTemplate.label': 'Line on every page (optional)',
+  'form.pageTemplate.placeholder': '{name}’s coloring book – page {n}',
+  'form.pageTemplate.hint': 'Placeholders: {name} for the name, {n} for the page number, {pages} for the number of pages. Captions go below the photos.',
+  'templatePosition.footer': 'Footer (instead of the page number)',
+  'templatePosition.header': 'Header',
+  'form.bookType.label': 'What kind of book would you like?',
+  'form.solutions.label': 'Paint-by-numbers and dot-to-dot solutions',
+  'form.difficulty.label': 'For which age?',
+  'form.titleFont.label': 'Title font',
+  'form.titleFont.theme': 'Matching the theme',
+  'form.paperSize.label': 'Paper size',
+  'form.photos.label': 'Upload photos (max. {max})',
+  'form.photos.drop': 'Drag photos here or click to choose',
+  'form.photos.formats': 'JPG, PNG or WEBP',
+  'form.email.label': 'Also send the book by email (optional)',
+  'form.email.placeholder': 'name@example.com',
+
+  'bookType.coloring.label': 'Coloring book',
+  'bookType.coloring.desc': 'Classic coloring pages',
+  'bookType.paint-by-numbers.label': 'Paint by numbers',
+  'bookType.paint-by-numbers.desc': 'With color numbers',
+  'bookType.dot-to-dot.label': 'Dot to dot',
+  'bookType.dot-to-dot.desc': 'Connect the dots in order',
+  'bookType.both.label': 'Both',
+  'bookType.both.desc': 'Coloring and paint by numbers',
+
+  'solutions.none': 'No solutions',
+  'solutions.inline': 'Small solution picture on every page',
+  'solutions.appendix': 'Solutions in an appendix',
+
+  'difficulty.kleinkind.label': 'Toddler',
+  'difficulty.kleinkind.desc': 'Few, thick lines and large areas',
+  'difficulty.kind.label': 'Child',
+  'difficulty.kind.desc': 'Balanced detail',
+  'difficulty.erwachsene.label': 'Adult',
+  'difficulty.erwachsene.desc': 'Fine lines and many colors',
+
+  'titleFont.fredoka.desc': 'Round and friendly',
+  'titleFont.baloo.desc': 'Bold and playful',
+  'titleFont.patrick-hand.desc': 'Like handwriting',
+  'titleFont.nunito.desc': 'Simple and clear',
+
+  'paperSize.a4': 'A4 (210 × 297 mm)',
+  'paperSize.a5': 'A5 (148 × 210 mm)',
+  'paperSize.letter': 'US Letter (8.5 × 11 in)',
+
+  'theme.neutral.label': 'Neutral',
+  'theme.geburtstag.label': 'Birthday',
+  'theme.weihnachten.label': 'Christmas',
+  'theme.ostern.label': 'Easter',
+  'theme.einschulung.label': 'First day of school',
+
+  'option.vector.label': 'Vector lines',
+  'option.vector.desc': 'Razor-sharp lines at any print size, smaller PDF file',
+  'option.portrait.label': 'Portrait only',
+  'option.portrait.desc': 'Landscape photos are turned on the page instead of printed on landscape pages',
+  'option.blankBacks.label': 'Blank backs',
+  'option.blankBacks.desc': 'For double-sided printing: markers won’t bleed into the next picture',
+  'option.booklet.label': 'Booklet printing',
+  'option.booklet.desc': 'Two pages per sheet, print double-sided (short edge), fold and staple in the middle',
+
+  'photo.alt': 'Photo {number}',
+  'photo.edited': 'edited',
+  'photo.cover': 'Cover',
+  'photo.setCover': 'Use as cover photo',
+  'photo.caption': 'Caption',
+  'photo.edit': 'Edit',
+  'photo.remove': 'Remove',
+
+  'payment.confirming': 'Confirming payment...',
+  'payment.cancelled': 'The payment was cancelled.',
+  'payment.pending': 'The payment is not confirmed yet. Please reload the page later.',
+  'payment.redirect': 'Continuing to payment...',
+  'payment.thanks': 'Thank you for your purchase!',
+  'payment.download': 'Download coloring book',
+
+  'status.converting': 'Processing pictures ({done} of {total})...',
+  'status.uploading': 'Uploading pictures...',
+  'status.working': 'Creating...',
+  'status.stage': '{stage} (page {page} of {total})...',
+  'stage.decode': 'Reading photos',
+  'stage.convert': 'Converting pictures',
+  'stage.layout': 'Laying out pages',
+  'stage.pdf': 'Creating PDF',
+
+  'button.generate.one': '🎨 Create coloring book ({count} photo)',
+  'button.generate.other': '🎨 Create coloring book ({count} photos)',
+  'button.cancel': 'Cancel',
+
+  'error.nameRequired': 'Please enter a name',
+  'error.photoRequired': 'Please choose at least one photo',
+  'error.unknown': 'Unknown error',
+  'error.server': 'Server error: {status}',
+  'error.jobFailed': 'Creating the book failed: {error}',
+  'email.status.sending': 'Sending the book to {email}...',
+  'email.status.sent': 'The book was sent to {email}.',
+  'email.status.failed': 'The email to {email} could not be sent. Please download the book.',
+  'preview.open': 'Preview the book',
+  'preview.close': 'Close preview',
+  'preview.hint': 'Every page as it will appear in the book, at low resolution and watermarked.',
+  'preview.position': '{current} of {total}',
+  'preview.previous': 'Previous page',
+  'preview.next': 'Next page',
+  'preview.loading': 'Rendering page...',
+  'preview.page.cover': 'Cover',
+  'preview.page.dedication': 'Dedication',
+  'preview.page.coloring': 'Coloring page {number}',
+  'preview.page.paint-by-numbers': 'Paint by numbers {number}',
+  'preview.page.dot-to-dot': 'Dot to dot {number}',
+  'preview.page.back': 'Back cover',
+  'preview.watermark': 'PREVIEW',
+
+  'feature.instant.title': 'Instant download',
+  'feature.instant.desc': 'Your coloring book is ready to print in seconds',
+  'feature.gift.title': 'The perfect gift',
+  'feature.gift.desc': 'Surprise family & friends with personalized coloring books',
+  'feature.print.title': 'Print-ready',
+  'feature.print.desc': 'A4, A5 or US Letter, optimized for any printer',
+  'pricing.intro': 'Introductory price',
+  'pricing.price': '€4.99',
+  'pricing.per': 'per coloring book • instant download',
+
+  'editor.title': 'Edit photo',
+  'editor.tool.crop': 'Crop',
+  'editor.tool.subject': 'Mark subject',
+  'editor.tool.background': 'Mark background',
+  'editor.hint.crop': 'Drag a frame to crop',
+  'editor.hint.subject': 'Roughly paint over the subject (child, pet, ...)',
+  'editor.hint.background': 'Paint over background that should go',
+  'editor.original': 'Original',
+  'editor.preview': 'Preview',
+  'editor.previewing': 'Rendering preview...',
+  'editor.loadFailed': 'The photo could not be loaded',
+  'editor.previewFailed': 'Preview failed',
+  'editor.kind.coloring': 'Coloring page',
+  'editor.kind.paint-by-numbers': 'Paint by numbers',
+  'editor.kind.dot-to-dot': 'Dot to dot',
+  'editor.background': 'Background:',
+  'editor.background.blank': 'Leave out',
+  'editor.background.simplify': 'Simplify',
+  'editor.undoStroke': 'Remove last stroke',
+  'editor.clearMask': 'Clear marking',
+  'editor.detail': 'Detail',
+  'editor.contrast': 'Contrast',
+  'editor.rotateLeft': '⟲ Rotate left',
+  'editor.rotateRight': '⟳ Rotate right',
+  'editor.reset': 'Reset',
+  'editor.cancel': 'Cancel',
+  'editor.apply': 'Apply',
+
+  'api.nameAndPhotoRequired': 'A name and at least one photo are required',
+  'api.unknownBookType': 'Unknown book type (coloring, paint-by-numbers, dot-to-dot or both)',
+  'api.unknownDifficulty': 'Unknown difficulty (kleinkind, kind or erwachsene)',
+  'api.unknownPaperSize': 'Unknown paper size (A4, A5 or Letter)',
+  'api.marginRange': 'The margin must be between 0 and {max} mm',
+  'api.unknownSolutionMode': 'Unknown solution pages (none, inline or appendix)',
+  'api.unknownTheme': 'Unknown cover theme ({themes})',
+  'api.unknownLocale': 'Unknown language ({locales})',
+  'api.titleTooLong': 'The title may be at most {max} characters long',
+  'api.dedicationTooLong': 'The dedication may be at most {max} characters long',
+  'api.invalidCoverPhoto': 'Invalid cover photo (index of an uploaded photo expected)',
+  'api.tooManyPhotos': 'At most {max} photos allowed',
+  'api.generationFailed': 'Creating the book failed: {error}',
+  'api.jobNotFound': 'Job not found',
+  'api.bookNotReady': 'The coloring book is not ready yet',
+  'api.paymentRequired': 'Payment required',
+  'api.bookNotFound': 'Coloring book not found',
+  'api.orderNotFound': 'Order not found',
+  'api.orderAlreadyPaid': 'The order has already been paid',
+  'api.paymentsDisabled': 'Payments are not enabled',
+  'api.checkoutFailed': 'Payment failed: {error}',
+  'api.downloadInvalid': 'The download link is invalid or has expired',
+  'api.invalidEmail': 'Invalid email address',
+  'api.nameTooLong': 'The name can be at most {max} characters long',
+  'api.invalidUpload': 'Invalid upload: {field} must be a file',
+  'api.unsupportedFormat': '{file} is not a JPG, PNG or WEBP image',
+  'api.unreadableImage': '{file} is damaged or not a complete image',
+  'api.fileTooLarge': '{file} is larger than {max} MB',
+  'api.uploadTooLarge': 'The files are larger than {max} MB together',
+  'api.tooManyPixels': '{file} has more than {max} megapixels',
+  'api.rateLimited': 'Too many requests. Please try again in {minutes} minutes.',
+  'api.debugDisabled': 'Not found',
+  'api.debugUnauthorized': 'Debug token missing or invalid',
+  'api.unknownPreviewPage': 'Unknown preview page ({pages})',
+  'api.previewOnePhoto': 'A preview takes exactly one photo',
+  'api.dedicationRequired': 'Without a dedication there is no dedication page',
+  'api.pageManifestRequired': 'Preprocessed pages need a page list (pages)',
+  'api.pageManifestUnreadable': 'The page list (pages) is not a valid JSON array',
+  'api.invalidPageManifest': 'Invalid page list: {field} of page {page}',
+  'api.pageFileMissing': '{file} is missing from the upload',
+  'api.pageFileUnused': '{file} was uploaded but not assigned to any page',
+  'api.pageFormatMismatch': '{file} is not a {format} image as declared',
+  'api.captionTooLong': 'Captions may be at most {max} characters long',
+  'api.editsUnreadable': 'The photo edits (edits) are not a valid JSON array',
+  'api.editsCountMismatch': '{edits} photo edits for {photos} photos (one per photo expected)',
+  'api.invalidEdits': 'Invalid photo edit: {field} of photo {photo}',
+  'api.pageTemplateTooLong': 'The line on every page may be at most {max} characters long',
+  'api.unknownTemplatePlaceholder': 'Unknown placeholder {placeholder} (allowed: {placeholders})',
+  'api.unknownTemplatePosition': 'Unknown position of the page line (header or footer)',
+
+  'pdf.defaultTitle': "{name}'s Coloring Book",
+  'pdf.createdFor': 'Made for {name}',
+  'pdf.palette': 'Color palette:',
+  'pdf.solution': 'Solution:',
+  'pdf.solutionRef': 'Solution: page {page}',
+  'pdf.solutions': 'Solutions',
+  'pdf.pageCaption': 'Page {page}',
+  'pdf.imageFailed': 'The picture could not be loaded',
+  'theme.neutral.subtitle': 'A personalized coloring book',
+  'theme.geburtstag.subtitle': 'Happy Birthday!',
+  'theme.weihnachten.subtitle': 'Merry Christmas!',
+  'theme.ostern.subtitle': 'Happy Easter!',
+  'theme.einschulung.subtitle': 'Have fun at school!',
+
+  // Book email
+  'email.subject': 'Your coloring book for {name}',
+  'email.greeting': 'Hello,',
+  'email.bodyAttached': 'your coloring book for {name} is ready! It is attached as a PDF.',
+  'email.bodyLink': 'your coloring book for {name} is ready! It is too large to attach, you can download it here:',
+  'email.downloadButton': 'Download the coloring book',
+  'email.printTip': 'Tip: print the PDF at actual size (100%) so nothing gets cut off.',
+  'email.signature': 'Have fun coloring!\nThe Malbuch team',
+};
+
+const fr: Messages = {
+  'app.title': 'Générateur de cahiers de coloriage',
+  'app.language': 'Langue',
+  'hero.title': 'Ton cahier de coloriage personnalisé',
+  'hero.subtitle': 'Transforme tes photos en coloriages uniques et en modèles de peinture par numéros',
+
+  'form.name.label': 'Pour qui est le cahier de coloriage ?',
+  'form.name.placeholder': 'p. ex. Emma, Mamie, la famille Martin...',
+  'form.theme.label': 'Thème de la couverture',
+  'form.title.placeholder': 'Titre (par défaut : {title})',
+  'form.dedication.placeholder': 'Dédicace, p. ex. Pour Emma, de la part de Mamie (facultatif)',
+  'form.cover.hint': 'Avec ★ sur une photo, elle devient la photo de couverture.',
+  'form.pageTemplate.label': 'Ligne sur chaque page (facultatif)',
+  'form.pageTemplate.placeholder': 'Cahier de coloriage de {name} – page {n}',
+  'form.pageTemplate.hint': 'Espaces réservés : {name} pour le prénom, {n} pour le numéro de page, {pages} pour le nombre de pages. Les légendes se saisissent sous les photos.',
+  'templatePosition.footer': 'Pied de page (à la place du numéro)',
+  'templatePosition.header': 'En-tête',
+  'form.bookType.label': 'Quel type de cahier souhaites-tu ?',
+  'form.solutions.label': 'Solutions de la peinture par numéros et du point à point',
+  'form.difficulty.label': 'Pour quel âge ?',
+  'form.titleFont.label': 'Police du titre',
+  'form.titleFont.theme': 'Assortie au thème',
+  'form.paperSize.label': 'Format du papier',
+  'form.photos.label': 'Importer des photos (max. {max})',
+  'form.photos.drop': 'Glisse tes photos ici ou clique pour les choisir',
+  'form.photos.formats': 'JPG, PNG ou WEBP',
+  'form.email.label': 'Recevoir aussi le cahier par e-mail (facultatif)',
+  'form.email.placeholder': 'nom@exemple.fr',
+
+  'bookType.coloring.label': 'Coloriage',
+  'bookType.coloring.desc': 'Coloriages classiques',
+  'bookType.paint-by-numbers.label': 'Peinture par numéros',
+  'bookType.paint-by-numbers.desc': 'Avec numéros de couleur',
+  'bookType.dot-to-dot.label': 'Point à point',
+  'bookType.dot-to-dot.desc': 'Relier les points dans l’ordre',
+  'bookType.both.label': 'Les deux',
+  'bookType.both.desc': 'Coloriage et peinture par numéros',
+
+  'solutions.none': 'Pas de solutions',
+  'solutions.inline': 'Petite image de solution sur chaque page',
+  'solutions.appendix': 'Solutions en annexe',
+
+  'difficulty.kleinkind.label': 'Tout-petit',
+  'difficulty.kleinkind.desc': 'Peu de traits épais et de grandes surfaces',
+  'difficulty.kind.label': 'Enfant',
+  'difficulty.kind.desc': 'Détails équilibrés',
+  'difficulty.erwachsene.label': 'Adulte',
+  'difficulty.erwachsene.desc': 'Traits fins et nombreuses couleurs',
+
+  'titleFont.fredoka.desc': 'Ronde et sympathique',
+  'titleFont.baloo.desc': 'Grasse et ludique',
+  'titleFont.patrick-hand.desc': 'Comme écrite à la main',
+  'titleFont.nunito.desc': 'Simple et claire',
+
+  'paperSize.a4': 'A4 (210 × 297 mm)',
+  'paperSize.a5': 'A5 (148 × 210 mm)',
+  'paperSize.letter': 'US Letter (8,5 × 11 in)',
+
+  'theme.neutral.label': 'Neutre',
+  'theme.geburtstag.label': 'Anniversaire',
+  'theme.weihnachten.label': 'Noël',
+  'theme.ostern.label': 'Pâques',
+  'theme.einschulung.label': 'Rentrée scolaire',
+
+  'option.vector.label': 'Traits vectoriels',
+  'option.vector.desc': 'Des traits nets à toutes les tailles d’impression, fichier PDF plus léger',
+  'option.portrait.label': 'Portrait uniquement',
+  'option.portrait.desc': 'Les photos en paysage sont tournées sur la page au lieu d’être imprimées sur des pages paysage',
+  'option.blankBacks.label': 'Versos vierges',
+  'option.blankBacks.desc': 'Pour l’impression recto verso : les feutres ne traversent pas jusqu’à l’image suivante',
+  'option.booklet.label': 'Impression en livret',
+  'option.booklet.desc': 'Deux pages par feuille, imprimer en recto verso (bord court), plier et agrafer au milieu',
+
+  'photo.alt': 'Photo {number}',
+  'photo.edited': 'modifiée',
+  'photo.cover': 'Couverture',
+  'photo.setCover': 'Utiliser comme photo de couverture',
+  'photo.caption': 'Légende',
+  'photo.edit': 'Modifier',
+  'photo.remove': 'Supprimer',
+
+  'payment.confirming': 'Confirmation du paiement...',
+  'payment.cancelled': 'Le paiement a été annulé.',
+  'payment.pending': 'Le paiement n’est pas encore confirmé. Merci de recharger la page plus tard.',
+  'payment.redirect': 'Redirection vers le paiement...',
+  'payment.thanks': 'Merci pour ton achat !',
+  'payment.download': 'Télécharger le cahier de coloriage',
+
+  'status.converting': 'Traitement des images ({done} sur {total})...',
+  'status.uploading': 'Envoi des images...',
+  'status.working': 'Création en cours...',
+  'status.stage': '{stage} (page {page} sur {total})...',
+  'stage.decode': 'Lecture des photos',
+  'stage.convert': 'Conversion des images',
+  'stage.layout': 'Mise en page',
+  'stage.pdf': 'Création du PDF',
+
+  'button.generate.one': '🎨 Créer le cahier ({count} photo)',
+  'button.generate.other': '🎨 Créer le cahier ({count} photos)',
+  'button.cancel': 'Annuler',
+
+  'error.nameRequired': 'Merci de saisir un prénom',
+  'error.photoRequired': 'Merci de choisir au moins une photo',
+  'error.unknown': 'Erreur inconnue',
+  'error.server': 'Erreur du serveur : {status}',
+  'error.jobFailed': 'Échec de la création : {error}',
+  'email.status.sending': 'Envoi du cahier à {email}...',
+  'email.status.sent': 'Le cahier a été envoyé à {email}.',
+  'email.status.failed': 'L’e-mail à {email} n’a pas pu être envoyé. Télécharge le cahier.',
+  'preview.open': 'Aperçu du cahier',
+  'preview.close': 'Fermer l’aperçu',
+  'preview.hint': 'Chaque page telle qu’elle sera dans le cahier, en basse résolution et avec filigrane.',
+  'preview.position': '{current} sur {total}',
+  'preview.previous': 'Page précédente',
+  'preview.next': 'Page suivante',
+  'preview.loading': 'Création de la page...',
+  'preview.page.cover': 'Couverture',
+  'preview.page.dedication': 'Dédicace',
+  'preview.page.coloring': 'Coloriage {number}',
+  'preview.page.paint-by-numbers': 'Peinture par numéros {number}',
+  'preview.page.dot-to-dot': 'Point à point {number}',
+  'preview.page.back': 'Dos du cahier',
+  'preview.watermark': 'APERÇU',
+
+  'feature.instant.title': 'Téléchargement immédiat',
+  'feature.instant.desc': 'Ton cahier de coloriage est prêt à imprimer en quelques secondes',
+  'feature.gift.title': 'Le cadeau idéal',
+  'feature.gift.desc': 'Surprends ta famille et tes amis avec des cahiers de coloriage personnalisés',
+  'feature.print.title': 'Prêt à imprimer',
+  'feature.print.desc': 'A4, A5 ou US Letter, optimisé pour toutes les imprimantes',
+  'pricing.intro': 'Prix de lancement',
+  'pricing.price': '4,99 €',
+  'pricing.per': 'par cahier • téléchargement immédiat',
+
+  'editor.title': 'Modifier la photo',
+  'editor.tool.crop': 'Recadrer',
+  'editor.tool.subject': 'Marquer le sujet',
+  'editor.tool.background': 'Marquer l’arrière-plan',
+  'editor.hint.crop': 'Trace un cadre pour recadrer',
+  'editor.hint.subject': 'Peins grossièrement sur le sujet (enfant, animal, ...)',
+  'editor.hint.background': 'Peins sur l’arrière-plan à supprimer',
+  'editor.original': 'Original',
+  'editor.preview': 'Aperçu',
+  'editor.previewing': 'Calcul de l’aperçu...',
+  'editor.loadFailed': 'La photo n’a pas pu être chargée',
+  'editor.previewFailed': 'Échec de l’aperçu',
+  'editor.kind.coloring': 'Coloriage',
+  'editor.kind.paint-by-numbers': 'Peinture par numéros',
+  'editor.kind.dot-to-dot': 'Point à point',
+  'editor.background': 'Arrière-plan :',
+  'editor.background.blank': 'Supprimer',
+  'editor.background.simplify': 'Simplifier',
+  'editor.undoStroke': 'Annuler le dernier trait',
+  'editor.clearMask': 'Effacer le marquage',
+  'editor.detail': 'Détails',
+  'editor.contrast': 'Contraste',
+  'editor.rotateLeft': '⟲ Tourner à gauche',
+  'editor.rotateRight': '⟳ Tourner à droite',
+  'editor.reset': 'Réinitialiser',
+  'editor.cancel': 'Annuler',
+  'editor.apply': 'Appliquer',
+
+  'api.nameAndPhotoRequired': 'Un prénom et au moins une photo sont requis',
+  'api.unknownBookType': 'Type de cahier inconnu (coloring, paint-by-numbers, dot-to-dot ou both)',
+  'api.unknownDifficulty': 'Niveau de difficulté inconnu (kleinkind, kind ou erwachsene)',
+  'api.unknownPaperSize': 'Format de papier inconnu (A4, A5 ou Letter)',
+  'api.marginRange': 'La marge doit être comprise entre 0 et {max} mm',
+  'api.unknownSolutionMode': 'Pages de solutions inconnues (none, inline ou appendix)',
+  'api.unknownTheme': 'Thème de couverture inconnu ({themes})',
+  'api.unknownLocale': 'Langue inconnue ({locales})',
+  'api.titleTooLong': 'Le titre ne doit pas dépasser {max} caractères',
+  'api.dedicationTooLong': 'La dédicace ne doit pas dépasser {max} caractères',
+  'api.invalidCoverPhoto': 'Photo de couverture invalide (index d’une photo importée attendu)',
+  'api.tooManyPhotos': '{max} photos au maximum',
+  'api.generationFailed': 'Échec de la création : {error}',
+  'api.jobNotFound': 'Tâche introuvable',
+  'api.bookNotReady': 'Le cahier de coloriage n’est pas encore prêt',
+  'api.paymentRequired': 'Paiement requis',
+  'api.bookNotFound': 'Cahier de coloriage introuvable',
+  'api.orderNotFound': 'Commande introuvable',
+  'api.orderAlreadyPaid': 'La commande est déjà payée',
+  'api.paymentsDisabled': 'Les paiements ne sont pas activés',
+  'api.checkoutFailed': 'Échec du paiement : {error}',
+  'api.downloadInvalid': 'Le lien de téléchargement est invalide ou a expiré',
+  'api.invalidEmail': 'Adresse e-mail invalide',
+  'api.nameTooLong': 'Le prénom ne peut pas dépasser {max} caractères',
+  'api.invalidUpload': 'Envoi invalide : {field} doit être un fichier',
+  'api.unsupportedFormat': '{file} n’est pas une image JPG, PNG ou WEBP',
+  'api.unreadableImage': '{file} est endommagé ou incomplet',
+  'api.fileTooLarge': '{file} dépasse {max} Mo',
+  'api.uploadTooLarge': 'Les fichiers dépassent {max} Mo au total',
+  'api.tooManyPixels': '{file} dépasse {max} mégapixels',
+  'api.rateLimited': 'Trop de demandes. Réessaie dans {minutes} minutes.',
+  'api.debugDisabled': 'Introuvable',
+  'api.debugUnauthorized': 'Jeton de débogage manquant ou invalide',
+  'api.unknownPreviewPage': 'Page d’aperçu inconnue ({pages})',
+  'api.previewOnePhoto': 'L’aperçu demande exactement une photo',
+  'api.dedicationRequired': 'Sans dédicace, il n’y a pas de page de dédicace',
+  'api.pageManifestRequired': 'Les pages prétraitées demandent une liste de pages (pages)',
+  'api.pageManifestUnreadable': 'La liste de pages (pages) n’est pas un tableau JSON valide',
+  'api.invalidPageManifest': 'Liste de pages invalide : {field} de la page {page}',
+  'api.pageFileMissing': '{file} manque dans l’envoi',
+  'api.pageFileUnused': '{file} a été envoyé mais n’est associé à aucune page',
+  'api.pageFormatMismatch': '{file} n’est pas une image {format} comme indiqué',
+  'api.captionTooLong': 'Les légendes ne doivent pas dépasser {max} caractères',
+  'api.editsUnreadable': 'Les retouches (edits) ne sont pas un tableau JSON valide',
+  'api.editsCountMismatch': '{edits} retouches pour {photos} photos (une par photo attendue)',
+  'api.invalidEdits': 'Retouche invalide : {field} de la photo {photo}',
+  'api.pageTemplateTooLong': 'La ligne sur chaque page ne doit pas dépasser {max} caractères',
+  'api.unknownTemplatePlaceholder': 'Espace réservé inconnu {placeholder} (autorisés : {placeholders})',
+  'api.unknownTemplatePosition': 'Position inconnue de la ligne de page (header ou footer)',
+
+  'pdf.defaultTitle': 'Le cahier de coloriage de {name}',
+  'pdf.createdFor': 'Créé pour {name}',
+  'pdf.palette': 'Palette de couleurs :',
+  'pdf.solution': 'Solution :',
+  'pdf.solutionRef': 'Solution : page {page}',
+  'pdf.solutions': 'Solutions',
+  'pdf.pageCaption': 'Page {page}',
+  'pdf.imageFailed': 'L’image n’a pas pu être chargée',
+  'theme.neutral.subtitle': 'Un cahier de coloriage personnalisé',
+  'theme.geburtstag.subtitle': 'Joyeux anniversaire !',
+  'theme.weihnachten.subtitle': 'Joyeux Noël !',
+  'theme.ostern.subtitle': 'Joyeuses Pâques !',
+  'theme.einschulung.subtitle': 'Bonne rentrée !',
+
+  // Book email
+  'email.subject': 'Ton cahier de coloriage pour {name}',
+  'email.greeting': 'Bonjour,',
+  'email.bodyAttached': 'ton cahier de coloriage pour {name} est prêt ! Il est joint en PDF.',
+  'email.bodyLink': 'ton cahier de coloriage pour {name} est prêt ! Il est trop volumineux pour une pièce jointe, tu peux le télécharger ici :',
+  'email.downloadButton': 'Télécharger le cahier',
+  'email.printTip': 'Astuce : imprime le PDF en taille réelle (100 %) pour que rien ne soit coupé.',
+  'email.signature': 'Amuse-toi bien !\nL’équipe Malbuch',
+};
+
+export const MESSAGES = { de, en, fr };
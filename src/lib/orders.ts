@@ -0,0 +1,194 @@
+/**
+ * Orders for paid book downloads
+ * A generated PDF is stored under an order and only released once the
+ * Stripe webhook has marked the order paid.
+ */
+
+import { randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { EmailDelivery, publicBaseUrl, sendBookEmail } from './email';
+import { DEFAULT_LOCALE, Locale } from './i18n';
+
+export type OrderStatus = 'pending' | 'paid';
+
+export interface Order {
+  id: string;
+  name: string;
+  status: OrderStatus;
+  createdAt: string;
+  checkoutSessionId?: string;
+  paidAt?: string;
+  downloadToken?: string;
+  downloadExpiresAt?: string;
+  /** Where to send the book once paid */
+  email?: string;
+  locale?: Locale;
+  emailDelivery?: EmailDelivery;
+}
+
+export interface OrderStore {
+  create(order: Order, pdf: Buffer): Promise<void>;
+  get(id: string): Promise<Order | null>;
+  update(order: Order): Promise<void>;
+  getPdf(id: string): Promise<Buffer | null>;
+}
+
+/** How long a download link stays valid after payment */
+const DOWNLOAD_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const ORDER_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+/**
+ * Orders as JSON + PDF files in a local directory
+ */
+export class FileOrderStore implements OrderStore {
+  constructor(private readonly dir: string) {}
+
+  private file(id: string, ext: 'json' | 'pdf'): string {
+    // Ids come from URLs; never let them escape the store directory
+    if (!ORDER_ID_PATTERN.test(id)) throw new Error('Invalid order id');
+    return path.join(this.dir, `${id}.${ext}`);
+  }
+
+  async create(order: Order, pdf: Buffer): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.file(order.id, 'pdf'), pdf);
+    await writeFile(this.file(order.id, 'json'), JSON.stringify(order, null, 2));
+  }
+
+  async get(id: string): Promise<Order | null> {
+    if (!ORDER_ID_PATTERN.test(id)) return null;
+    try {
+      return JSON.parse(await readFile(this.file(id, 'json'), 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  async update(order: Order): Promise<void> {
+    await writeFile(this.file(order.id, 'json'), JSON.stringify(order, null, 2));
+  }
+
+  async getPdf(id: string): Promise<Buffer | null> {
+    if (!ORDER_ID_PATTERN.test(id)) return null;
+    try {
+      return await readFile(this.file(id, 'pdf'));
+    } catch {
+      return null;
+    }
+  }
+}
+
+let store: OrderStore | null = null;
+
+/**
+ * Directory of the order store
+ * The temp-dir default is for development only: serverless function runs and
+ * redeploys don't keep it, and paid books would be lost with it.
+ */
+export function orderStoreDir(env: Record<string, string | undefined> = process.env): string {
+  if (env.ORDER_STORE_DIR) return env.ORDER_STORE_DIR;
+  if (env.NODE_ENV === 'production') {
+    throw new Error('ORDER_STORE_DIR must point to durable storage when payments are enabled in production');
+  }
+  return path.join(os.tmpdir(), 'malbuch-orders');
+}
+
+export function getOrderStore(): OrderStore {
+  if (!store) {
+    store = new FileOrderStore(orderStoreDir());
+  }
+  return store;
+}
+
+/**
+ * Store a finished book as a new unpaid order
+ */
+export async function createOrder(
+  name: string,
+  pdf: Buffer,
+  delivery: Pick<Order, 'email' | 'locale'> = {}
+): Promise<Order> {
+  const order: Order = {
+    id: randomUUID(),
+    name,
+    status: 'pending',
+    createdAt: new Date().toISOString(),
+    ...delivery,
+  };
+  await getOrderStore().create(order, pdf);
+  return order;
+}
+
+/**
+ * Mark an order paid and issue its download token (idempotent for webhook retries)
+ */
+export async function markOrderPaid(id: string, checkoutSessionId: string): Promise<Order | null> {
+  const orders = getOrderStore();
+  const order = await orders.get(id);
+  if (!order) return null;
+  if (order.status === 'paid') return order;
+
+  const paidAt = new Date();
+  const paid: Order = {
+    ...order,
+    status: 'paid',
+    checkoutSessionId,
+    paidAt: paidAt.toISOString(),
+    downloadToken: randomBytes(32).toString('hex'),
+    downloadExpiresAt: new Date(paidAt.getTime() + DOWNLOAD_TTL_MS).toISOString(),
+  };
+  await orders.update(paid);
+  return paid;
+}
+
+/**
+ * Check a download token against a paid, unexpired order
+ */
+export function isValidDownloadToken(order: Order, token: string): boolean {
+  if (order.status !== 'paid' || !order.downloadToken || !order.downloadExpiresAt) return false;
+  if (Date.parse(order.downloadExpiresAt) < Date.now()) return false;
+
+  const expected = Buffer.from(order.downloadToken);
+  const given = Buffer.from(token);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+/**
+ * Email the book of a paid order in the background (once per order)
+ * Returns after the delivery is recorded as 'sending'; the outcome lands on
+ * the order's emailDelivery.
+ */
+export async function startOrderEmail(order: Order, origin?: string): Promise<void> {
+  if (!order.email || order.emailDelivery || order.status !== 'paid') return;
+
+  const orders = getOrderStore();
+  const pdf = await orders.getPdf(order.id);
+  if (!pdf) return;
+
+  const record = async (emailDelivery: EmailDelivery) => {
+    const current = await orders.get(order.id);
+    if (current) await orders.update({ ...current, emailDelivery });
+  };
+  await record({ to: order.email, status: 'sending', attempts: 0 });
+
+  const base = publicBaseUrl(origin);
+  const email = {
+    to: order.email,
+    name: order.name,
+    locale: order.locale || DEFAULT_LOCALE,
+    pdf,
+    downloadUrl: base ? `${base}/api/download?order=${order.id}&token=${order.downloadToken}` : undefined,
+  };
+
+  // Not awaited: Stripe expects a quick webhook response
+  sendBookEmail(email, record)
+    .then(async delivery => {
+      await record(delivery);
+      if (delivery.status === 'failed') console.error(`Email for order ${order.id} failed: ${delivery.error}`);
+      else console.log(`Order ${order.id} emailed to ${order.email}`);
+    })
+    .catch(error => console.error(`Email for order ${order.id} crashed:`, error));
+}
@@ -0,0 +1,190 @@
+/**
+ * Paper sizes and image placement for the PDF
+ * All measurements in mm, origin top-left like jsPDF.
+ */
+
+export type PaperSize = 'a4' | 'a5' | 'letter';
+
+export type PageOrientation = 'portrait' | 'landscape';
+
+/** Portrait width × height */
+export const PAPER_SIZES: Record<PaperSize, { label: string; width: number; height: number }> = {
+  a4: { label: 'A4', width: 210, height: 297 },
+  a5: { label: 'A5', width: 148, height: 210 },
+  letter: { label: 'US Letter', width: 215.9, height: 279.4 },
+};
+
+export interface PageMargins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export const DEFAULT_MARGIN = 15;
+
+/** Margins must leave most of the page printable */
+export const MAX_MARGIN = 40;
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImagePlacement extends Box {
+  /** Image turned 90° counterclockwise (its top edge on the left) */
+  rotated: boolean;
+}
+
+export function isPaperSize(value: unknown): value is PaperSize {
+  return typeof value === 'string' && value in PAPER_SIZES;
+}
+
+/**
+ * Fill in missing sides with the default margin
+ */
+export function resolveMargins(margins: Partial<PageMargins> = {}): PageMargins {
+  return {
+    top: margins.top ?? DEFAULT_MARGIN,
+    right: margins.right ?? DEFAULT_MARGIN,
+    bottom: margins.bottom ?? DEFAULT_MARGIN,
+    left: margins.left ?? DEFAULT_MARGIN,
+  };
+}
+
+/**
+ * Page dimensions for a paper size in the given orientation
+ */
+export function pageDimensions(paperSize: PaperSize, orientation: PageOrientation): { width: number; height: number } {
+  const { width, height } = PAPER_SIZES[paperSize];
+  return orientation === 'portrait' ? { width, height } : { width: height, height: width };
+}
+
+/**
+ * Scale an image into a box without distorting it, centered
+ * A landscape image in a portrait box is rotated when `rotate` is set.
+ */
+export function fitImage(imageWidth: number, imageHeight: number, box: Box, rotate = false): ImagePlacement {
+  const rotated = rotate && imageWidth > imageHeight && box.height > box.width;
+  const width = rotated ? imageHeight : imageWidth;
+  const height = rotated ? imageWidth : imageHeight;
+
+  const scale = Math.min(box.width / width, box.height / height);
+  const drawnWidth = width * scale;
+  const drawnHeight = height * scale;
+
+  return {
+    x: box.x + (box.width - drawnWidth) / 2,
+    y: box.y + (box.height - drawnHeight) / 2,
+    width: drawnWidth,
+    height: drawnHeight,
+    rotated,
+  };
+}
+
+/** Palette swatch edge */
+export const SWATCH_SIZE = 8;
+
+export interface InteriorLayout {
+  /** Printable area left for the picture */
+  area: Box;
+  /** Color legend: caption center and one swatch per color, numbers go below */
+  legend: { captionX: number; captionY: number; swatches: Box[] } | null;
+  /** Inline solution thumbnail: caption center and its box, right of the legend */
+  solution: { captionX: number; captionY: number; box: Box } | null;
+  /** Page caption: baseline center, right below the picture area */
+  caption: { x: number; y: number } | null;
+}
+
+/** Room for the page caption under the picture */
+const CAPTION_HEIGHT = 8;
+
+/**
+ * Where the picture, palette legend and inline solution of an interior page
+ * go, relative to the page's top-left corner
+ * Legend and solution share a band along the bottom margin, a caption
+ * takes a line between it and the picture.
+ */
+export function interiorLayout(
+  width: number,
+  height: number,
+  margins: PageMargins,
+  colors: number,
+  inlineSolution: boolean,
+  caption: boolean = false
+): InteriorLayout {
+  const areaWidth = width - margins.left - margins.right;
+  const solutionWidth = inlineSolution ? Math.min(50, areaWidth * 0.3) : 0;
+  const solutionHeight = solutionWidth * 0.75;
+  const legendWidth = areaWidth - (inlineSolution ? solutionWidth + 5 : 0);
+
+  const swatchStep = SWATCH_SIZE + 4;
+  const rowHeight = SWATCH_SIZE + 6;
+  const perRow = Math.max(1, Math.floor(legendWidth / swatchStep));
+  const rows = Math.ceil(colors / perRow);
+  const paletteHeight = rows ? 5 + rows * rowHeight : 0;
+  const bottomHeight = Math.max(paletteHeight, inlineSolution ? solutionHeight + 5 : 0);
+  const bottomTop = height - margins.bottom - bottomHeight;
+  const paletteTop = bottomTop + bottomHeight - paletteHeight;
+
+  const swatches: Box[] = [];
+  for (let idx = 0; idx < colors; idx++) {
+    const row = Math.floor(idx / perRow);
+    const inRow = Math.min(perRow, colors - row * perRow);
+    const startX = margins.left + (legendWidth - inRow * swatchStep) / 2;
+    swatches.push({
+      x: startX + (idx % perRow) * swatchStep,
+      y: paletteTop + 5 + row * rowHeight,
+      width: SWATCH_SIZE,
+      height: SWATCH_SIZE,
+    });
+  }
+
+  const solutionX = width - margins.right - solutionWidth;
+  const areaHeight = bottomTop - margins.top - (bottomHeight ? 3 : 0) - (caption ? CAPTION_HEIGHT : 0);
+  return {
+    area: {
+      x: margins.left,
+      y: margins.top,
+      width: areaWidth,
+      height: areaHeight,
+    },
+    legend: colors ? { captionX: margins.left + legendWidth / 2, captionY: paletteTop + 2, swatches } : null,
+    solution: inlineSolution
+      ? {
+        captionX: solutionX + solutionWidth / 2,
+        captionY: bottomTop + 2,
+        box: { x: solutionX, y: bottomTop + 5, width: solutionWidth, height: solutionHeight },
+      }
+      : null,
+    caption: caption ? { x: margins.left + areaWidth / 2, y: margins.top + areaHeight + CAPTION_HEIGHT - 2.5 } : null,
+  };
+}
+
+/**
+ * Page size of a booklet folded from one sheet: half the landscape sheet
+ */
+export function bookletPageDimensions(paperSize: PaperSize): { width: number; height: number } {
+  const { width, height } = PAPER_SIZES[paperSize];
+  return { width: height / 2, height: width };
+}
+
+/**
+ * Saddle-stitch order: for each sheet side (front, back, next sheet...) the
+ * page indices printed on its left and right half
+ * `pageCount` must be a multiple of 4; the first and last page end up on the
+ * outside of the first sheet.
+ */
+export function saddleStitchOrder(pageCount: number): [number, number][] {
+  if (pageCount % 4 !== 0) throw new Error('Booklet page count must be a multiple of 4');
+
+  const sides: [number, number][] = [];
+  for (let sheet = 0; sheet < pageCount / 4; sheet++) {
+    const outer = sheet * 2;
+    sides.push([pageCount - 1 - outer, outer]);
+    sides.push([outer + 1, pageCount - 2 - outer]);
+  }
+  return sides;
+}
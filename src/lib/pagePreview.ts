@@ -0,0 +1,359 @@
+/**
+ * Low-resolution PNG previews of single book pages, watermarked so they
+ * can't stand in for the book
+ * Interior pages use the PDF's layout (interiorLayout), so picture, palette
+ * legend and inline solution sit where the book puts them. Text is set in
+ * jimp's bitmap Open Sans, and covers get the theme's colors and a plain
+ * frame; title fonts and ornaments are only drawn in the PDF.
+ */
+
+import path from 'path';
+import { Jimp, JimpInstance, loadFont, measureText } from 'jimp';
+import { BookRequest, BookRequestError, photoPreset } from './bookBuilder';
+import { decodePhoto, imageToColoringPage, imageToDotToDot, imageToPaintByNumbers, photoToCoverImage } from './imageProcessor';
+import {
+  bookletPageDimensions,
+  fitImage,
+  interiorLayout,
+  pageDimensions,
+  resolveMargins,
+  Box,
+  ImagePlacement,
+  PageOrientation,
+} from './pageLayout';
+import { isPageType, pageTemplateText, PageType } from './pdfGenerator';
+import { COVER_THEMES, Rgb } from './coverThemes';
+import { t } from './i18n';
+
+export type PreviewPage = 'cover' | 'dedication' | PageType | 'back';
+
+export const PREVIEW_PAGES: PreviewPage[] = ['cover', 'dedication', 'coloring', 'paint-by-numbers', 'dot-to-dot', 'back'];
+
+export function isPreviewPage(value: unknown): value is PreviewPage {
+  return typeof value === 'string' && (PREVIEW_PAGES as string[]).includes(value);
+}
+
+/** Preview resolution: an A4 page comes out at about 500 × 710 px */
+const PX_PER_MM = 2.4;
+
+/** 1pt = 0.3528 mm */
+const PT = 0.3528;
+
+const FONT_DIR = 'node_modules/@jimp/plugin-print/dist/fonts/open-sans';
+
+/** Pixel sizes of the bundled bitmap fonts */
+const FONT_SIZES = [8, 10, 12, 14, 16, 32, 64];
+
+type Font = Awaited<ReturnType<typeof loadFont>>;
+
+/** A decoded picture to place on the page */
+type Picture = Awaited<ReturnType<typeof Jimp.fromBuffer>>;
+
+// Bitmap fonts, loaded once per process
+const fontCache = new Map<number, Promise<Font>>();
+
+function font(size: number): Promise<Font> {
+  let loaded = fontCache.get(size);
+  if (!loaded) {
+    const name = `open-sans-${size}-black`;
+    loaded = loadFont(path.join(process.cwd(), FONT_DIR, name, `${name}.fnt`));
+    loaded.catch(() => fontCache.delete(size));
+    fontCache.set(size, loaded);
+  }
+  return loaded;
+}
+
+const px = (mm: number) => Math.round(mm * PX_PER_MM);
+
+interface TextStyle {
+  /** Font size in pt, as in the PDF */
+  size: number;
+  color: Rgb;
+  /** Wrap into lines of at most this width (mm) */
+  maxWidth?: number;
+  align?: 'left' | 'center' | 'right';
+}
+
+/**
+ * The bitmap fonts only cover ASCII: letters lose their accents ("Jörg" →
+ * "Jorg"), typographic quotes and dashes get their plain forms, anything
+ * else a question mark
+ */
+function bitmapText(text: string, bitmapFont: Font): string {
+  return Array.from(text, char => {
+    if (bitmapFont.chars[char]) return char;
+    if (char === 'ß') return 'ss';
+    if (/[‘’‚]/.test(char)) return "'";
+    if (/[“”„]/.test(char)) return '"';
+    if (/[–—]/.test(char)) return '-';
+    const plain = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    return plain && bitmapFont.chars[plain] ? plain : '?';
+  }).join('');
+}
+
+function wrapText(text: string, bitmapFont: Font, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && measureText(bitmapFont, `${last} ${word}`) <= maxWidth) {
+      lines[lines.length - 1] = `${last} ${word}`;
+    } else {
+      lines.push(word);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Closest bitmap font for the style's size and the text split into lines
+ */
+async function textLines(text: string, style: TextStyle): Promise<{ bitmapFont: Font; lines: string[] }> {
+  const sizePx = style.size * PT * PX_PER_MM;
+  const fontSize = FONT_SIZES.reduce((best, size) => (Math.abs(size - sizePx) < Math.abs(best - sizePx) ? size : best));
+  const bitmapFont = await font(fontSize);
+  const printable = bitmapText(text, bitmapFont);
+  return { bitmapFont, lines: style.maxWidth ? wrapText(printable, bitmapFont, px(style.maxWidth)) : [printable] };
+}
+
+/**
+ * Draw text with its first baseline at (x, y) mm, like jsPDF's text()
+ * Returns the number of lines.
+ */
+async function drawText(image: JimpInstance, text: string, x: number, y: number, style: TextStyle): Promise<number> {
+  const { bitmapFont, lines } = await textLines(text, style);
+  // The fonts' baseline sits at about 80% of the line height
+  const base = Math.round(bitmapFont.common.lineHeight * 0.8);
+  const align = style.align || 'center';
+
+  for (let i = 0; i < lines.length; i++) {
+    const width = Math.max(1, measureText(bitmapFont, lines[i]));
+    const layer = new Jimp({ width: width + 4, height: bitmapFont.common.lineHeight + 4, color: 0x00000000 });
+    layer.print({ font: bitmapFont, x: 2, y: 2, text: lines[i] });
+    layer.scan((_x, _y, idx) => {
+      layer.bitmap.data[idx] = style.color[0];
+      layer.bitmap.data[idx + 1] = style.color[1];
+      layer.bitmap.data[idx + 2] = style.color[2];
+    });
+    const left = align === 'left' ? px(x) : align === 'right' ? px(x) - width : px(x) - width / 2;
+    const baseline = px(y + i * style.size * PT * 1.15);
+    image.composite(layer, Math.round(left) - 2, baseline - base - 2);
+  }
+  return lines.length;
+}
+
+function fillRect(image: JimpInstance, box: Box, color: Rgb) {
+  const x = Math.max(0, px(box.x));
+  const y = Math.max(0, px(box.y));
+  const width = Math.min(image.bitmap.width, px(box.x + box.width)) - x;
+  const height = Math.min(image.bitmap.height, px(box.y + box.height)) - y;
+  if (width <= 0 || height <= 0) return;
+  image.scan(x, y, width, height, (_x, _y, idx) => {
+    image.bitmap.data[idx] = color[0];
+    image.bitmap.data[idx + 1] = color[1];
+    image.bitmap.data[idx + 2] = color[2];
+    image.bitmap.data[idx + 3] = 255;
+  });
+}
+
+function strokeRect(image: JimpInstance, box: Box, color: Rgb, lineWidth: number) {
+  // At least one pixel, so hairlines stay visible at preview size
+  const w = Math.max(lineWidth, 1 / PX_PER_MM);
+  const { x, y, width, height } = box;
+  fillRect(image, { x: x - w / 2, y: y - w / 2, width: width + w, height: w }, color);
+  fillRect(image, { x: x - w / 2, y: y + height - w / 2, width: width + w, height: w }, color);
+  fillRect(image, { x: x - w / 2, y: y - w / 2, width: w, height: height + w }, color);
+  fillRect(image, { x: x + width - w / 2, y: y - w / 2, width: w, height: height + w }, color);
+}
+
+/**
+ * Scale an image into its placement; rotated placements turn it counterclockwise like the PDF
+ */
+function drawImage(image: JimpInstance, picture: Picture, placement: ImagePlacement) {
+  const turned = placement.rotated ? picture.rotate(90) : picture;
+  turned.resize({ w: Math.max(1, px(placement.width)), h: Math.max(1, px(placement.height)) });
+  image.composite(turned, px(placement.x), px(placement.y));
+}
+
+/**
+ * Translated "PREVIEW", three times diagonally across the page
+ */
+async function drawWatermark(image: JimpInstance, text: string) {
+  const bitmapFont = await font(64);
+  const printable = bitmapText(text, bitmapFont);
+  const layer = new Jimp({ width: measureText(bitmapFont, printable) + 8, height: bitmapFont.common.lineHeight + 8, color: 0x00000000 });
+  layer.print({ font: bitmapFont, x: 4, y: 4, text: printable });
+  layer.scan((_x, _y, idx) => {
+    layer.bitmap.data[idx] = 120;
+    layer.bitmap.data[idx + 1] = 120;
+    layer.bitmap.data[idx + 2] = 120;
+  });
+  const { width, height } = image.bitmap;
+  layer.resize({ w: Math.round(Math.min(width, height) * 0.8) });
+  layer.rotate(30);
+  for (const share of [0.2, 0.5, 0.8]) {
+    image.composite(
+      layer,
+      Math.round((width - layer.bitmap.width) / 2),
+      Math.round(height * share - layer.bitmap.height / 2),
+      { opacitySource: 0.22 }
+    );
+  }
+}
+
+function blankPage(width: number, height: number, color: Rgb = [255, 255, 255]): JimpInstance {
+  const [r, g, b] = color;
+  return new Jimp({ width: px(width), height: px(height), color: ((r << 24) | (g << 16) | (b << 8) | 0xff) >>> 0 });
+}
+
+/**
+ * The converted picture of a preview: the uploaded page as its manifest
+ * describes it (preprocessed) or converted from the raw photo with the
+ * book's settings
+ */
+async function convertedPage(
+  request: BookRequest,
+  type: PageType
+): Promise<{ image: Buffer; palette?: string[]; solution?: Buffer; caption?: string }> {
+  if (request.preprocessed) {
+    const [page] = request.pages;
+    return { image: page.image, palette: page.colorPalette, solution: page.solution, caption: page.caption };
+  }
+
+  const { preset } = photoPreset(request, 0);
+  const decoded = await decodePhoto(request.photos[0], preset.maxDimension, request.edits[0] || {});
+  const caption = request.captions[0] || undefined;
+  if (type === 'coloring') {
+    return { image: (await imageToColoringPage(decoded, preset.coloring)).image, caption };
+  }
+  if (type === 'dot-to-dot') {
+    const { image, solution } = await imageToDotToDot(decoded, preset.dotToDot);
+    return { image, solution, caption };
+  }
+  const { image, palette, solution } = await imageToPaintByNumbers(decoded, preset.paintByNumbers);
+  return { image, palette, solution, caption };
+}
+
+/**
+ * Render one page of the book a request would produce, from its first photo
+ * `position` numbers interior pages for the page template (default: page 1 of 1).
+ */
+export async function renderPreview(
+  request: BookRequest,
+  page: PreviewPage,
+  position: { page: number; pages: number } = { page: 1, pages: 1 }
+): Promise<Buffer> {
+  const { locale, name } = request;
+  const style = COVER_THEMES[request.theme];
+  const pageSize = (orientation: PageOrientation) => request.booklet
+    ? bookletPageDimensions(request.paperSize)
+    : pageDimensions(request.paperSize, orientation);
+  const { width, height } = pageSize('portrait');
+  const smallPage = width < 180;
+  let image: JimpInstance;
+
+  if (isPageType(page)) {
+    const { image: picture, palette, solution, caption } = await convertedPage(request, page);
+    const source = await Jimp.fromBuffer(picture);
+    const landscape = source.bitmap.width > source.bitmap.height;
+    const orientation = !request.booklet && !request.portraitOnly && landscape ? 'landscape' : 'portrait';
+    const { width: pageWidth, height: pageHeight } = pageSize(orientation);
+    const margin = request.margin;
+    const margins = resolveMargins(margin === undefined ? {} : { top: margin, right: margin, bottom: margin, left: margin });
+    const inlineSolution = request.solutionMode === 'inline' && !!solution;
+    const layout = interiorLayout(pageWidth, pageHeight, margins, palette?.length || 0, inlineSolution, !!caption);
+
+    image = blankPage(pageWidth, pageHeight);
+    const rotate = request.portraitOnly || request.booklet;
+    drawImage(image, source, fitImage(source.bitmap.width, source.bitmap.height, layout.area, rotate));
+
+    if (request.pageTemplate) {
+      const line = pageTemplateText(request.pageTemplate, name, position.page, position.pages);
+      const y = request.templatePosition === 'header'
+        ? Math.max(7, margins.top - 5)
+        : pageHeight - Math.max(4, margins.bottom - 5);
+      await drawText(image, line, pageWidth / 2, y, { size: 11, color: [110, 110, 110] });
+    }
+
+    if (caption && layout.caption) {
+      await drawText(image, caption, layout.caption.x, layout.caption.y, { size: 11, color: [80, 80, 80] });
+    }
+
+    if (palette && layout.legend) {
+      await drawText(image, t(locale, 'pdf.palette'), layout.legend.captionX, layout.legend.captionY, { size: 8, color: [100, 100, 100] });
+      for (let idx = 0; idx < palette.length; idx++) {
+        const swatch = layout.legend.swatches[idx];
+        const color = palette[idx];
+        fillRect(image, swatch, [parseInt(color.slice(1, 3), 16), parseInt(color.slice(3, 5), 16), parseInt(color.slice(5, 7), 16)]);
+        strokeRect(image, swatch, [100, 100, 100], 0.2);
+        await drawText(image, `${idx + 1}`, swatch.x + swatch.width / 2, swatch.y + swatch.height + 4, { size: 8, color: [60, 60, 60] });
+      }
+    }
+
+    if (inlineSolution && layout.solution && solution) {
+      const { captionX, captionY, box } = layout.solution;
+      await drawText(image, t(locale, 'pdf.solution'), captionX, captionY, { size: 8, color: [100, 100, 100] });
+      const thumbnail = await Jimp.fromBuffer(solution);
+      const placement = fitImage(thumbnail.bitmap.width, thumbnail.bitmap.height, box);
+      drawImage(image, thumbnail, placement);
+      strokeRect(image, placement, [180, 180, 180], 0.2);
+    }
+  } else if (page === 'cover') {
+    image = blankPage(width, height, style.background);
+    strokeRect(image, { x: 12, y: 12, width: width - 24, height: height - 24 }, style.accent, 1);
+
+    let coverImage = request.coverImage;
+    if (!coverImage && request.coverPhoto !== undefined) {
+      coverImage = await photoToCoverImage(request.photos[request.coverPhoto], request.edits[request.coverPhoto] || {});
+    }
+
+    const titleSize = smallPage ? 28 : 36;
+    const titleTop = height * (coverImage ? 0.27 : 1 / 3);
+    const title = request.title || t(locale, 'pdf.defaultTitle', { name });
+    const titleLines = await drawText(image, title, width / 2, titleTop, { size: titleSize, color: style.text, maxWidth: width - 60 });
+    const titleBottom = titleTop + (titleLines - 1) * titleSize * PT * 1.15;
+    const subtitle = t(locale, `theme.${request.theme}.subtitle`);
+    const subtitleStyle = { size: smallPage ? 14 : 18, color: style.text };
+
+    if (coverImage) {
+      const photo = await Jimp.fromBuffer(coverImage);
+      const frameWidth = width * 0.015;
+      const placement = fitImage(photo.bitmap.width, photo.bitmap.height, {
+        x: 30 + frameWidth,
+        y: titleBottom + 10 + frameWidth,
+        width: width - 60 - frameWidth * 2,
+        height: height * 0.76 - titleBottom - 10 - frameWidth * 2,
+      });
+      const frame = {
+        x: placement.x - frameWidth,
+        y: placement.y - frameWidth,
+        width: placement.width + frameWidth * 2,
+        height: placement.height + frameWidth * 2,
+      };
+      fillRect(image, frame, [255, 255, 255]);
+      strokeRect(image, frame, style.accent, 0.3);
+      drawImage(image, photo, placement);
+      await drawText(image, subtitle, width / 2, placement.y + placement.height + frameWidth + 12, subtitleStyle);
+    } else {
+      await drawText(image, subtitle, width / 2, titleBottom + 20, subtitleStyle);
+    }
+  } else if (page === 'dedication') {
+    if (!request.dedication) throw new BookRequestError('api.dedicationRequired');
+    image = blankPage(width, height);
+    const fontSize = smallPage ? 16 : 20;
+    const textStyle = { size: fontSize, color: style.text, maxWidth: width - 80 };
+    // The block is centered around 40% of the page height
+    const { lines } = await textLines(request.dedication, textStyle);
+    const blockHeight = (lines.length - 1) * fontSize * PT * 1.15;
+    const top = height * 0.4 - blockHeight / 2;
+    await drawText(image, request.dedication, width / 2, top, textStyle);
+    fillRect(image, { x: width / 2 - 15, y: top - 14 - 0.3, width: 30, height: 0.6 }, style.accent);
+    fillRect(image, { x: width / 2 - 15, y: top + blockHeight + 10 - 0.3, width: 30, height: 0.6 }, style.accent);
+  } else {
+    image = blankPage(width, height, style.background);
+    await drawText(image, t(locale, 'pdf.createdFor', { name }), width / 2, height / 2, { size: 14, color: [120, 120, 120] });
+    await drawText(image, 'malbuch.app', width / 2, height / 2 + 10, { size: 14, color: [120, 120, 120] });
+  }
+
+  await drawWatermark(image, t(locale, 'preview.watermark'));
+  return image.getBuffer('image/png');
+}
@@ -0,0 +1,578 @@
+/**
+ * Paint-by-numbers pipeline on raw RGBA pixel data
+ * Color quantization → region map → outlines + number labels
+ *
+ * Works on plain typed arrays so the same code runs in the browser
+ * (Canvas ImageData) and on the server.
+ */
+
+import { traceRegionBorders, VectorArt } from './vectorTrace';
+
+export interface PaintRegion {
+  /** Index into the palette (0-based, printed as index + 1) */
+  colorIndex: number;
+  /** Number of pixels in the region */
+  area: number;
+  /** Label position (most interior pixel of the region) */
+  x: number;
+  y: number;
+}
+
+export interface PaintByNumbersOptions {
+  numColors?: number;
+  /** Regions smaller than this (in pixels) are merged into a neighbour */
+  minRegionArea?: number;
+  /** Same as minRegionArea, as a share of the image area (default 0.0004) */
+  minRegionShare?: number;
+  /** Pixel scale of the 3×5 digit font used for labels */
+  labelScale?: number;
+}
+
+export interface PaintByNumbersResult {
+  width: number;
+  height: number;
+  /** RGBA outline image with numbers, black on white */
+  pixels: Uint8ClampedArray;
+  /** Hex colors, index i is printed as number i + 1 */
+  palette: string[];
+  /** Per-pixel palette index */
+  labels: Uint8Array;
+  /** Region border mask, 1 = outline pixel */
+  borders: Uint8Array;
+  regions: PaintRegion[];
+  labelScale: number;
+}
+
+type RGB = [number, number, number];
+
+const MAX_SAMPLES = 12000;
+const KMEANS_ITERATIONS = 12;
+const LABEL_GRAY = 90;
+/** Palette colors closer than this (CIE76 ΔE) are merged; a child can't tell them apart */
+export const MIN_COLOR_DISTANCE = 12;
+
+/**
+ * Convert an RGBA image to a numbered paint-by-numbers outline
+ */
+export function paintByNumbers(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: PaintByNumbersOptions = {}
+): PaintByNumbersResult {
+  const numColors = Math.max(2, Math.min(options.numColors ?? 12, 24));
+  const minRegionArea = options.minRegionArea ??
+    Math.max(20, Math.round(width * height * (options.minRegionShare ?? 0.0004)));
+  const labelScale = options.labelScale ?? 2;
+
+  const centers = kMeans(data, width * height, numColors);
+  const labels = assignLabels(data, width * height, centers);
+  mergeSmallRegions(labels, width, height, minRegionArea);
+
+  // Drop colors that no longer occur and renumber the rest
+  const { palette, labels: compact } = compactPalette(labels, centers);
+
+  const regionIds = new Int32Array(width * height);
+  const regionCount = labelComponents(compact, width, height, regionIds);
+  const regions = findLabelPoints(compact, regionIds, regionCount, width, height);
+
+  const borders = findBorders(regionIds, width, height);
+  const pixels = new Uint8ClampedArray(width * height * 4).fill(255);
+  for (let p = 0; p < borders.length; p++) {
+    if (!borders[p]) continue;
+    pixels[p * 4] = 0;
+    pixels[p * 4 + 1] = 0;
+    pixels[p * 4 + 2] = 0;
+  }
+  for (const region of regions) {
+    drawNumber(pixels, width, height, region.x, region.y, region.colorIndex + 1, labelScale);
+  }
+
+  return { width, height, pixels, palette, labels: compact, borders, regions, labelScale };
+}
+
+/**
+ * Region borders as vector paths, numbers as vector labels
+ */
+export function paintByNumbersVector(result: PaintByNumbersResult): VectorArt {
+  // Regions are 4-connected areas of one color, so their borders are where labels change
+  const art = traceRegionBorders(result.labels, result.width, result.height, 1);
+  art.labels = result.regions.map(region => ({
+    x: region.x,
+    y: region.y,
+    text: String(region.colorIndex + 1),
+    size: 5 * result.labelScale,
+  }));
+  return art;
+}
+
+/**
+ * Render the quantized color image (each pixel filled with its palette color)
+ */
+export function renderQuantized(labels: Uint8Array, palette: string[]): Uint8ClampedArray {
+  const rgb = palette.map(hexToRgb);
+  const out = new Uint8ClampedArray(labels.length * 4);
+  for (let i = 0; i < labels.length; i++) {
+    const [r, g, b] = rgb[labels[i]];
+    out[i * 4] = r;
+    out[i * 4 + 1] = g;
+    out[i * 4 + 2] = b;
+    out[i * 4 + 3] = 255;
+  }
+  return out;
+}
+
+export function rgbToHex([r, g, b]: RGB): string {
+  return '#' + [r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('').toUpperCase();
+}
+
+export function hexToRgb(hex: string): RGB {
+  return [
+    parseInt(hex.slice(1, 3), 16),
+    parseInt(hex.slice(3, 5), 16),
+    parseInt(hex.slice(5, 7), 16),
+  ];
+}
+
+/**
+ * Deterministic PRNG so the same photo always gives the same palette
+ */
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function distSq(a: RGB, r: number, g: number, b: number): number {
+  const dr = a[0] - r;
+  const dg = a[1] - g;
+  const db = a[2] - b;
+  return dr * dr + dg * dg + db * db;
+}
+
+/**
+ * k-means on a subsample of pixels with k-means++ seeding
+ */
+function kMeans(data: Uint8ClampedArray, pixelCount: number, k: number): RGB[] {
+  const stride = Math.max(1, Math.floor(pixelCount / MAX_SAMPLES));
+  const samples: RGB[] = [];
+  for (let i = 0; i < pixelCount; i += stride) {
+    samples.push([data[i * 4], data[i * 4 + 1], data[i * 4 + 2]]);
+  }
+
+  const random = mulberry32(samples.length * 31 + k);
+  const centers: RGB[] = [[...samples[Math.floor(random() * samples.length)]] as RGB];
+  const nearest = new Float64Array(samples.length).fill(Infinity);
+
+  while (centers.length < k) {
+    const last = centers[centers.length - 1];
+    let total = 0;
+    for (let i = 0; i < samples.length; i++) {
+      const [r, g, b] = samples[i];
+      nearest[i] = Math.min(nearest[i], distSq(last, r, g, b));
+      total += nearest[i];
+    }
+    // All samples already covered (e.g. flat images)
+    if (total === 0) break;
+
+    let target = random() * total;
+    let pick = samples.length - 1;
+    for (let i = 0; i < samples.length; i++) {
+      target -= nearest[i];
+      if (target <= 0) {
+        pick = i;
+        break;
+      }
+    }
+    centers.push([...samples[pick]] as RGB);
+  }
+
+  const sums = new Float64Array(centers.length * 3);
+  const counts = new Uint32Array(centers.length);
+
+  for (let iter = 0; iter < KMEANS_ITERATIONS; iter++) {
+    sums.fill(0);
+    counts.fill(0);
+
+    for (const [r, g, b] of samples) {
+      const c = nearestCenter(centers, r, g, b);
+      sums[c * 3] += r;
+      sums[c * 3 + 1] += g;
+      sums[c * 3 + 2] += b;
+      counts[c]++;
+    }
+
+    let moved = false;
+    for (let c = 0; c < centers.length; c++) {
+      if (!counts[c]) continue;
+      const next: RGB = [sums[c * 3] / counts[c], sums[c * 3 + 1] / counts[c], sums[c * 3 + 2] / counts[c]];
+      if (distSq(centers[c], next[0], next[1], next[2]) > 0.25) moved = true;
+      centers[c] = next;
+    }
+    if (!moved) break;
+  }
+
+  const rounded = centers.map(([r, g, b]) => [Math.round(r), Math.round(g), Math.round(b)] as RGB);
+  return mergeCloseCenters(rounded, Array.from(counts));
+}
+
+/**
+ * Merge the closest pair of centers (weighted by their samples) until all
+ * are at least MIN_COLOR_DISTANCE apart
+ */
+function mergeCloseCenters(centers: RGB[], weights: number[]): RGB[] {
+  const labs = centers.map(toLab);
+  for (;;) {
+    let closest = MIN_COLOR_DISTANCE;
+    let pair: [number, number] | null = null;
+    for (let i = 0; i < centers.length; i++) {
+      for (let j = i + 1; j < centers.length; j++) {
+        const d = labDistance(labs[i], labs[j]);
+        if (d < closest) {
+          closest = d;
+          pair = [i, j];
+        }
+      }
+    }
+    if (!pair) return centers;
+
+    const [i, j] = pair;
+    const total = weights[i] + weights[j];
+    const share = total ? weights[j] / total : 0.5;
+    centers[i] = centers[i].map((v, c) => Math.round(v + (centers[j][c] - v) * share)) as RGB;
+    weights[i] += weights[j];
+    labs[i] = toLab(centers[i]);
+    centers.splice(j, 1);
+    weights.splice(j, 1);
+    labs.splice(j, 1);
+  }
+}
+
+/**
+ * CIE76 color difference of two palette colors
+ */
+export function colorDistance(a: string, b: string): number {
+  return labDistance(toLab(hexToRgb(a)), toLab(hexToRgb(b)));
+}
+
+function labDistance(a: RGB, b: RGB): number {
+  return Math.sqrt(distSq(a, b[0], b[1], b[2]));
+}
+
+/**
+ * sRGB to CIELAB (D65 white)
+ */
+function toLab([r, g, b]: RGB): RGB {
+  const linear = (v: number) => {
+    const c = v / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  };
+  const lr = linear(r);
+  const lg = linear(g);
+  const lb = linear(b);
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (t * 24389 / 27 + 16) / 116);
+  const fx = f((0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / 0.95047);
+  const fy = f(0.2126 * lr + 0.7152 * lg + 0.0722 * lb);
+  const fz = f((0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / 1.08883);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+function nearestCenter(centers: RGB[], r: number, g: number, b: number): number {
+  let best = 0;
+  let bestDist = Infinity;
+  for (let c = 0; c < centers.length; c++) {
+    const d = distSq(centers[c], r, g, b);
+    if (d < bestDist) {
+      bestDist = d;
+      best = c;
+    }
+  }
+  return best;
+}
+
+function assignLabels(data: Uint8ClampedArray, pixelCount: number, centers: RGB[]): Uint8Array {
+  const labels = new Uint8Array(pixelCount);
+  for (let i = 0; i < pixelCount; i++) {
+    labels[i] = nearestCenter(centers, data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+  }
+  return labels;
+}
+
+/**
+ * 4-connected component labeling; returns the number of components
+ */
+function labelComponents(labels: Uint8Array, width: number, height: number, regionIds: Int32Array): number {
+  regionIds.fill(-1);
+  const stack = new Int32Array(width * height);
+  let count = 0;
+
+  for (let start = 0; start < labels.length; start++) {
+    if (regionIds[start] !== -1) continue;
+
+    const label = labels[start];
+    let top = 0;
+    stack[top++] = start;
+    regionIds[start] = count;
+
+    while (top > 0) {
+      const p = stack[--top];
+      const x = p % width;
+      const y = (p - x) / width;
+
+      if (x > 0 && regionIds[p - 1] === -1 && labels[p - 1] === label) {
+        regionIds[p - 1] = count;
+        stack[top++] = p - 1;
+      }
+      if (x < width - 1 && regionIds[p + 1] === -1 && labels[p + 1] === label) {
+        regionIds[p + 1] = count;
+        stack[top++] = p + 1;
+      }
+      if (y > 0 && regionIds[p - width] === -1 && labels[p - width] === label) {
+        regionIds[p - width] = count;
+        stack[top++] = p - width;
+      }
+      if (y < height - 1 && regionIds[p + width] === -1 && labels[p + width] === label) {
+        regionIds[p + width] = count;
+        stack[top++] = p + width;
+      }
+    }
+    count++;
+  }
+
+  return count;
+}
+
+/**
+ * Merge speckle regions into the neighbouring color they share the longest border with
+ */
+function mergeSmallRegions(labels: Uint8Array, width: number, height: number, minArea: number): void {
+  const regionIds = new Int32Array(width * height);
+
+  for (let pass = 0; pass < 6; pass++) {
+    const count = labelComponents(labels, width, height, regionIds);
+    const areas = new Uint32Array(count);
+    for (let i = 0; i < regionIds.length; i++) areas[regionIds[i]]++;
+
+    // Border tally per small region: neighbour palette index → shared edge length
+    const borders = new Map<number, Map<number, number>>();
+    const tally = (region: number, neighbourLabel: number) => {
+      let counts = borders.get(region);
+      if (!counts) {
+        counts = new Map();
+        borders.set(region, counts);
+      }
+      counts.set(neighbourLabel, (counts.get(neighbourLabel) || 0) + 1);
+    };
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const p = y * width + x;
+        const region = regionIds[p];
+        if (x < width - 1 && regionIds[p + 1] !== region) {
+          if (areas[region] < minArea) tally(region, labels[p + 1]);
+          if (areas[regionIds[p + 1]] < minArea) tally(regionIds[p + 1], labels[p]);
+        }
+        if (y < height - 1 && regionIds[p + width] !== region) {
+          if (areas[region] < minArea) tally(region, labels[p + width]);
+          if (areas[regionIds[p + width]] < minArea) tally(regionIds[p + width], labels[p]);
+        }
+      }
+    }
+
+    if (borders.size === 0) return;
+
+    const target = new Int32Array(count).fill(-1);
+    borders.forEach((counts, region) => {
+      let best = -1;
+      let bestCount = 0;
+      counts.forEach((n, label) => {
+        if (n > bestCount) {
+          bestCount = n;
+          best = label;
+        }
+      });
+      target[region] = best;
+    });
+
+    for (let i = 0; i < labels.length; i++) {
+      const t = target[regionIds[i]];
+      if (t >= 0) labels[i] = t;
+    }
+  }
+}
+
+function compactPalette(labels: Uint8Array, centers: RGB[]): { palette: string[]; labels: Uint8Array } {
+  const used = new Uint32Array(centers.length);
+  for (let i = 0; i < labels.length; i++) used[labels[i]]++;
+
+  // Order by brightness so neighbouring numbers are similar shades
+  const order = centers
+    .map((c, idx) => ({ idx, luma: 0.299 * c[0] + 0.587 * c[1] + 0.114 * c[2] }))
+    .filter(c => used[c.idx] > 0)
+    .sort((a, b) => a.luma - b.luma);
+
+  const remap = new Uint8Array(centers.length);
+  order.forEach((c, newIdx) => {
+    remap[c.idx] = newIdx;
+  });
+
+  const compact = new Uint8Array(labels.length);
+  for (let i = 0; i < labels.length; i++) compact[i] = remap[labels[i]];
+
+  return { palette: order.map(c => rgbToHex(centers[c.idx])), labels: compact };
+}
+
+/**
+ * Pick the most interior pixel of each region using a chamfer distance transform
+ */
+function findLabelPoints(
+  labels: Uint8Array,
+  regionIds: Int32Array,
+  regionCount: number,
+  width: number,
+  height: number
+): PaintRegion[] {
+  const dist = new Float32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const r = regionIds[p];
+      const onBorder =
+        x === 0 || y === 0 || x === width - 1 || y === height - 1 ||
+        regionIds[p - 1] !== r || regionIds[p + 1] !== r ||
+        regionIds[p - width] !== r || regionIds[p + width] !== r;
+      dist[p] = onBorder ? 0 : Infinity;
+    }
+  }
+
+  // Forward pass
+  for (let y = 1; y < height; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const p = y * width + x;
+      if (dist[p] === 0) continue;
+      dist[p] = Math.min(
+        dist[p],
+        dist[p - 1] + 1,
+        dist[p - width] + 1,
+        dist[p - width - 1] + Math.SQRT2,
+        dist[p - width + 1] + Math.SQRT2
+      );
+    }
+  }
+
+  // Backward pass
+  for (let y = height - 2; y >= 0; y--) {
+    for (let x = width - 2; x > 0; x--) {
+      const p = y * width + x;
+      if (dist[p] === 0) continue;
+      dist[p] = Math.min(
+        dist[p],
+        dist[p + 1] + 1,
+        dist[p + width] + 1,
+        dist[p + width + 1] + Math.SQRT2,
+        dist[p + width - 1] + Math.SQRT2
+      );
+    }
+  }
+
+  const best = new Float32Array(regionCount).fill(-1);
+  const regions: PaintRegion[] = [];
+  for (let r = 0; r < regionCount; r++) {
+    regions.push({ colorIndex: 0, area: 0, x: 0, y: 0 });
+  }
+
+  for (let p = 0; p < regionIds.length; p++) {
+    const r = regionIds[p];
+    const region = regions[r];
+    region.area++;
+    if (dist[p] > best[r]) {
+      best[r] = dist[p];
+      region.colorIndex = labels[p];
+      region.x = p % width;
+      region.y = Math.floor(p / width);
+    }
+  }
+
+  return regions;
+}
+
+/**
+ * Mark 1px borders between regions (1 = border)
+ */
+function findBorders(regionIds: Int32Array, width: number, height: number): Uint8Array {
+  const borders = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const r = regionIds[p];
+      const edge =
+        (x < width - 1 && regionIds[p + 1] !== r) ||
+        (y < height - 1 && regionIds[p + width] !== r);
+      if (edge) borders[p] = 1;
+    }
+  }
+
+  return borders;
+}
+
+// 3×5 bitmap digits, one row per 3-bit value
+const DIGITS: number[][] = [
+  [7, 5, 5, 5, 7],
+  [2, 6, 2, 2, 7],
+  [7, 1, 7, 4, 7],
+  [7, 1, 7, 1, 7],
+  [5, 5, 7, 1, 1],
+  [7, 4, 7, 1, 7],
+  [7, 4, 7, 5, 7],
+  [7, 1, 1, 1, 1],
+  [7, 5, 7, 5, 7],
+  [7, 5, 7, 1, 7],
+];
+
+/**
+ * Draw a number centered on (cx, cy)
+ */
+export function drawNumber(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  cx: number,
+  cy: number,
+  value: number,
+  scale: number,
+  gray: number = LABEL_GRAY
+): void {
+  const digits = String(value).split('').map(Number);
+  const textWidth = (digits.length * 4 - 1) * scale;
+  const textHeight = 5 * scale;
+  const left = Math.round(cx - textWidth / 2);
+  const top = Math.round(cy - textHeight / 2);
+
+  digits.forEach((digit, d) => {
+    const glyph = DIGITS[digit];
+    for (let row = 0; row < 5; row++) {
+      for (let col = 0; col < 3; col++) {
+        if (!(glyph[row] & (4 >> col))) continue;
+
+        for (let sy = 0; sy < scale; sy++) {
+          for (let sx = 0; sx < scale; sx++) {
+            const x = left + (d * 4 + col) * scale + sx;
+            const y = top + row * scale + sy;
+            if (x < 0 || y < 0 || x >= width || y >= height) continue;
+            const idx = (y * width + x) * 4;
+            pixels[idx] = gray;
+            pixels[idx + 1] = gray;
+            pixels[idx + 2] = gray;
+          }
+        }
+      }
+    }
+  });
+}
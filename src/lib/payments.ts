@@ -0,0 +1,75 @@
+/**
+ * Stripe Checkout for the €4.99 book
+ *
+ * Environment:
+ *   STRIPE_SECRET_KEY      enables payments; without it books download for free (development)
+ *   STRIPE_WEBHOOK_SECRET  signing secret of the webhook endpoint (whsec_...)
+ *   STRIPE_PRICE_ID        optional Price to sell; otherwise BOOK_PRICE is used inline
+ *   STRIPE_API_BASE        optional API base URL, e.g. http://localhost:12111 for stripe-mock
+ */
+
+import Stripe from 'stripe';
+import { Order } from './orders';
+
+export const BOOK_PRICE = {
+  amount: 499,
+  currency: 'eur',
+  productName: 'Personalisiertes Malbuch',
+};
+
+let stripe: Stripe | null = null;
+
+export function paymentsEnabled(): boolean {
+  return Boolean(process.env.STRIPE_SECRET_KEY);
+}
+
+export function getStripe(): Stripe {
+  if (!stripe) {
+    const secretKey = process.env.STRIPE_SECRET_KEY;
+    if (!secretKey) throw new Error('STRIPE_SECRET_KEY is not configured');
+
+    const config: Stripe.StripeConfig = { apiVersion: '2023-10-16' };
+    if (process.env.STRIPE_API_BASE) {
+      const base = new URL(process.env.STRIPE_API_BASE);
+      config.host = base.hostname;
+      config.port = base.port || (base.protocol === 'http:' ? 80 : 443);
+      config.protocol = base.protocol === 'http:' ? 'http' : 'https';
+    }
+    stripe = new Stripe(secretKey, config);
+  }
+  return stripe;
+}
+
+/**
+ * Create a Checkout Session for one book order
+ */
+export async function createCheckoutSession(order: Order, origin: string): Promise<Stripe.Checkout.Session> {
+  const lineItem: Stripe.Checkout.SessionCreateParams.LineItem = process.env.STRIPE_PRICE_ID
+    ? { price: process.env.STRIPE_PRICE_ID, quantity: 1 }
+    : {
+        price_data: {
+          currency: BOOK_PRICE.currency,
+          unit_amount: BOOK_PRICE.amount,
+          product_data: { name: `${BOOK_PRICE.productName} für ${order.name}` },
+        },
+        quantity: 1,
+      };
+
+  return getStripe().checkout.sessions.create({
+    mode: 'payment',
+    line_items: [lineItem],
+    client_reference_id: order.id,
+    metadata: { orderId: order.id },
+    success_url: `${origin}/?order=${order.id}&session_id={CHECKOUT_SESSION_ID}`,
+    cancel_url: `${origin}/?order=${order.id}&cancelled=1`,
+  });
+}
+
+/**
+ * Verify the Stripe-Signature header and parse the event
+ */
+export function verifyWebhookEvent(payload: string, signature: string): Stripe.Event {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!secret) throw new Error('STRIPE_WEBHOOK_SECRET is not configured');
+  return getStripe().webhooks.constructEvent(payload, signature, secret);
+}
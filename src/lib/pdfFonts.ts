@@ -0,0 +1,106 @@
+/**
+ * TTF fonts for the PDF
+ * jsPDF's built-in fonts only cover Latin-1 via WinAnsi and mangle names like
+ * "Jörg" once anything else shows up; embedded TTFs render full Unicode text.
+ *
+ * Fonts come from the @expo-google-fonts packages (SIL Open Font License).
+ */
+
+import { jsPDF } from 'jspdf';
+import { readFile } from 'fs/promises';
+import path from 'path';
+
+export type TitleFont = 'fredoka' | 'baloo' | 'patrick-hand' | 'nunito';
+
+export interface PdfFonts {
+  /** Family for captions, palette legend and back cover */
+  text: string;
+  /** Family for the cover title */
+  title: string;
+  /** False when the TTFs couldn't be loaded and helvetica is used instead */
+  unicode: boolean;
+}
+
+const FONT_DIR = 'node_modules/@expo-google-fonts';
+
+export const TITLE_FONTS: Record<TitleFont, { label: string; file: string }> = {
+  fredoka: { label: 'Fredoka', file: 'fredoka/600SemiBold/Fredoka_600SemiBold.ttf' },
+  baloo: { label: 'Baloo', file: 'baloo-2/700Bold/Baloo2_700Bold.ttf' },
+  'patrick-hand': { label: 'Patrick Hand', file: 'patrick-hand/400Regular/PatrickHand_400Regular.ttf' },
+  nunito: { label: 'Nunito', file: 'nunito/800ExtraBold/Nunito_800ExtraBold.ttf' },
+};
+
+export const DEFAULT_TITLE_FONT: TitleFont = 'fredoka';
+
+const TEXT_FONTS: Record<'normal' | 'bold' | 'italic', string> = {
+  normal: 'nunito/400Regular/Nunito_400Regular.ttf',
+  bold: 'nunito/700Bold/Nunito_700Bold.ttf',
+  italic: 'nunito/400Regular_Italic/Nunito_400Regular_Italic.ttf',
+};
+
+export function isTitleFont(value: unknown): value is TitleFont {
+  return typeof value === 'string' && value in TITLE_FONTS;
+}
+
+// Base64 TTF data, loaded once per process
+const fontCache = new Map<string, Promise<string>>();
+
+function loadFont(file: string): Promise<string> {
+  let font = fontCache.get(file);
+  if (!font) {
+    font = readFile(path.join(process.cwd(), FONT_DIR, file)).then(data => data.toString('base64'));
+    // Don't cache failures, a later request may find the file
+    font.catch(() => fontCache.delete(file));
+    fontCache.set(file, font);
+  }
+  return font;
+}
+
+/**
+ * Embed the text and title fonts into the document
+ */
+export async function registerFonts(doc: jsPDF, titleFont: TitleFont = DEFAULT_TITLE_FONT): Promise<PdfFonts> {
+  try {
+    for (const [style, file] of Object.entries(TEXT_FONTS)) {
+      const vfsName = path.basename(file);
+      doc.addFileToVFS(vfsName, await loadFont(file));
+      doc.addFont(vfsName, 'Nunito', style);
+    }
+
+    const title = TITLE_FONTS[titleFont];
+    const titleFile = path.basename(title.file);
+    doc.addFileToVFS(titleFile, await loadFont(title.file));
+    doc.addFont(titleFile, title.label, 'normal');
+
+    return { text: 'Nunito', title: title.label, unicode: true };
+  } catch (error) {
+    console.error('Failed to load PDF fonts, falling back to helvetica:', error);
+    return { text: 'helvetica', title: 'helvetica', unicode: false };
+  }
+}
+
+// Built at runtime: the tsconfig target (ES5) rejects the u flag in literals
+const EMOJI_PATTERN = new RegExp('[\\p{Extended_Pictographic}\\u200d\\ufe0f]', 'gu');
+
+const ASCII_REPLACEMENTS: Record<string, string> = {
+  ä: 'ae', ö: 'oe', ü: 'ue', Ä: 'Ae', Ö: 'Oe', Ü: 'Ue', ß: 'ss',
+};
+
+/**
+ * Make user text printable: drop emoji and control characters, and
+ * transliterate to ASCII when only the built-in fonts are available
+ */
+export function printableText(text: string, fonts: PdfFonts): string {
+  const cleaned = text
+    .replace(EMOJI_PATTERN, '')
+    .replace(/[\x00-\x1f\x7f-\x9f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (fonts.unicode) return cleaned;
+
+  return cleaned
+    .replace(/[äöüÄÖÜß]/g, ch => ASCII_REPLACEMENTS[ch])
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7E]/g, '');
+}
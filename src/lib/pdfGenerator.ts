@@ -1,145 +1,611 @@
 import { jsPDF } from 'jspdf';
+import { detectImageFormat } from './imageUtils';
+import { registerFonts, printableText, PdfFonts, TitleFont } from './pdfFonts';
+import {
+  bookletPageDimensions,
+  fitImage,
+  interiorLayout,
+  pageDimensions,
+  resolveMargins,
+  saddleStitchOrder,
+  Box,
+  ImagePlacement,
+  PageMargins,
+  PageOrientation,
+  PaperSize,
+} from './pageLayout';
+import { VectorArt } from './vectorTrace';
+import { Difficulty } from './difficulty';
+import { COVER_THEMES, drawThemeBorder, CoverTheme } from './coverThemes';
+import { DEFAULT_LOCALE, interpolate, t, Locale } from './i18n';
+
+export type PageType = 'coloring' | 'paint-by-numbers' | 'dot-to-dot';
+
+export function isPageType(value: unknown): value is PageType {
+  return value === 'coloring' || value === 'paint-by-numbers' || value === 'dot-to-dot';
+}
 
 export interface BookPage {
+  /** PNG or JPEG */
   image: Buffer;
-  type: 'coloring' | 'paint-by-numbers';
+  type: PageType;
   colorPalette?: string[];
+  /** Traced line art or numbered dots; drawn as vectors instead of the raster image */
+  vector?: VectorArt;
+  /** Preset the page was converted with */
+  difficulty?: Difficulty;
+  /**
+   * Solution (PNG): the quantized colors of a paint-by-numbers page or the
+   * connected outline of a dot-to-dot page
+   */
+  solution?: Buffer;
+  /** Line printed under the picture */
+  caption?: string;
+}
+
+/** Where solutions of paint-by-numbers and dot-to-dot pages go */
+export type SolutionMode = 'none' | 'inline' | 'appendix';
+
+export function isSolutionMode(value: unknown): value is SolutionMode {
+  return value === 'none' || value === 'inline' || value === 'appendix';
 }
 
+/** Where the page template line goes; in the footer it replaces the page number */
+export type TemplatePosition = 'header' | 'footer';
+
+export function isTemplatePosition(value: unknown): value is TemplatePosition {
+  return value === 'header' || value === 'footer';
+}
+
+/** Placeholders of the page template: the child's name, page number and page count */
+export const TEMPLATE_PLACEHOLDERS = ['name', 'n', 'pages'];
+
+/**
+ * Placeholders of a page template that aren't in TEMPLATE_PLACEHOLDERS
+ */
+export function unknownTemplatePlaceholders(template: string): string[] {
+  const used = (template.match(/\{\w+\}/g) || []).map(match => match.slice(1, -1));
+  return used.filter(name => !TEMPLATE_PLACEHOLDERS.includes(name));
+}
+
+/**
+ * Text of the page template on one interior page
+ */
+export function pageTemplateText(template: string, name: string, page: number, pages: number): string {
+  return interpolate(template, { name, n: page, pages });
+}
+
+/** Caption and template line size in pt (smaller when they don't fit) */
+const CAPTION_FONT_SIZE = 11;
+
+/** Thumbnails per appendix page (2 columns × 3 rows) */
+const SOLUTION_COLUMNS = 2;
+const SOLUTION_ROWS = 3;
+
 export interface BookConfig {
   name: string;
+  /** Language of every text printed in the book (default 'de') */
+  locale?: Locale;
+  /** Cover title (default "<Name>'s Malbuch") */
   title?: string;
+  /** Font for the cover title (body text always uses Nunito); the theme's font when unset */
+  titleFont?: TitleFont;
+  /** Colors, subtitle and border of cover and back cover (default 'neutral') */
+  theme?: CoverTheme;
+  /** Photo (JPEG/PNG) shown on the cover between title and subtitle */
+  coverImage?: Buffer;
+  /** Text of a dedication page after the cover, e.g. "Für Emma, von Oma" */
+  dedication?: string;
   pages: BookPage[];
+  /** Paper format (default A4) */
+  paperSize?: PaperSize;
+  /** Margins in mm; missing sides default to 15 */
+  margins?: Partial<PageMargins>;
+  /**
+   * 'auto' (default) puts landscape images on landscape pages,
+   * 'portrait' keeps every page portrait and turns landscape images instead
+   */
+  orientation?: 'auto' | 'portrait';
+  /** Leave the back of the cover and of every picture empty for duplex printing */
+  blankBacks?: boolean;
+  /**
+   * Impose two half-size pages per sheet in saddle-stitch order, ready to
+   * print duplex (flip on short edge), fold and staple
+   */
+  booklet?: boolean;
+  /**
+   * Solutions of paint-by-numbers and dot-to-dot pages: a thumbnail next to the palette
+   * ('inline') or a "Lösungen" appendix referenced from each page (default 'none')
+   */
+  solutions?: SolutionMode;
+  /** Line on every interior page, e.g. "{name}s Malbuch – Seite {n}" (see TEMPLATE_PLACEHOLDERS) */
+  pageTemplate?: string;
+  /** Header or footer for the template line (default 'footer') */
+  templatePosition?: TemplatePosition;
+  /** Called after each interior page is laid out */
+  onPageLaidOut?: (pagesDone: number, totalPages: number) => void;
 }
 
+/** One page of the finished book, drawn wherever the print layout puts it */
+interface LogicalPage {
+  orientation: PageOrientation;
+  /** Draw the page with its top-left corner at (x, y) */
+  draw: (x: number, y: number) => void;
+}
+
+const BLANK_PAGE: LogicalPage = { orientation: 'portrait', draw: () => {} };
+
 /**
  * Generate a personalized coloring/paint-by-numbers book PDF
  */
 export async function generateBook(config: BookConfig): Promise<Buffer> {
-  const { name, title, pages } = config;
+  const { name, title, coverImage, dedication, pages, blankBacks, booklet, onPageLaidOut } = config;
+  const theme = config.theme || 'neutral';
+  const locale = config.locale || DEFAULT_LOCALE;
+  const style = COVER_THEMES[theme];
+  const paperSize = config.paperSize || 'a4';
+  // Booklet pages are halves of a portrait-folded sheet, so never landscape
+  const orientation = booklet ? 'portrait' : config.orientation || 'auto';
+  const margins = resolveMargins(config.margins);
+  const solutionMode = config.solutions || 'none';
+  const { pageTemplate } = config;
+  const templatePosition = config.templatePosition || 'footer';
   
-  // A4 dimensions in mm
-  const pageWidth = 210;
-  const pageHeight = 297;
+  const pageSize = (pageOrientation: PageOrientation) => booklet
+    ? bookletPageDimensions(paperSize)
+    : pageDimensions(paperSize, pageOrientation);
+  
+  // Cover and back cover are always portrait
+  const { width: pageWidth, height: pageHeight } = pageSize('portrait');
+  const smallPage = pageWidth < 180;
   
   const doc = new jsPDF({
-    orientation: 'portrait',
+    orientation: booklet ? 'landscape' : 'portrait',
     unit: 'mm',
-    format: 'a4',
+    format: paperSize,
+    // Vector pages are mostly path operators: deflate them, and write
+    // coordinates to 1/1000 pt instead of 16 decimals
+    compress: true,
+    floatPrecision: 3,
   });
-
-  // Cover page
-  doc.setFillColor(255, 250, 240);
-  doc.rect(0, 0, pageWidth, pageHeight, 'F');
+  const fonts = await registerFonts(doc, config.titleFont || style.titleFont);
   
-  doc.setFont('helvetica', 'bold');
-  doc.setFontSize(36);
-  doc.setTextColor(60, 60, 60);
+  const bookTitle = (title && printableText(title, fonts)) || printableText(t(locale, 'pdf.defaultTitle', { name }), fonts);
+  const subtitle = printableText(t(locale, `theme.${theme}.subtitle`), fonts);
   
-  // Sanitize name to ASCII only
-  const safeName = name.replace(/[^\x20-\x7E]/g, '');
-  const bookTitle = title || (safeName + "'s Malbuch");
-  doc.text(bookTitle, pageWidth / 2, pageHeight / 3, { align: 'center' });
+  let coverPhoto: { url: string; format: 'JPEG' | 'PNG'; width: number; height: number } | null = null;
+  if (coverImage) {
+    const isJpeg = detectImageFormat(coverImage) === 'jpeg';
+    const url = `data:${isJpeg ? 'image/jpeg' : 'image/png'};base64,${coverImage.toString('base64')}`;
+    try {
+      coverPhoto = { url, format: isJpeg ? 'JPEG' : 'PNG', ...doc.getImageProperties(url) };
+    } catch (imgError) {
+      console.error('Failed to read cover image:', imgError);
+    }
+  }
   
-  doc.setFontSize(18);
-  doc.setFont('helvetica', 'normal');
-  doc.text('Ein personalisiertes Malbuch', pageWidth / 2, pageHeight / 3 + 20, { align: 'center' });
+  const cover: LogicalPage = {
+    orientation: 'portrait',
+    draw: (ox, oy) => {
+      doc.setFillColor(...style.background);
+      doc.rect(ox, oy, pageWidth, pageHeight, 'F');
+      drawThemeBorder(doc, theme, { x: ox, y: oy, width: pageWidth, height: pageHeight });
+      
+      // With a photo the title moves up to make room below it
+      const titleSize = smallPage ? 28 : 36;
+      const titleTop = oy + pageHeight * (coverPhoto ? 0.27 : 1 / 3);
+      doc.setFont(fonts.title, fonts.unicode ? 'normal' : 'bold');
+      doc.setFontSize(titleSize);
+      doc.setTextColor(...style.text);
+      const titleLines: string[] = doc.splitTextToSize(bookTitle, pageWidth - 60);
+      doc.text(titleLines, ox + pageWidth / 2, titleTop, { align: 'center' });
+      // 1pt = 0.3528 mm, jsPDF's default line height is 1.15 em
+      const titleBottom = titleTop + (titleLines.length - 1) * titleSize * 0.3528 * 1.15;
+      
+      doc.setFontSize(smallPage ? 14 : 18);
+      doc.setFont(fonts.text, 'normal');
+      if (!coverPhoto) {
+        doc.text(subtitle, ox + pageWidth / 2, titleBottom + 20, { align: 'center' });
+        return;
+      }
+      
+      const frameWidth = pageWidth * 0.015;
+      const photoBox = {
+        x: ox + 30 + frameWidth,
+        y: titleBottom + 10 + frameWidth,
+        width: pageWidth - 60 - frameWidth * 2,
+        height: oy + pageHeight * 0.76 - titleBottom - 10 - frameWidth * 2,
+      };
+      const placement = fitImage(coverPhoto.width, coverPhoto.height, photoBox);
+      doc.setFillColor(255, 255, 255);
+      doc.setDrawColor(...style.accent);
+      doc.setLineWidth(0.3);
+      doc.rect(
+        placement.x - frameWidth, placement.y - frameWidth,
+        placement.width + frameWidth * 2, placement.height + frameWidth * 2,
+        'FD'
+      );
+      doc.addImage(coverPhoto.url, coverPhoto.format, placement.x, placement.y, placement.width, placement.height, undefined, 'FAST');
+      
+      doc.text(subtitle, ox + pageWidth / 2, placement.y + placement.height + frameWidth + 12, { align: 'center' });
+    },
+  };
   
-  // Decorative elements
-  doc.setDrawColor(200, 180, 160);
-  doc.setLineWidth(0.5);
-  doc.rect(20, 20, pageWidth - 40, pageHeight - 40);
+  const dedicationPage: LogicalPage | null = dedication && printableText(dedication, fonts)
+    ? {
+      orientation: 'portrait',
+      draw: (ox, oy) => {
+        const fontSize = smallPage ? 16 : 20;
+        doc.setFont(fonts.text, 'italic');
+        doc.setFontSize(fontSize);
+        doc.setTextColor(...style.text);
+        const lines: string[] = doc.splitTextToSize(printableText(dedication, fonts), pageWidth - 80);
+        const blockHeight = (lines.length - 1) * fontSize * 0.3528 * 1.15;
+        const top = oy + pageHeight * 0.4 - blockHeight / 2;
+        doc.text(lines, ox + pageWidth / 2, top, { align: 'center' });
+        
+        // Short accent rules above and below the text
+        doc.setDrawColor(...style.accent);
+        doc.setLineWidth(0.6);
+        const ruleX = ox + pageWidth / 2 - 15;
+        doc.line(ruleX, top - 14, ruleX + 30, top - 14);
+        doc.line(ruleX, top + blockHeight + 10, ruleX + 30, top + blockHeight + 10);
+      },
+    }
+    : null;
   
-  // Add each page
-  for (let i = 0; i < pages.length; i++) {
-    const page = pages[i];
-    doc.addPage();
-    
-    // Page number
-    doc.setFontSize(10);
-    doc.setTextColor(150, 150, 150);
-    doc.text(`${i + 1}`, pageWidth / 2, pageHeight - 10, { align: 'center' });
-    
-    // Convert buffer to base64 data URL (JPEG for coloring, PNG for paint-by-numbers)
-    const base64Image = page.image.toString('base64');
-    const mimeType = page.type === 'coloring' ? 'image/jpeg' : 'image/png';
-    const formatType = page.type === 'coloring' ? 'JPEG' : 'PNG';
-    const imageDataUrl = `data:${mimeType};base64,${base64Image}`;
-    
-    console.log(`Page ${i + 1}: type=${page.type}, format=${formatType}, imageSize=${page.image.length} bytes, base64Len=${base64Image.length}`);
-    
-    // Verify image header
-    const header = page.image.slice(0, 4);
-    console.log(`Image header bytes: ${header[0]?.toString(16)} ${header[1]?.toString(16)} ${header[2]?.toString(16)} ${header[3]?.toString(16)}`);
-    
-    // Add image with margins
-    const margin = 15;
-    const imgWidth = pageWidth - margin * 2;
-    const imgHeight = pageHeight - margin * 2 - 20; // Leave space for color palette
-    
+  const backCover: LogicalPage = {
+    orientation: 'portrait',
+    draw: (ox, oy) => {
+      doc.setFillColor(...style.background);
+      doc.rect(ox, oy, pageWidth, pageHeight, 'F');
+      
+      doc.setFont(fonts.text, 'italic');
+      doc.setFontSize(14);
+      doc.setTextColor(120, 120, 120);
+      doc.text(printableText(t(locale, 'pdf.createdFor', { name }), fonts), ox + pageWidth / 2, oy + pageHeight / 2, { align: 'center' });
+      doc.text('malbuch.app', ox + pageWidth / 2, oy + pageHeight / 2 + 10, { align: 'center' });
+    },
+  };
+  
+  // Solution thumbnails, by page index
+  const solutionImages = pages.map(page => {
+    if (solutionMode === 'none' || page.type === 'coloring' || !page.solution) return null;
+    const url = `data:image/png;base64,${page.solution.toString('base64')}`;
     try {
-      doc.addImage(imageDataUrl, formatType, margin, margin, imgWidth, imgHeight, undefined, 'FAST');
-      console.log(`Image added successfully to page ${i + 1}`);
+      const { width, height } = doc.getImageProperties(url);
+      return { url, width, height };
     } catch (imgError) {
-      console.error('Failed to add image to PDF:', imgError);
-      // Add placeholder text if image fails
-      doc.setFontSize(14);
-      doc.setTextColor(200, 100, 100);
-      doc.text('Bild konnte nicht geladen werden', pageWidth / 2, pageHeight / 2, { align: 'center' });
+      console.error('Failed to read solution image:', imgError);
+      return null;
+    }
+  });
+  
+  // Appendix slots in page order; appendix pages are numbered after the interior
+  const solvedPages = solutionMode === 'appendix'
+    ? pages.map((_, i) => i).filter(i => solutionImages[i])
+    : [];
+  const solutionsPerPage = SOLUTION_COLUMNS * SOLUTION_ROWS;
+  const appendixPageNumber = (slot: number) => pages.length + 1 + Math.floor(slot / solutionsPerPage);
+  
+  const pageNumberY = (height: number) => height - Math.max(4, margins.bottom - 5);
+  const headerY = Math.max(7, margins.top - 5);
+  
+  let pagesLaidOut = 0;
+  const interior = pages.map((page, i): LogicalPage => {
+    // Vector art knows its size; raster sizes come from the image header
+    let imageDataUrl = '';
+    let formatType: 'JPEG' | 'PNG' = 'PNG';
+    let imageSize: { width: number; height: number } | null = page.vector || null;
+    if (!page.vector) {
+      // Convert buffer to base64 data URL, format taken from the image bytes
+      const isJpeg = detectImageFormat(page.image) === 'jpeg';
+      formatType = isJpeg ? 'JPEG' : 'PNG';
+      imageDataUrl = `data:${isJpeg ? 'image/jpeg' : 'image/png'};base64,${page.image.toString('base64')}`;
+      try {
+        imageSize = doc.getImageProperties(imageDataUrl);
+      } catch (imgError) {
+        console.error('Failed to read image size:', imgError);
+      }
     }
     
-    // For paint-by-numbers, add color palette at bottom
-    if (page.type === 'paint-by-numbers' && page.colorPalette) {
-      const paletteY = pageHeight - 25;
-      const swatchSize = 8;
-      const startX = (pageWidth - page.colorPalette.length * (swatchSize + 4)) / 2;
+    const landscape = imageSize !== null && imageSize.width > imageSize.height;
+    const pageOrientation = orientation === 'auto' && landscape ? 'landscape' : 'portrait';
+    
+    const draw = (ox: number, oy: number) => {
+      const { width: currentWidth, height: currentHeight } = pageSize(pageOrientation);
+      
+      // Page number, centered in the bottom margin; a footer template takes its place
+      const slot = solvedPages.indexOf(i);
+      const templateLine = pageTemplate ? pageTemplateText(pageTemplate, name, i + 1, pages.length) : '';
+      doc.setFont(fonts.text, 'normal');
+      if (templateLine) {
+        const inFooter = templatePosition === 'footer';
+        // A footer line keeps clear of the solution reference on the right
+        const lineWidth = currentWidth - margins.left - margins.right - (inFooter && slot >= 0 ? 60 : 0);
+        const y = inFooter ? pageNumberY(currentHeight) : headerY;
+        drawFittedText(doc, fonts, templateLine, ox + currentWidth / 2, oy + y, lineWidth, [110, 110, 110]);
+      }
+      doc.setFontSize(10);
+      doc.setTextColor(150, 150, 150);
+      if (!templateLine || templatePosition === 'header') {
+        doc.text(`${i + 1}`, ox + currentWidth / 2, oy + pageNumberY(currentHeight), { align: 'center' });
+      }
       
-      doc.setFontSize(8);
-      doc.setTextColor(100, 100, 100);
-      doc.text('Farbpalette:', pageWidth / 2, paletteY - 5, { align: 'center' });
+      if (slot >= 0) {
+        doc.setFontSize(8);
+        doc.text(
+          printableText(t(locale, 'pdf.solutionRef', { page: appendixPageNumber(slot) }), fonts),
+          ox + currentWidth - margins.right, oy + pageNumberY(currentHeight),
+          { align: 'right' }
+        );
+      }
       
-      page.colorPalette.forEach((color, idx) => {
-        const x = startX + idx * (swatchSize + 4);
+      // Printable area, minus room for the color palette and an inline solution
+      const inlineSolution = solutionMode === 'inline' ? solutionImages[i] : null;
+      const palette = page.type === 'paint-by-numbers' ? page.colorPalette : undefined;
+      const layout = interiorLayout(currentWidth, currentHeight, margins, palette?.length || 0, !!inlineSolution, !!page.caption);
+      const area = { ...layout.area, x: ox + layout.area.x, y: oy + layout.area.y };
+      
+      if (page.vector) {
+        const placement = fitImage(page.vector.width, page.vector.height, area, orientation === 'portrait');
+        console.log(`Page ${i + 1}: type=${page.type}, difficulty=${page.difficulty}, vector paths=${page.vector.paths.length}, dots=${page.vector.dots?.length || 0}, rotated=${placement.rotated}`);
+        drawVectorArt(doc, page.vector, placement, fonts.text);
+      } else {
+        console.log(`Page ${i + 1}: type=${page.type}, difficulty=${page.difficulty}, format=${formatType}, imageSize=${page.image.length} bytes`);
         
-        // Parse hex color
-        const r = parseInt(color.slice(1, 3), 16);
-        const g = parseInt(color.slice(3, 5), 16);
-        const b = parseInt(color.slice(5, 7), 16);
+        // Verify image header
+        const header = page.image.slice(0, 4);
+        console.log(`Image header bytes: ${header[0]?.toString(16)} ${header[1]?.toString(16)} ${header[2]?.toString(16)} ${header[3]?.toString(16)}`);
         
-        doc.setFillColor(r, g, b);
-        doc.setDrawColor(100, 100, 100);
-        doc.rect(x, paletteY, swatchSize, swatchSize, 'FD');
+        try {
+          if (!imageSize) throw new Error('Unreadable image');
+          const placement = fitImage(imageSize.width, imageSize.height, area, orientation === 'portrait');
+          if (placement.rotated) {
+            // jsPDF turns images counterclockwise around their bottom-left corner
+            doc.addImage(
+              imageDataUrl, formatType,
+              placement.x + placement.width, placement.y + placement.height - placement.width,
+              placement.height, placement.width,
+              undefined, 'FAST', 90
+            );
+          } else {
+            doc.addImage(imageDataUrl, formatType, placement.x, placement.y, placement.width, placement.height, undefined, 'FAST');
+          }
+          console.log(`Image added successfully to page ${i + 1}`);
+        } catch (imgError) {
+          console.error('Failed to add image to PDF:', imgError);
+          // Add placeholder text if image fails
+          doc.setFontSize(14);
+          doc.setTextColor(200, 100, 100);
+          doc.text(printableText(t(locale, 'pdf.imageFailed'), fonts), ox + currentWidth / 2, oy + currentHeight / 2, { align: 'center' });
+        }
+      }
+      
+      if (page.caption && layout.caption) {
+        drawFittedText(doc, fonts, page.caption, ox + layout.caption.x, oy + layout.caption.y, area.width, [80, 80, 80]);
+      }
+      
+      // For paint-by-numbers, add color palette at bottom
+      if (palette && layout.legend) {
+        doc.setFontSize(8);
+        doc.setTextColor(100, 100, 100);
+        doc.text(printableText(t(locale, 'pdf.palette'), fonts), ox + layout.legend.captionX, oy + layout.legend.captionY, { align: 'center' });
         
-        // Number below swatch
-        doc.setTextColor(60, 60, 60);
-        doc.text(`${idx + 1}`, x + swatchSize / 2, paletteY + swatchSize + 4, { align: 'center' });
-      });
-    }
+        palette.forEach((color, idx) => {
+          const swatch = layout.legend!.swatches[idx];
+          const x = ox + swatch.x;
+          const y = oy + swatch.y;
+          
+          // Parse hex color
+          const r = parseInt(color.slice(1, 3), 16);
+          const g = parseInt(color.slice(3, 5), 16);
+          const b = parseInt(color.slice(5, 7), 16);
+          
+          doc.setFillColor(r, g, b);
+          doc.setDrawColor(100, 100, 100);
+          doc.rect(x, y, swatch.width, swatch.height, 'FD');
+          
+          // Number below swatch
+          doc.setTextColor(60, 60, 60);
+          doc.text(`${idx + 1}`, x + swatch.width / 2, y + swatch.height + 4, { align: 'center' });
+        });
+      }
+      
+      if (inlineSolution && layout.solution) {
+        const { captionX, captionY, box } = layout.solution;
+        doc.setFontSize(8);
+        doc.setTextColor(100, 100, 100);
+        doc.text(printableText(t(locale, 'pdf.solution'), fonts), ox + captionX, oy + captionY, { align: 'center' });
+        drawSolution(doc, inlineSolution, { ...box, x: ox + box.x, y: oy + box.y });
+      }
+      
+      onPageLaidOut?.(++pagesLaidOut, pages.length);
+    };
+    
+    return { orientation: pageOrientation, draw };
+  });
+  
+  // Solutions appendix: a grid of thumbnails, each captioned with its page
+  const appendix: LogicalPage[] = [];
+  for (let first = 0; first < solvedPages.length; first += solutionsPerPage) {
+    const appendixIndex = appendix.length;
+    appendix.push({
+      orientation: 'portrait',
+      draw: (ox, oy) => {
+        doc.setFont(fonts.text, 'normal');
+        doc.setFontSize(10);
+        doc.setTextColor(150, 150, 150);
+        doc.text(`${appendixPageNumber(first)}`, ox + pageWidth / 2, oy + pageNumberY(pageHeight), { align: 'center' });
+        
+        let top = oy + margins.top;
+        if (appendixIndex === 0) {
+          doc.setFont(fonts.text, 'bold');
+          doc.setFontSize(20);
+          doc.setTextColor(60, 60, 60);
+          doc.text(printableText(t(locale, 'pdf.solutions'), fonts), ox + pageWidth / 2, top + 7, { align: 'center' });
+          doc.setFont(fonts.text, 'normal');
+          top += 14;
+        }
+        
+        const cellWidth = (pageWidth - margins.left - margins.right) / SOLUTION_COLUMNS;
+        const cellHeight = (oy + pageHeight - margins.bottom - top) / SOLUTION_ROWS;
+        solvedPages.slice(first, first + solutionsPerPage).forEach((pageIndex, idx) => {
+          const x = ox + margins.left + (idx % SOLUTION_COLUMNS) * cellWidth;
+          const y = top + Math.floor(idx / SOLUTION_COLUMNS) * cellHeight;
+          drawSolution(doc, solutionImages[pageIndex]!, { x: x + 3, y: y + 3, width: cellWidth - 6, height: cellHeight - 12 });
+          
+          doc.setFontSize(9);
+          doc.setTextColor(100, 100, 100);
+          doc.text(printableText(t(locale, 'pdf.pageCaption', { page: pageIndex + 1 }), fonts), x + cellWidth / 2, y + cellHeight - 4, { align: 'center' });
+        });
+      },
+    });
   }
   
-  // Back cover
-  doc.addPage();
-  doc.setFillColor(255, 250, 240);
-  doc.rect(0, 0, pageWidth, pageHeight, 'F');
+  // Blank backs keep every picture on its own sheet when printing duplex
+  const sequence: LogicalPage[] = [cover];
+  if (blankBacks) sequence.push(BLANK_PAGE);
+  if (dedicationPage) {
+    sequence.push(dedicationPage);
+    if (blankBacks) sequence.push(BLANK_PAGE);
+  }
+  for (const page of interior) {
+    sequence.push(page);
+    if (blankBacks) sequence.push(BLANK_PAGE);
+  }
+  sequence.push(...appendix);
   
-  doc.setFont('helvetica', 'italic');
-  doc.setFontSize(14);
-  doc.setTextColor(120, 120, 120);
-  doc.text('Erstellt fuer ' + safeName, pageWidth / 2, pageHeight / 2, { align: 'center' });
-  doc.text('malbuch.app', pageWidth / 2, pageHeight / 2 + 10, { align: 'center' });
+  if (booklet) {
+    // Fill up to whole sheets; the back cover stays on the outside
+    while ((sequence.length + 1) % 4 !== 0) sequence.push(BLANK_PAGE);
+    sequence.push(backCover);
+    
+    const { width: sheetWidth } = pageDimensions(paperSize, 'landscape');
+    saddleStitchOrder(sequence.length).forEach(([left, right], side) => {
+      if (side > 0) doc.addPage(paperSize, 'landscape');
+      sequence[left].draw(0, 0);
+      sequence[right].draw(sheetWidth / 2, 0);
+    });
+    console.log(`Booklet: ${sequence.length} pages on ${sequence.length / 4} sheets`);
+  } else {
+    sequence.push(backCover);
+    sequence.forEach((page, index) => {
+      if (index > 0) doc.addPage(paperSize, page.orientation);
+      page.draw(0, 0);
+    });
+  }
   
   // Return as buffer
   const pdfArrayBuffer = doc.output('arraybuffer');
   return Buffer.from(pdfArrayBuffer);
 }
 
+/**
+ * One centered line in the title font (rounder than Nunito, made for
+ * children's books), shrunk to fit `maxWidth`
+ */
+function drawFittedText(
+  doc: jsPDF,
+  fonts: PdfFonts,
+  text: string,
+  x: number,
+  y: number,
+  maxWidth: number,
+  color: [number, number, number]
+) {
+  const line = printableText(text, fonts);
+  const previous = doc.getFont();
+  doc.setFont(fonts.title, 'normal');
+  doc.setFontSize(CAPTION_FONT_SIZE);
+  const width = doc.getTextWidth(line);
+  if (width > maxWidth) doc.setFontSize(CAPTION_FONT_SIZE * maxWidth / width);
+  doc.setTextColor(color[0], color[1], color[2]);
+  doc.text(line, x, y, { align: 'center' });
+  doc.setFont(previous.fontName, previous.fontStyle);
+}
+
+/**
+ * Draw a solution thumbnail centered in the box, with a thin frame
+ */
+function drawSolution(doc: jsPDF, solution: { url: string; width: number; height: number }, box: Box) {
+  const placement = fitImage(solution.width, solution.height, box);
+  doc.addImage(solution.url, 'PNG', placement.x, placement.y, placement.width, placement.height, undefined, 'FAST');
+  doc.setDrawColor(180, 180, 180);
+  doc.setLineWidth(0.2);
+  doc.rect(placement.x, placement.y, placement.width, placement.height);
+}
+
+/**
+ * Draw traced line art as native PDF strokes (dots filled, labels as text)
+ * into its placement on the page
+ */
+function drawVectorArt(doc: jsPDF, art: VectorArt, placement: ImagePlacement, font: string) {
+  const { rotated } = placement;
+  // fitImage keeps the aspect ratio, so one scale fits both axes
+  const scale = placement.width / (rotated ? art.height : art.width);
+  
+  // Art coordinates to page coordinates; rotated art has its top edge on the left
+  const toPage = (px: number, py: number): [number, number] => rotated
+    ? [placement.x + py * scale, placement.y + (art.width - px) * scale]
+    : [placement.x + px * scale, placement.y + py * scale];
+  
+  doc.setDrawColor(0, 0, 0);
+  doc.setLineWidth(art.strokeWidth * scale);
+  doc.setLineCap('round');
+  doc.setLineJoin('round');
+  
+  for (const path of art.paths) {
+    // jsPDF wants each segment relative to the previous end point
+    const [startX, startY] = toPage(path.start[0], path.start[1]);
+    let cx = startX;
+    let cy = startY;
+    const segments = path.segments.map(([c1x, c1y, c2x, c2y, px, py]) => {
+      const [p1x, p1y] = toPage(c1x, c1y);
+      const [p2x, p2y] = toPage(c2x, c2y);
+      const [ex, ey] = toPage(px, py);
+      const segment = [p1x - cx, p1y - cy, p2x - cx, p2y - cy, ex - cx, ey - cy];
+      cx = ex;
+      cy = ey;
+      return segment;
+    });
+    doc.lines(segments, startX, startY, [1, 1], 'S', path.closed);
+  }
+  
+  if (art.dots) {
+    doc.setFillColor(0, 0, 0);
+    for (const dot of art.dots) {
+      const [x, y] = toPage(dot.x, dot.y);
+      doc.circle(x, y, dot.radius * scale, 'F');
+    }
+  }
+  
+  if (art.labels) {
+    doc.setFont(font, 'normal');
+    doc.setTextColor(90, 90, 90);
+    for (const label of art.labels) {
+      const [x, y] = toPage(label.x, label.y);
+      const digitHeight = label.size * scale;
+      // Digit cap height is ~0.72 em; 1pt = 0.3528 mm
+      doc.setFontSize(digitHeight / 0.3528 / 0.72);
+      if (rotated) {
+        // jsPDF applies align/baseline offsets unrotated, so center by hand
+        const textWidth = doc.getTextWidth(label.text);
+        doc.text(label.text, x + digitHeight / 2, y + textWidth / 2, { angle: 90 });
+      } else {
+        doc.text(label.text, x, y, { align: 'center', baseline: 'middle' });
+      }
+    }
+  }
+}
+
 /**
  * Generate a single coloring page PDF
  */
 export async function generateSinglePage(
   image: Buffer,
   name: string,
-  type: 'coloring' | 'paint-by-numbers',
+  type: PageType,
   colorPalette?: string[]
 ): Promise<Buffer> {
   return generateBook({
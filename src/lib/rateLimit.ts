@@ -0,0 +1,82 @@
+/**
+ * Per-client request limits (sliding window, in process memory)
+ * Enough for one server instance; behind several instances each one counts
+ * on its own, so the effective limit is higher.
+ *
+ * Environment:
+ *   RATE_LIMIT_BOOKS_PER_HOUR  book requests per IP and hour (default 20, 0 = off)
+ *   RATE_LIMIT_PREVIEWS_PER_HOUR  /api/preview pages per IP and hour (default 300, 0 = off)
+ *   RATE_LIMIT_DEBUG_PER_HOUR  /api/debug requests per IP and hour (default 60, 0 = off)
+ */
+
+export type RateLimitBucket = 'books' | 'previews' | 'debug';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Seconds until the next request is allowed (0 when allowed) */
+  retryAfter: number;
+}
+
+const WINDOW_MS = 60 * 60 * 1000;
+
+const DEFAULT_LIMITS: Record<RateLimitBucket, number> = {
+  books: 20,
+  // One per page shown, a 20-photo book has over 40
+  previews: 300,
+  debug: 60,
+};
+
+/** Prune expired clients once the table grows beyond this */
+const MAX_TRACKED_CLIENTS = 10_000;
+
+// Request times per bucket and client, kept across dev-server module reloads
+const globalForRateLimit = globalThis as unknown as { malbuchRateLimits?: Map<string, number[]> };
+
+function hits(): Map<string, number[]> {
+  if (!globalForRateLimit.malbuchRateLimits) {
+    globalForRateLimit.malbuchRateLimits = new Map();
+  }
+  return globalForRateLimit.malbuchRateLimits;
+}
+
+function limitFor(bucket: RateLimitBucket): number {
+  const configured = process.env[`RATE_LIMIT_${bucket.toUpperCase()}_PER_HOUR`];
+  return configured !== undefined && configured !== '' ? Number(configured) : DEFAULT_LIMITS[bucket];
+}
+
+/**
+ * Client address as seen by the hosting proxy (Netlify, then common headers)
+ */
+export function clientIp(request: Request): string {
+  const forwarded = request.headers.get('x-forwarded-for');
+  return request.headers.get('x-nf-client-connection-ip')
+    || (forwarded && forwarded.split(',')[0].trim())
+    || request.headers.get('x-real-ip')
+    || 'local';
+}
+
+/**
+ * Count a request against the client's limit
+ */
+export function checkRateLimit(bucket: RateLimitBucket, client: string, now: number = Date.now()): RateLimitResult {
+  const limit = limitFor(bucket);
+  if (!limit) return { allowed: true, retryAfter: 0 };
+
+  const table = hits();
+  if (table.size > MAX_TRACKED_CLIENTS) {
+    table.forEach((times, key) => {
+      if (!times.length || times[times.length - 1] <= now - WINDOW_MS) table.delete(key);
+    });
+  }
+
+  const key = `${bucket}:${client}`;
+  const recent = (table.get(key) || []).filter(time => time > now - WINDOW_MS);
+  if (recent.length >= limit) {
+    table.set(key, recent);
+    return { allowed: false, retryAfter: Math.ceil((recent[0] + WINDOW_MS - now) / 1000) };
+  }
+
+  recent.push(now);
+  table.set(key, recent);
+  return { allowed: true, retryAfter: 0 };
+}
@@ -0,0 +1,288 @@
+/**
+ * Subject/background separation from rough brush strokes on raw RGBA data
+ * Strokes → seed map → seeded region growing on color differences → mask
+ *
+ * The growing is a minimum-barrier flood: every pixel joins the seed it can
+ * reach with the smallest largest color step on the way, so labels spread
+ * through smooth areas and meet at strong edges (the cut a graph cut would
+ * find on a clearly outlined subject). No model, no service: only the pixels.
+ */
+
+export type MaskLabel = 'subject' | 'background';
+
+/** How the background is drawn once the subject is separated */
+export type BackgroundMode = 'blank' | 'simplify';
+
+export interface MaskStroke {
+  label: MaskLabel;
+  /** Brush radius as a fraction of the photo width */
+  radius: number;
+  /** Brush path as fractions (0..1) of the rotated photo, like the crop */
+  points: [number, number][];
+}
+
+export interface SubjectMask {
+  strokes: MaskStroke[];
+  /** Default: 'blank' */
+  background?: BackgroundMode;
+}
+
+/** Frame of the processed image inside the rotated photo, as fractions */
+export interface MaskFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const FULL_FRAME: MaskFrame = { x: 0, y: 0, width: 1, height: 1 };
+
+const UNKNOWN = 0;
+const SUBJECT = 1;
+const BACKGROUND = 2;
+
+/** Largest RGB distance between two pixels (√(3·255²) rounded up) */
+const MAX_STEP = 442;
+
+/** With background strokes only: how far (color step) the background floods */
+const BACKGROUND_TOLERANCE = 40;
+
+/** Limits on client-sent masks; the editor stays far below them */
+export const MAX_MASK_STROKES = 200;
+export const MAX_STROKE_POINTS = 5000;
+const MIN_BRUSH_RADIUS = 0.001;
+const MAX_BRUSH_RADIUS = 0.25;
+
+const MASK_LABELS: MaskLabel[] = ['subject', 'background'];
+const BACKGROUND_MODES: BackgroundMode[] = ['blank', 'simplify'];
+
+function isFraction(value: unknown): boolean {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+function isMaskStroke(value: unknown): value is MaskStroke {
+  if (!value || typeof value !== 'object') return false;
+  const { label, radius, points } = value as Record<string, unknown>;
+  return MASK_LABELS.includes(label as MaskLabel)
+    && typeof radius === 'number' && radius >= MIN_BRUSH_RADIUS && radius <= MAX_BRUSH_RADIUS
+    && Array.isArray(points) && points.length <= MAX_STROKE_POINTS
+    && points.every(point => Array.isArray(point) && point.length === 2 && isFraction(point[0]) && isFraction(point[1]));
+}
+
+/**
+ * Check a mask from the client: known labels and background mode, brush
+ * radius in range, points inside the photo, bounded stroke and point counts
+ */
+export function isSubjectMask(value: unknown): value is SubjectMask {
+  if (!value || typeof value !== 'object') return false;
+  const { strokes, background } = value as Record<string, unknown>;
+  return (background === undefined || BACKGROUND_MODES.includes(background as BackgroundMode))
+    && Array.isArray(strokes) && strokes.length <= MAX_MASK_STROKES
+    && strokes.every(isMaskStroke);
+}
+
+/**
+ * Replace the background of an image so only the marked subject keeps its detail
+ * 'blank' turns the background white (the subject keeps a clean silhouette),
+ * 'simplify' blurs it so only large shapes survive the conversion.
+ */
+export function simplifyBackground(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  mask: SubjectMask,
+  frame: MaskFrame = FULL_FRAME
+): Uint8ClampedArray {
+  const seeds = rasterizeStrokes(mask.strokes, width, height, frame);
+  const subject = segmentSubject(data, width, height, seeds);
+  const replacement = mask.background === 'simplify'
+    ? boxBlur(data, width, height, Math.max(2, Math.round(Math.max(width, height) / 40)))
+    : null;
+
+  const out = new Uint8ClampedArray(data);
+  for (let i = 0; i < subject.length; i++) {
+    if (subject[i]) continue;
+    const idx = i * 4;
+    out[idx] = replacement ? replacement[idx] : 255;
+    out[idx + 1] = replacement ? replacement[idx + 1] : 255;
+    out[idx + 2] = replacement ? replacement[idx + 2] : 255;
+  }
+  return out;
+}
+
+/**
+ * Paint the strokes into a seed map (0 = unknown, 1 = subject, 2 = background)
+ * Later strokes paint over earlier ones.
+ */
+export function rasterizeStrokes(
+  strokes: MaskStroke[],
+  width: number,
+  height: number,
+  frame: MaskFrame = FULL_FRAME
+): Uint8Array {
+  const seeds = new Uint8Array(width * height);
+  // Photo fractions → pixels of the (cropped) processed image
+  const toX = (fx: number) => ((fx - frame.x) / frame.width) * width;
+  const toY = (fy: number) => ((fy - frame.y) / frame.height) * height;
+
+  const stamp = (cx: number, cy: number, r: number, value: number) => {
+    const x0 = Math.max(0, Math.floor(cx - r));
+    const x1 = Math.min(width - 1, Math.ceil(cx + r));
+    const y0 = Math.max(0, Math.floor(cy - r));
+    const y1 = Math.min(height - 1, Math.ceil(cy + r));
+    for (let y = y0; y <= y1; y++) {
+      for (let x = x0; x <= x1; x++) {
+        if ((x - cx) * (x - cx) + (y - cy) * (y - cy) <= r * r) seeds[y * width + x] = value;
+      }
+    }
+  };
+
+  for (const stroke of strokes) {
+    if (!stroke.points?.length) continue;
+    const value = stroke.label === 'subject' ? SUBJECT : BACKGROUND;
+    const r = Math.max(1, (stroke.radius * width) / frame.width);
+    // Points outside a crop are clamped just past the edge, so stepping stays bounded
+    const points = stroke.points.map(([fx, fy]) => [
+      Math.max(-r, Math.min(width - 1 + r, toX(fx))),
+      Math.max(-r, Math.min(height - 1 + r, toY(fy))),
+    ]);
+
+    stamp(points[0][0], points[0][1], r, value);
+    for (let p = 1; p < points.length; p++) {
+      const [ax, ay] = points[p - 1];
+      const [bx, by] = points[p];
+      // Overlapping stamps along the segment
+      const steps = Math.max(1, Math.ceil(Math.hypot(bx - ax, by - ay) / (r / 2)));
+      for (let s = 1; s <= steps; s++) {
+        stamp(ax + ((bx - ax) * s) / steps, ay + ((by - ay) * s) / steps, r, value);
+      }
+    }
+  }
+  return seeds;
+}
+
+/**
+ * Grow the seeds over the image; returns 1 for subject pixels
+ * Without background strokes the image border counts as background. Without
+ * subject strokes the background floods from its strokes up to a color
+ * tolerance and everything it doesn't reach is the subject.
+ */
+export function segmentSubject(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  seeds: Uint8Array
+): Uint8Array {
+  const size = width * height;
+  const labels = new Uint8Array(seeds);
+  let hasSubject = false;
+  let hasBackground = false;
+  for (let i = 0; i < size; i++) {
+    if (labels[i] === SUBJECT) hasSubject = true;
+    else if (labels[i] === BACKGROUND) hasBackground = true;
+  }
+
+  const subject = new Uint8Array(size);
+  if (!hasSubject && !hasBackground) {
+    subject.fill(1);
+    return subject;
+  }
+
+  if (hasSubject && !hasBackground) {
+    for (let x = 0; x < width; x++) {
+      if (labels[x] === UNKNOWN) labels[x] = BACKGROUND;
+      if (labels[size - width + x] === UNKNOWN) labels[size - width + x] = BACKGROUND;
+    }
+    for (let y = 0; y < height; y++) {
+      if (labels[y * width] === UNKNOWN) labels[y * width] = BACKGROUND;
+      if (labels[y * width + width - 1] === UNKNOWN) labels[y * width + width - 1] = BACKGROUND;
+    }
+  }
+
+  // Bucket queue on integer path costs; costs never decrease along a path
+  const cost = new Uint16Array(size).fill(0xffff);
+  const done = new Uint8Array(size);
+  const buckets: number[][] = Array.from({ length: MAX_STEP + 1 }, () => []);
+  for (let i = 0; i < size; i++) {
+    if (labels[i] !== UNKNOWN) {
+      cost[i] = 0;
+      buckets[0].push(i);
+    }
+  }
+
+  const step = (a: number, b: number) => {
+    const dr = data[a * 4] - data[b * 4];
+    const dg = data[a * 4 + 1] - data[b * 4 + 1];
+    const db = data[a * 4 + 2] - data[b * 4 + 2];
+    return Math.ceil(Math.sqrt(dr * dr + dg * dg + db * db));
+  };
+
+  for (let level = 0; level <= MAX_STEP; level++) {
+    const bucket = buckets[level];
+    while (bucket.length) {
+      const p = bucket.pop()!;
+      if (done[p] || cost[p] !== level) continue;
+      done[p] = 1;
+
+      const x = p % width;
+      const neighbours = [
+        x > 0 ? p - 1 : -1,
+        x < width - 1 ? p + 1 : -1,
+        p >= width ? p - width : -1,
+        p < size - width ? p + width : -1,
+      ];
+      for (const q of neighbours) {
+        if (q < 0 || done[q]) continue;
+        const c = Math.max(level, step(p, q));
+        if (c < cost[q]) {
+          cost[q] = c;
+          labels[q] = labels[p];
+          buckets[c].push(q);
+        }
+      }
+    }
+  }
+
+  for (let i = 0; i < size; i++) {
+    subject[i] = hasSubject
+      ? (labels[i] === SUBJECT ? 1 : 0)
+      : (cost[i] > BACKGROUND_TOLERANCE ? 1 : 0);
+  }
+  return subject;
+}
+
+/**
+ * Repeated separable box blur (≈ Gaussian) of the RGB channels
+ */
+function boxBlur(data: Uint8ClampedArray, width: number, height: number, radius: number): Uint8ClampedArray {
+  let src: Float32Array = new Float32Array(data);
+  for (let pass = 0; pass < 2; pass++) {
+    src = blurAxis(src, width, height, radius, true);
+    src = blurAxis(src, width, height, radius, false);
+  }
+  return new Uint8ClampedArray(src);
+}
+
+function blurAxis(src: Float32Array, width: number, height: number, radius: number, horizontal: boolean): Float32Array {
+  const out = new Float32Array(src.length);
+  const length = horizontal ? width : height;
+  const lines = horizontal ? height : width;
+  const index = (line: number, pos: number) =>
+    (horizontal ? line * width + pos : pos * width + line) * 4;
+
+  for (let line = 0; line < lines; line++) {
+    for (let c = 0; c < 4; c++) {
+      // Running sum over a window with clamped borders
+      let sum = 0;
+      for (let k = -radius; k <= radius; k++) {
+        sum += src[index(line, Math.min(length - 1, Math.max(0, k))) + c];
+      }
+      for (let pos = 0; pos < length; pos++) {
+        out[index(line, pos) + c] = sum / (radius * 2 + 1);
+        sum += src[index(line, Math.min(length - 1, pos + radius + 1)) + c];
+        sum -= src[index(line, Math.max(0, pos - radius)) + c];
+      }
+    }
+  }
+  return out;
+}
@@ -0,0 +1,71 @@
+/**
+ * Checks on uploaded images, shared by the book routes and /api/debug
+ * The format comes from the magic bytes (never File.type) and the pixel count
+ * from the header, so oversized or disguised files are refused before decoding.
+ */
+
+import { MessageKey, MessageParams } from './i18n';
+import { detectImageFormat, readImageSize, ImageFormat } from './imageUtils';
+
+/** Largest single image upload */
+export const MAX_UPLOAD_BYTES = 15 * 1024 * 1024;
+
+/** Largest sum of all files in one request (photos, solutions, cover) */
+export const MAX_TOTAL_UPLOAD_BYTES = 100 * 1024 * 1024;
+
+/** Largest image in pixels; a 48 MP phone photo passes, decompression bombs don't */
+export const MAX_PIXELS = 60_000_000;
+
+export interface UploadIssue {
+  key: MessageKey;
+  params: MessageParams;
+  /** HTTP status: 413 for size limits, 400 otherwise */
+  status: number;
+}
+
+const MB = 1024 * 1024;
+
+/**
+ * Size check from the form entry alone (before reading it into memory)
+ */
+export function checkUploadSize(file: Blob, label: string): UploadIssue | null {
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return { key: 'api.fileTooLarge', params: { file: label, max: MAX_UPLOAD_BYTES / MB }, status: 413 };
+  }
+  return null;
+}
+
+/**
+ * Total size of all files of a request
+ */
+export function checkTotalUploadSize(files: Blob[]): UploadIssue | null {
+  const total = files.reduce((sum, file) => sum + file.size, 0);
+  if (total > MAX_TOTAL_UPLOAD_BYTES) {
+    return { key: 'api.uploadTooLarge', params: { max: MAX_TOTAL_UPLOAD_BYTES / MB }, status: 413 };
+  }
+  return null;
+}
+
+/**
+ * Real format and pixel count of an image; `allowed` narrows the formats
+ * (e.g. browser-converted pages are always PNG)
+ */
+export function checkImage(
+  bytes: Uint8Array,
+  label: string,
+  allowed: ImageFormat[] = ['jpeg', 'png', 'webp']
+): UploadIssue | null {
+  const format = detectImageFormat(bytes);
+  if (!format || !allowed.includes(format)) {
+    return { key: 'api.unsupportedFormat', params: { file: label }, status: 400 };
+  }
+
+  const size = readImageSize(bytes, format);
+  if (!size || !size.width || !size.height) {
+    return { key: 'api.unreadableImage', params: { file: label }, status: 400 };
+  }
+  if (size.width * size.height > MAX_PIXELS) {
+    return { key: 'api.tooManyPixels', params: { file: label, max: MAX_PIXELS / 1_000_000 }, status: 413 };
+  }
+  return null;
+}
@@ -0,0 +1,466 @@
+/**
+ * Trace binary line art into smoothed Bezier paths
+ * Thinning → pixel chains → Douglas-Peucker simplification → Catmull-Rom curves
+ *
+ * The result is drawn by pdfGenerator.ts as native vector strokes, so pages
+ * print crisp at any size instead of scaling up an 800px bitmap.
+ */
+
+export interface BezierPath {
+  /** Start point in pixel coordinates */
+  start: [number, number];
+  /** Cubic segments: [c1x, c1y, c2x, c2y, x, y], absolute pixel coordinates */
+  segments: [number, number, number, number, number, number][];
+  closed: boolean;
+}
+
+export interface VectorLabel {
+  x: number;
+  y: number;
+  text: string;
+  /** Glyph height in pixels */
+  size: number;
+}
+
+export interface VectorDot {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+export interface VectorArt {
+  /** Source raster size the coordinates refer to */
+  width: number;
+  height: number;
+  /** Stroke width in source pixels */
+  strokeWidth: number;
+  paths: BezierPath[];
+  labels?: VectorLabel[];
+  /** Filled dots (dot-to-dot pages) */
+  dots?: VectorDot[];
+}
+
+/** Limits on line art uploaded by the browser, far above what a page traces to */
+const MAX_VECTOR_PATHS = 50_000;
+const MAX_VECTOR_SEGMENTS = 500_000;
+const MAX_VECTOR_LABELS = 10_000;
+const MAX_VECTOR_DOTS = 1_000;
+const LABEL_TEXT = /^[0-9]{1,4}$/;
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value);
+}
+
+function isPoint(value: unknown, length: number): boolean {
+  return Array.isArray(value) && value.length === length && value.every(isFiniteNumber);
+}
+
+function isBezierPath(value: unknown): value is BezierPath {
+  if (!value || typeof value !== 'object') return false;
+  const { start, segments, closed } = value as Record<string, unknown>;
+  return isPoint(start, 2) && typeof closed === 'boolean'
+    && Array.isArray(segments) && segments.every(segment => isPoint(segment, 6));
+}
+
+function isVectorLabel(value: unknown): value is VectorLabel {
+  if (!value || typeof value !== 'object') return false;
+  const { x, y, text, size } = value as Record<string, unknown>;
+  return isFiniteNumber(x) && isFiniteNumber(y) && isFiniteNumber(size) && size > 0
+    && typeof text === 'string' && LABEL_TEXT.test(text);
+}
+
+function isVectorDot(value: unknown): value is VectorDot {
+  if (!value || typeof value !== 'object') return false;
+  const { x, y, radius } = value as Record<string, unknown>;
+  return isFiniteNumber(x) && isFiniteNumber(y) && isFiniteNumber(radius) && radius > 0;
+}
+
+/**
+ * Check line art uploaded by the browser: sizes, every path, label and dot,
+ * and bounded counts
+ */
+export function isVectorArt(value: unknown): value is VectorArt {
+  if (!value || typeof value !== 'object') return false;
+  const art = value as Record<string, unknown>;
+  const { paths, labels, dots } = art;
+  if (!(isFiniteNumber(art.width) && art.width > 0 && isFiniteNumber(art.height) && art.height > 0
+    && isFiniteNumber(art.strokeWidth) && art.strokeWidth >= 0)) {
+    return false;
+  }
+  if (!Array.isArray(paths) || paths.length > MAX_VECTOR_PATHS || !paths.every(isBezierPath)) return false;
+  const segments = (paths as BezierPath[]).reduce((sum, path) => sum + path.segments.length, 0);
+  return segments <= MAX_VECTOR_SEGMENTS
+    && (labels === undefined || (Array.isArray(labels) && labels.length <= MAX_VECTOR_LABELS && labels.every(isVectorLabel)))
+    && (dots === undefined || (Array.isArray(dots) && dots.length <= MAX_VECTOR_DOTS && dots.every(isVectorDot)));
+}
+
+/** Max deviation (px) allowed when simplifying pixel chains */
+const SIMPLIFY_TOLERANCE = 0.9;
+
+/**
+ * Trace a binary mask (1 = line) into vector paths
+ */
+export function traceLineArt(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  strokeWidth: number = 1
+): VectorArt {
+  const skeleton = thin(mask, width, height);
+  const chains = extractChains(skeleton, width, height);
+
+  const paths: BezierPath[] = [];
+  for (const chain of chains) {
+    const simplified = simplify(chain.points, SIMPLIFY_TOLERANCE);
+    if (simplified.length < 2) continue;
+    paths.push(toBezier(simplified, chain.closed));
+  }
+
+  return { width, height, strokeWidth, paths };
+}
+
+/**
+ * Trace the borders of a region map into vector paths
+ * Borders run along pixel edges between different ids, split where three or
+ * more regions meet, so a border two regions share is one path instead of
+ * one per region (or a junction-riddled skeleton of a border mask).
+ */
+export function traceRegionBorders(
+  ids: ArrayLike<number>,
+  width: number,
+  height: number,
+  strokeWidth: number = 1
+): VectorArt {
+  const stride = width + 1;
+  // Edge between two pixels that differ: horizontal edges run from corner
+  // (x, y) to (x + 1, y), vertical ones from (x, y) to (x, y + 1)
+  const horizontal = new Uint8Array(width * (height + 1));
+  const vertical = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      if (y > 0 && ids[p - width] !== ids[p]) horizontal[y * width + x] = 1;
+      if (x > 0 && ids[p - 1] !== ids[p]) vertical[y * stride + x] = 1;
+    }
+  }
+
+  // Edges still untraced at a corner, as [edges, index, next corner x, y]
+  const edgesAt = (x: number, y: number): [Uint8Array, number, number, number][] => {
+    const edges: [Uint8Array, number, number, number][] = [];
+    if (x > 0 && horizontal[y * width + x - 1]) edges.push([horizontal, y * width + x - 1, x - 1, y]);
+    if (x < width && horizontal[y * width + x]) edges.push([horizontal, y * width + x, x + 1, y]);
+    if (y > 0 && vertical[(y - 1) * stride + x]) edges.push([vertical, (y - 1) * stride + x, x, y - 1]);
+    if (y < height && vertical[y * stride + x]) edges.push([vertical, y * stride + x, x, y + 1]);
+    return edges;
+  };
+
+  // Corners where borders end or meet; every other corner passes one border through
+  const isNode = new Uint8Array(stride * (height + 1));
+  for (let y = 0; y <= height; y++) {
+    for (let x = 0; x <= width; x++) {
+      const degree = edgesAt(x, y).length;
+      if (degree > 0 && degree !== 2) isNode[y * stride + x] = 1;
+    }
+  }
+
+  // Follow a border from a corner, removing its edges, up to the next node
+  // (or back to the start for a loop)
+  const walk = (x: number, y: number): [number, number][] => {
+    const points: [number, number][] = [[x, y]];
+    const start = y * stride + x;
+    for (;;) {
+      const edge = edgesAt(x, y)[0];
+      if (!edge) break;
+      edge[0][edge[1]] = 0;
+      [, , x, y] = edge;
+      points.push([x, y]);
+      if (isNode[y * stride + x] || y * stride + x === start) break;
+    }
+    return points;
+  };
+
+  const chains: { points: [number, number][]; closed: boolean }[] = [];
+  for (let y = 0; y <= height; y++) {
+    for (let x = 0; x <= width; x++) {
+      if (!isNode[y * stride + x]) continue;
+      while (edgesAt(x, y).length) chains.push({ points: walk(x, y), closed: false });
+    }
+  }
+  // What is left are borders around a region inside a single other one
+  for (let y = 0; y <= height; y++) {
+    for (let x = 0; x <= width; x++) {
+      if (!edgesAt(x, y).length) continue;
+      const points = walk(x, y);
+      chains.push({ points: points.slice(0, -1), closed: true });
+    }
+  }
+
+  const paths: BezierPath[] = [];
+  for (const chain of chains) {
+    const simplified = simplify(chain.points, SIMPLIFY_TOLERANCE);
+    if (simplified.length < 2) continue;
+    paths.push(toBezier(simplified, chain.closed && simplified.length > 2));
+  }
+
+  return { width, height, strokeWidth, paths };
+}
+
+/**
+ * Zhang-Suen thinning so every stroke is one pixel wide
+ */
+function thin(mask: Uint8Array, width: number, height: number): Uint8Array {
+  const img = new Uint8Array(mask);
+  const toClear: number[] = [];
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+    for (let step = 0; step < 2; step++) {
+      toClear.length = 0;
+      for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+          const p = y * width + x;
+          if (!img[p]) continue;
+
+          // Neighbours clockwise from north
+          const n = [
+            img[p - width], img[p - width + 1], img[p + 1], img[p + width + 1],
+            img[p + width], img[p + width - 1], img[p - 1], img[p - width - 1],
+          ];
+          let count = 0;
+          let transitions = 0;
+          for (let i = 0; i < 8; i++) {
+            count += n[i];
+            if (!n[i] && n[(i + 1) % 8]) transitions++;
+          }
+          if (count < 2 || count > 6 || transitions !== 1) continue;
+
+          if (step === 0) {
+            if (n[0] * n[2] * n[4] || n[2] * n[4] * n[6]) continue;
+          } else {
+            if (n[0] * n[2] * n[6] || n[0] * n[4] * n[6]) continue;
+          }
+          toClear.push(p);
+        }
+      }
+      for (const p of toClear) img[p] = 0;
+      if (toClear.length) changed = true;
+    }
+  }
+
+  // Zhang-Suen leaves 4-connected staircases; drop every pixel whose
+  // neighbours stay 8-connected without it, or the chain walker would
+  // see a junction at every step of a diagonal line
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const p = y * width + x;
+      if (img[p] && isRedundant(img, p, width)) img[p] = 0;
+    }
+  }
+
+  return img;
+}
+
+/**
+ * True when the pixel has 2+ neighbours that form a single 8-connected group
+ * among themselves, i.e. removing it changes neither topology nor line ends
+ */
+function isRedundant(img: Uint8Array, p: number, width: number): boolean {
+  // Ring clockwise from north; even indices are the 4-neighbours
+  const ring = [
+    img[p - width], img[p - width + 1], img[p + 1], img[p + width + 1],
+    img[p + width], img[p + width - 1], img[p - 1], img[p - width - 1],
+  ];
+  const set = ring.reduce((a, b) => a + b, 0);
+  if (set < 2) return false;
+
+  const seen = new Uint8Array(8);
+  const stack = [ring.findIndex(v => v)];
+  seen[stack[0]] = 1;
+  let reached = 1;
+  while (stack.length) {
+    const i = stack.pop()!;
+    const adjacent = [(i + 1) % 8, (i + 7) % 8];
+    if (i % 2 === 0) adjacent.push((i + 2) % 8, (i + 6) % 8);
+    for (const j of adjacent) {
+      if (ring[j] && !seen[j]) {
+        seen[j] = 1;
+        reached++;
+        stack.push(j);
+      }
+    }
+  }
+  return reached === set;
+}
+
+const OFFSETS: [number, number][] = [
+  // 4-neighbours first so walks prefer straight steps
+  [0, -1], [1, 0], [0, 1], [-1, 0],
+  [1, -1], [1, 1], [-1, 1], [-1, -1],
+];
+
+/**
+ * Split a one-pixel skeleton into chains between endpoints and junctions,
+ * plus closed loops
+ */
+function extractChains(
+  skeleton: Uint8Array,
+  width: number,
+  height: number
+): { points: [number, number][]; closed: boolean }[] {
+  const neighbours = (p: number): number[] => {
+    const x = p % width;
+    const y = (p - x) / width;
+    const result: number[] = [];
+    for (const [dx, dy] of OFFSETS) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+      const n = ny * width + nx;
+      if (skeleton[n]) result.push(n);
+    }
+    return result;
+  };
+
+  const degree = new Uint8Array(width * height);
+  for (let p = 0; p < skeleton.length; p++) {
+    if (skeleton[p]) degree[p] = neighbours(p).length;
+  }
+
+  const visited = new Uint8Array(width * height);
+  const linked = new Set<string>();
+  const chains: { points: [number, number][]; closed: boolean }[] = [];
+  const point = (p: number): [number, number] => [p % width, Math.floor(p / width)];
+  const isNode = (p: number) => degree[p] !== 2;
+
+  const walk = (from: number, next: number): number[] => {
+    const chain = [from, next];
+    let prev = from;
+    let current = next;
+    while (!isNode(current)) {
+      visited[current] = 1;
+      const step = neighbours(current).find(n => n !== prev && !visited[n]);
+      if (step === undefined) {
+        // Chain ran into a node adjacent to its previous pixel
+        const node = neighbours(current).find(n => n !== prev && isNode(n));
+        if (node !== undefined) chain.push(node);
+        break;
+      }
+      chain.push(step);
+      prev = current;
+      current = step;
+    }
+    return chain;
+  };
+
+  // Open chains starting at endpoints and junctions
+  for (let p = 0; p < skeleton.length; p++) {
+    if (!skeleton[p] || !isNode(p)) continue;
+    visited[p] = 1;
+    for (const n of neighbours(p)) {
+      if (isNode(n)) {
+        // Direct node-to-node link, keep it only once
+        const key = p < n ? `${p}:${n}` : `${n}:${p}`;
+        if (linked.has(key)) continue;
+        linked.add(key);
+        chains.push({ points: [point(p), point(n)], closed: false });
+        continue;
+      }
+      if (visited[n]) continue;
+      chains.push({ points: walk(p, n).map(point), closed: false });
+    }
+  }
+
+  // Whatever is left consists of closed loops
+  for (let p = 0; p < skeleton.length; p++) {
+    if (!skeleton[p] || visited[p]) continue;
+    visited[p] = 1;
+    const chain = [p];
+    let current = p;
+    for (;;) {
+      const step = neighbours(current).find(n => !visited[n]);
+      if (step === undefined) break;
+      visited[step] = 1;
+      chain.push(step);
+      current = step;
+    }
+    chains.push({ points: chain.map(point), closed: chain.length > 2 });
+  }
+
+  return chains;
+}
+
+/**
+ * Ramer-Douglas-Peucker polyline simplification
+ */
+function simplify(points: [number, number][], tolerance: number): [number, number][] {
+  if (points.length < 3) return points;
+
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+  const stack: [number, number][] = [[0, points.length - 1]];
+
+  while (stack.length) {
+    const [first, last] = stack.pop()!;
+    const [ax, ay] = points[first];
+    const [bx, by] = points[last];
+    const dx = bx - ax;
+    const dy = by - ay;
+    const length = Math.hypot(dx, dy);
+
+    let maxDist = 0;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const [px, py] = points[i];
+      const dist = length === 0
+        ? Math.hypot(px - ax, py - ay)
+        : Math.abs(dy * px - dx * py + bx * ay - by * ax) / length;
+      if (dist > maxDist) {
+        maxDist = dist;
+        index = i;
+      }
+    }
+
+    if (index !== -1 && maxDist > tolerance) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
+
+/**
+ * Smooth a polyline into cubic Beziers (Catmull-Rom through every point)
+ */
+function toBezier(points: [number, number][], closed: boolean): BezierPath {
+  const n = points.length;
+  const at = (i: number): [number, number] => {
+    if (closed) return points[(i + n) % n];
+    return points[Math.max(0, Math.min(n - 1, i))];
+  };
+
+  const segments: BezierPath['segments'] = [];
+  const count = closed ? n : n - 1;
+  for (let i = 0; i < count; i++) {
+    const p0 = at(i - 1);
+    const p1 = at(i);
+    const p2 = at(i + 1);
+    const p3 = at(i + 2);
+    segments.push([
+      round(p1[0] + (p2[0] - p0[0]) / 6),
+      round(p1[1] + (p2[1] - p0[1]) / 6),
+      round(p2[0] - (p3[0] - p1[0]) / 6),
+      round(p2[1] - (p3[1] - p1[1]) / 6),
+      p2[0],
+      p2[1],
+    ]);
+  }
+
+  return { start: points[0], segments, closed };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
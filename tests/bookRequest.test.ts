@@ -0,0 +1,55 @@
+/**
+ * Request parsing: malformed photo edits must give a BookRequestError
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { BookRequestError, parseBookRequest } from '../src/lib/bookBuilder';
+
+async function formWithEdits(edits: unknown): Promise<FormData> {
+  const photo = await readFile(path.join(__dirname, 'fixtures', 'sun.jpg'));
+  const formData = new FormData();
+  formData.append('name', 'Emma');
+  formData.append('photos', new File([photo], 'sun.jpg', { type: 'image/jpeg' }));
+  formData.append('edits', typeof edits === 'string' ? edits : JSON.stringify(edits));
+  return formData;
+}
+
+async function expectEditsError(edits: unknown, code: string, field?: string) {
+  await assert.rejects(parseBookRequest(await formWithEdits(edits), 'en'), (error: unknown) => {
+    assert.ok(error instanceof BookRequestError);
+    assert.equal(error.code, code);
+    if (field) assert.equal(error.params.field, field);
+    return true;
+  });
+}
+
+const stroke = { label: 'subject', radius: 0.025, points: [[0.4, 0.5], [0.5, 0.55]] };
+
+test('edits: valid edits pass through', async () => {
+  const edits = [{ rotation: 90, crop: { x: 0.1, y: 0, width: 0.8, height: 1 }, detail: 0.5, mask: { strokes: [stroke] } }];
+  const request = await parseBookRequest(await formWithEdits(edits), 'en');
+  assert.deepEqual(request.edits, edits);
+});
+
+test('edits: unreadable or miscounted', async () => {
+  await expectEditsError('{', 'editsUnreadable');
+  await expectEditsError([null, null], 'editsCountMismatch');
+});
+
+test('edits: bad rotation, crop, detail and contrast', async () => {
+  await expectEditsError([{ rotation: 45 }], 'invalidEdits', 'rotation');
+  await expectEditsError([{ crop: { x: 0, y: 0, width: 1.5, height: 1 } }], 'invalidEdits', 'crop');
+  await expectEditsError([{ detail: 'more' }], 'invalidEdits', 'detail');
+  await expectEditsError([{ contrast: 3 }], 'invalidEdits', 'contrast');
+});
+
+test('edits: mask with a null stroke', async () => {
+  await expectEditsError([{ mask: { strokes: [null] } }], 'invalidEdits', 'mask');
+});
+
+test('edits: mask with out-of-range points', async () => {
+  await expectEditsError([{ mask: { strokes: [{ ...stroke, points: [[0, 0], [1e12, -1e12]] }] } }], 'invalidEdits', 'mask');
+});
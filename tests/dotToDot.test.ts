@@ -0,0 +1,75 @@
+/**
+ * Layout checks for dot-to-dot pages on the fixture photos
+ * At every difficulty the dots must follow the photo's subject (not the
+ * fallback ellipse), come close to the preset's count and keep every number
+ * clear of the others.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DIFFICULTY_PRESETS, Difficulty } from '../src/lib/difficulty';
+import { dotToDot, labelBox, MAX_DOTS, MIN_DOTS, Rect } from '../src/lib/dotToDot';
+import { resizeImage } from '../src/lib/imageCore';
+import { FIXTURES, loadFixture } from './helpers';
+
+/** Bounding box of each fixture's subject as fractions: left, top, right, bottom */
+const SUBJECTS: Record<string, [number, number, number, number]> = {
+  sun: [0.51, 0.14, 0.75, 0.49],
+  cat: [0.22, 0.17, 0.78, 0.83],
+  house: [0.2, 0.23, 0.81, 0.88],
+};
+const BOX_TOLERANCE = 0.04;
+
+/** Dots the outline holds with the smallest numbers (5 px, 1.2 labels apart) */
+const SMALLEST_SPACING = 6;
+
+function overlaps(a: Rect, b: Rect): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+for (const fixture of FIXTURES) {
+  for (const difficulty of Object.keys(DIFFICULTY_PRESETS) as Difficulty[]) {
+    test(`${fixture}: ${difficulty} dot-to-dot`, async () => {
+      const preset = DIFFICULTY_PRESETS[difficulty];
+      const { data, width, height } = resizeImage(await loadFixture(fixture), preset.maxDimension);
+      const result = dotToDot(data, width, height, preset.dotToDot);
+      const { dots } = result;
+
+      assert.ok(result.traced, 'fell back to the ellipse');
+      const xs = dots.map(([x]) => x / width);
+      const ys = dots.map(([, y]) => y / height);
+      const box = [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+      box.forEach((side, i) => {
+        assert.ok(Math.abs(side - SUBJECTS[fixture][i]) <= BOX_TOLERANCE, `outline box ${box.map(v => v.toFixed(2))}`);
+      });
+
+      const wanted = preset.dotToDot.dots!;
+      const outline = dots.reduce((sum, dot, i) => {
+        const [nx, ny] = dots[(i + 1) % dots.length];
+        return sum + Math.hypot(nx - dot[0], ny - dot[1]);
+      }, 0);
+      const room = Math.min(wanted, Math.floor(outline / SMALLEST_SPACING));
+      assert.ok(dots.length >= MIN_DOTS && dots.length <= MAX_DOTS, `${dots.length} dots`);
+      assert.ok(dots.length >= room * 0.8, `${dots.length} of ${wanted} dots, room for ${room}`);
+      assert.equal(result.shortfall, Math.max(0, wanted - dots.length));
+
+      assert.equal(result.labels.length, dots.length);
+      const boxes = result.labels.map(labelBox);
+      boxes.forEach((label, i) => {
+        assert.ok(label.x >= 0 && label.y >= 0, `label ${i + 1} outside the page`);
+        assert.ok(label.x + label.width <= width && label.y + label.height <= height, `label ${i + 1} outside the page`);
+        for (let j = i + 1; j < boxes.length; j++) {
+          assert.ok(!overlaps(label, boxes[j]), `labels ${i + 1} and ${j + 1} overlap`);
+        }
+      });
+    });
+  }
+}
+
+test('blank photo: falls back to an ellipse', () => {
+  const width = 320, height = 240;
+  const data = new Uint8ClampedArray(width * height * 4).fill(250);
+  const result = dotToDot(data, width, height, DIFFICULTY_PRESETS.kind.dotToDot);
+  assert.equal(result.traced, false);
+  assert.ok(result.dots.length >= MIN_DOTS);
+});
@@ -0,0 +1,59 @@
+/**
+ * Fixture loading and golden-image comparison for the conversion tests
+ * Goldens live in tests/golden; `UPDATE_GOLDEN=1 npm test` rewrites them
+ * after an intended change to a conversion.
+ */
+
+import { existsSync } from 'fs';
+import { readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { Jimp } from 'jimp';
+import { RgbaImage } from '../src/lib/imageCore';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+const GOLDEN_DIR = path.join(__dirname, 'golden');
+
+/** Channel difference that still counts as the same pixel */
+const CHANNEL_TOLERANCE = 16;
+/** Share of pixels allowed to differ beyond CHANNEL_TOLERANCE */
+const PIXEL_TOLERANCE = 0.005;
+
+export const FIXTURES = ['sun', 'cat', 'house'];
+
+export async function loadFixture(name: string): Promise<RgbaImage> {
+  const { data, width, height } = (await Jimp.fromBuffer(await readFile(path.join(FIXTURES_DIR, `${name}.jpg`)))).bitmap;
+  return { data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.length), width, height };
+}
+
+/**
+ * Compare RGBA pixels to tests/golden/<name>.png; throws with the share of
+ * differing pixels when it exceeds the tolerance
+ */
+export async function expectGolden(name: string, pixels: Uint8ClampedArray, width: number, height: number): Promise<void> {
+  const file = path.join(GOLDEN_DIR, `${name}.png`);
+  if (process.env.UPDATE_GOLDEN) {
+    const image = Jimp.fromBitmap({ data: Buffer.from(pixels.buffer, pixels.byteOffset, pixels.length), width, height });
+    await writeFile(file, await image.getBuffer('image/png'));
+    return;
+  }
+  if (!existsSync(file)) {
+    throw new Error(`Missing golden ${path.relative(process.cwd(), file)} (run with UPDATE_GOLDEN=1)`);
+  }
+
+  const golden = (await Jimp.fromBuffer(await readFile(file))).bitmap;
+  if (golden.width !== width || golden.height !== height) {
+    throw new Error(`${name}: ${width}x${height}, golden is ${golden.width}x${golden.height}`);
+  }
+  let differing = 0;
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (Math.abs(pixels[i] - golden.data[i]) > CHANNEL_TOLERANCE
+      || Math.abs(pixels[i + 1] - golden.data[i + 1]) > CHANNEL_TOLERANCE
+      || Math.abs(pixels[i + 2] - golden.data[i + 2]) > CHANNEL_TOLERANCE) {
+      differing++;
+    }
+  }
+  const share = differing / (width * height);
+  if (share > PIXEL_TOLERANCE) {
+    throw new Error(`${name}: ${(share * 100).toFixed(2)}% of pixels differ from the golden (max ${PIXEL_TOLERANCE * 100}%)`);
+  }
+}
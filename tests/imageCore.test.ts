@@ -0,0 +1,49 @@
+/**
+ * Golden-image regression tests for the shared conversion core
+ * Each fixture photo is scaled and converted exactly like a book page;
+ * results must match the stored goldens within a small pixel tolerance.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DIFFICULTY_PRESETS, Difficulty } from '../src/lib/difficulty';
+import { convertToColoringPage, convertToPaintByNumbers, resizeImage } from '../src/lib/imageCore';
+import { colorDistance, MIN_COLOR_DISTANCE } from '../src/lib/paintByNumbers';
+import { expectGolden, FIXTURES, loadFixture } from './helpers';
+
+// Small processing size keeps the goldens small and the suite fast
+const TEST_DIMENSION = 240;
+const { coloring, paintByNumbers } = DIFFICULTY_PRESETS.kind;
+
+for (const fixture of FIXTURES) {
+  test(`${fixture}: resizeImage`, async () => {
+    const photo = await loadFixture(fixture);
+    const resized = resizeImage(photo, TEST_DIMENSION);
+    assert.equal(Math.max(resized.width, resized.height), TEST_DIMENSION);
+    await expectGolden(`${fixture}-resized`, resized.data, resized.width, resized.height);
+  });
+
+  test(`${fixture}: convertToColoringPage`, async () => {
+    const photo = resizeImage(await loadFixture(fixture), TEST_DIMENSION);
+    const { pixels } = convertToColoringPage(photo, coloring);
+    await expectGolden(`${fixture}-coloring`, pixels, photo.width, photo.height);
+  });
+
+  test(`${fixture}: convertToPaintByNumbers`, async () => {
+    const photo = resizeImage(await loadFixture(fixture), TEST_DIMENSION);
+    const page = convertToPaintByNumbers(photo, paintByNumbers);
+    assert.ok(page.palette.length >= 2 && page.palette.length <= (paintByNumbers.numColors ?? 12));
+    await expectGolden(`${fixture}-paint-by-numbers`, page.pixels, photo.width, photo.height);
+    await expectGolden(`${fixture}-solution`, page.solution, photo.width, photo.height);
+  });
+
+  test(`${fixture}: palette colors are told apart`, async () => {
+    const photo = resizeImage(await loadFixture(fixture), TEST_DIMENSION);
+    for (const difficulty of Object.keys(DIFFICULTY_PRESETS) as Difficulty[]) {
+      const { palette } = convertToPaintByNumbers(photo, DIFFICULTY_PRESETS[difficulty].paintByNumbers);
+      palette.forEach((a, i) => palette.slice(i + 1).forEach(b => {
+        assert.ok(colorDistance(a, b) >= MIN_COLOR_DISTANCE, `${difficulty}: ${a} and ${b} are ${colorDistance(a, b).toFixed(1)} apart`);
+      }));
+    }
+  });
+}
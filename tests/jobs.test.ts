@@ -0,0 +1,41 @@
+/**
+ * Job store expiry and when the page may poll background jobs
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import { backgroundJobsAvailable, Job, JOB_TTL_MS, MemoryJobStore } from '../src/lib/jobs';
+
+function job(updatedAt: Date): Job {
+  return {
+    id: randomUUID(),
+    name: 'Emma',
+    state: 'done',
+    page: 0,
+    totalPages: 1,
+    createdAt: updatedAt.toISOString(),
+    updatedAt: updatedAt.toISOString(),
+  };
+}
+
+test('MemoryJobStore: expired jobs are gone on read', async () => {
+  const store = new MemoryJobStore();
+  const fresh = job(new Date());
+  const expiring = job(new Date());
+  await store.create(fresh);
+  await store.create(expiring);
+  await store.saveResult(expiring.id, Buffer.from('%PDF-1.3'));
+
+  // Aged after creation, so only a read can notice it
+  await store.update({ ...expiring, updatedAt: new Date(Date.now() - JOB_TTL_MS - 1000).toISOString() });
+  assert.equal(await store.getResult(expiring.id), null);
+  assert.equal(await store.get(expiring.id), null);
+  assert.equal((await store.get(fresh.id))?.id, fresh.id);
+});
+
+test('backgroundJobsAvailable: production needs a shared store', () => {
+  assert.equal(backgroundJobsAvailable({ NODE_ENV: 'production' }), false);
+  assert.equal(backgroundJobsAvailable({ NODE_ENV: 'production', JOB_STORE_DIR: '/data/jobs' }), true);
+  assert.equal(backgroundJobsAvailable({ NODE_ENV: 'development' }), true);
+});
@@ -0,0 +1,35 @@
+/**
+ * Size of vector books against raster ones on the fixture photos
+ * Traced pages replace one PNG per page with path operators; badly traced
+ * or uncompressed paths used to make them an order of magnitude larger.
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { buildBook, parseBookRequest } from '../src/lib/bookBuilder';
+import { FIXTURES } from './helpers';
+
+/** Largest vector book allowed, as a multiple of the raster book */
+const MAX_VECTOR_RATIO = 2;
+
+async function bookSize(type: string, output: 'raster' | 'vector'): Promise<number> {
+  const formData = new FormData();
+  formData.append('name', 'Emma');
+  formData.append('type', type);
+  formData.append('output', output);
+  for (const fixture of FIXTURES) {
+    const photo = await readFile(path.join(__dirname, 'fixtures', `${fixture}.jpg`));
+    formData.append('photos', new Blob([photo], { type: 'image/jpeg' }), `${fixture}.jpg`);
+  }
+  return (await buildBook(await parseBookRequest(formData, 'en'))).length;
+}
+
+for (const type of ['coloring', 'paint-by-numbers']) {
+  test(`${type}: vector book stays close to the raster one`, async () => {
+    const raster = await bookSize(type, 'raster');
+    const vector = await bookSize(type, 'vector');
+    assert.ok(vector <= raster * MAX_VECTOR_RATIO, `vector ${vector} B, raster ${raster} B`);
+  });
+}
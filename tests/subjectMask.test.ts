@@ -0,0 +1,50 @@
+/**
+ * Mask validation and stroke rasterizing for client-sent subject masks
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isSubjectMask, MAX_MASK_STROKES, MAX_STROKE_POINTS, rasterizeStrokes } from '../src/lib/subjectMask';
+
+const stroke = { label: 'subject', radius: 0.025, points: [[0.4, 0.5], [0.5, 0.55]] };
+
+test('isSubjectMask: accepts editor masks', () => {
+  assert.ok(isSubjectMask({ strokes: [] }));
+  assert.ok(isSubjectMask({ background: 'simplify', strokes: [stroke, { ...stroke, label: 'background' }] }));
+});
+
+test('isSubjectMask: rejects malformed strokes', () => {
+  const masks: unknown[] = [
+    null,
+    { strokes: null },
+    { strokes: [null] },
+    { strokes: [1] },
+    { strokes: [stroke], background: 'transparent' },
+    { strokes: [{ ...stroke, label: 'foreground' }] },
+    { strokes: [{ ...stroke, radius: NaN }] },
+    { strokes: [{ ...stroke, radius: '0.02' }] },
+    { strokes: [{ ...stroke, radius: 0 }] },
+    { strokes: [{ ...stroke, radius: 1e9 }] },
+    { strokes: [{ ...stroke, points: null }] },
+    { strokes: [{ ...stroke, points: [null] }] },
+    { strokes: [{ ...stroke, points: [[0.5]] }] },
+    { strokes: [{ ...stroke, points: [[0.5, '0.5']] }] },
+    { strokes: [{ ...stroke, points: [[0, 0], [1e12, -1e12]] }] },
+    { strokes: [{ ...stroke, points: [[0.5, 1.5]] }] },
+  ];
+  for (const mask of masks) assert.equal(isSubjectMask(mask), false, JSON.stringify(mask));
+});
+
+test('isSubjectMask: bounds stroke and point counts', () => {
+  assert.equal(isSubjectMask({ strokes: Array(MAX_MASK_STROKES + 1).fill(stroke) }), false);
+  const points = Array(MAX_STROKE_POINTS + 1).fill([0.5, 0.5]);
+  assert.equal(isSubjectMask({ strokes: [{ ...stroke, points }] }), false);
+});
+
+test('rasterizeStrokes: points far outside a tight crop stay bounded', () => {
+  const started = Date.now();
+  const frame = { x: 0.5, y: 0.5, width: 0.0001, height: 0.0001 };
+  const seeds = rasterizeStrokes([{ label: 'subject', radius: 0.001, points: [[0, 0], [1, 1], [0, 1]] }], 100, 100, frame);
+  assert.equal(seeds.length, 100 * 100);
+  assert.ok(Date.now() - started < 2000, `took ${Date.now() - started} ms`);
+});
@@ -0,0 +1,67 @@
+/**
+ * Checks on line art uploaded with preprocessed pages
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BookRequestError, parseBookRequest } from '../src/lib/bookBuilder';
+import { isVectorArt } from '../src/lib/vectorTrace';
+
+const art = {
+  width: 400,
+  height: 300,
+  strokeWidth: 2,
+  paths: [{ start: [10, 10], segments: [[20, 10, 30, 20, 40, 40]], closed: false }],
+  labels: [{ x: 50, y: 60, text: '12', size: 10 }],
+  dots: [{ x: 50, y: 50, radius: 2 }],
+};
+
+test('isVectorArt: accepts traced art', () => {
+  assert.ok(isVectorArt(art));
+  assert.ok(isVectorArt({ ...art, labels: undefined, dots: undefined }));
+});
+
+test('isVectorArt: rejects malformed paths, labels and dots', () => {
+  const broken: unknown[] = [
+    { ...art, width: Infinity },
+    { ...art, strokeWidth: '2' },
+    { ...art, paths: [1] },
+    { ...art, paths: [null] },
+    { ...art, paths: [{ ...art.paths[0], start: [10] }] },
+    { ...art, paths: [{ ...art.paths[0], segments: [[1, 2, 3]] }] },
+    { ...art, paths: [{ ...art.paths[0], segments: [[1, 2, 3, 4, 5, NaN]] }] },
+    { ...art, paths: [{ ...art.paths[0], closed: 'yes' }] },
+    { ...art, labels: [null] },
+    { ...art, labels: [{ ...art.labels[0], text: 12 }] },
+    { ...art, labels: [{ ...art.labels[0], text: '<script>' }] },
+    { ...art, labels: [{ ...art.labels[0], size: -1 }] },
+    { ...art, dots: [1] },
+    { ...art, dots: [{ x: 1, y: 1 }] },
+    { ...art, dots: [{ x: 1, y: 'a', radius: 2 }] },
+  ];
+  for (const value of broken) assert.equal(isVectorArt(value), false, JSON.stringify(value));
+});
+
+test('isVectorArt: bounds the counts', () => {
+  assert.equal(isVectorArt({ ...art, dots: Array(1001).fill(art.dots[0]) }), false);
+  assert.equal(isVectorArt({ ...art, labels: Array(10_001).fill(art.labels[0]) }), false);
+  const long = { ...art.paths[0], segments: Array(500_001).fill(art.paths[0].segments[0]) };
+  assert.equal(isVectorArt({ ...art, paths: [long] }), false);
+});
+
+test('manifest: malformed vector gives invalidPageManifest', async () => {
+  for (const vector of [{ ...art, paths: [1] }, { ...art, dots: [{ x: 1, y: 1, radius: null }] }]) {
+    const formData = new FormData();
+    formData.append('name', 'Emma');
+    formData.append('preprocessed', 'true');
+    formData.append('type', 'dot-to-dot');
+    formData.append('page_0', new Blob([new Uint8Array(8)], { type: 'image/png' }), 'page_0.png');
+    formData.append('pages', JSON.stringify([{ file: 'page_0', type: 'dot-to-dot', format: 'png', position: 0, vector }]));
+    await assert.rejects(parseBookRequest(formData, 'en'), (error: unknown) => {
+      assert.ok(error instanceof BookRequestError);
+      assert.equal(error.code, 'invalidPageManifest');
+      assert.equal(error.params.field, 'vector');
+      return true;
+    });
+  }
+});
@@ -0,0 +1,86 @@
+/**
+ * Stripe webhook and order store: signed checkout events against a
+ * temporary order directory
+ */
+
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import Stripe from 'stripe';
+import { NextRequest } from 'next/server';
+import { POST } from '../src/app/api/webhook/route';
+import { createOrder, getOrderStore, orderStoreDir } from '../src/lib/orders';
+
+// Read on first use, so setting them here is early enough
+const WEBHOOK_SECRET = 'whsec_test';
+process.env.STRIPE_SECRET_KEY = 'sk_test_123';
+process.env.STRIPE_WEBHOOK_SECRET = WEBHOOK_SECRET;
+process.env.ORDER_STORE_DIR = mkdtempSync(path.join(os.tmpdir(), 'malbuch-orders-test-'));
+after(() => rmSync(process.env.ORDER_STORE_DIR!, { recursive: true, force: true }));
+
+const stripe = new Stripe('sk_test_123', { apiVersion: '2023-10-16' });
+
+function checkoutEvent(orderId: string, id = `evt_${orderId}`): string {
+  return JSON.stringify({
+    id,
+    object: 'event',
+    type: 'checkout.session.completed',
+    data: {
+      object: { id: `cs_${orderId}`, object: 'checkout.session', payment_status: 'paid', metadata: { orderId } },
+    },
+  });
+}
+
+function post(payload: string): Promise<Response> {
+  const signature = stripe.webhooks.generateTestHeaderString({ payload, secret: WEBHOOK_SECRET });
+  return POST(new NextRequest('http://localhost/api/webhook', {
+    method: 'POST',
+    body: payload,
+    headers: { 'stripe-signature': signature },
+  }));
+}
+
+test('webhook: paid checkout marks the order paid', async () => {
+  const order = await createOrder('Emma', Buffer.from('%PDF-1.3'));
+  const response = await post(checkoutEvent(order.id));
+  assert.equal(response.status, 200);
+
+  const paid = await getOrderStore().get(order.id);
+  assert.equal(paid?.status, 'paid');
+  assert.equal(paid?.checkoutSessionId, `cs_${order.id}`);
+  assert.ok(paid?.downloadToken);
+});
+
+test('webhook: unknown order is not acknowledged', async () => {
+  const response = await post(checkoutEvent('00000000-0000-0000-0000-000000000000'));
+  assert.ok(response.status >= 400, `status ${response.status}`);
+});
+
+test('webhook: duplicate event keeps the first download token', async () => {
+  const order = await createOrder('Emma', Buffer.from('%PDF-1.3'));
+  const payload = checkoutEvent(order.id);
+  assert.equal((await post(payload)).status, 200);
+  const first = await getOrderStore().get(order.id);
+
+  assert.equal((await post(payload)).status, 200);
+  const second = await getOrderStore().get(order.id);
+  assert.equal(second?.downloadToken, first?.downloadToken);
+  assert.equal(second?.paidAt, first?.paidAt);
+});
+
+test('webhook: bad signature is refused', async () => {
+  const response = await POST(new NextRequest('http://localhost/api/webhook', {
+    method: 'POST',
+    body: checkoutEvent('x'),
+    headers: { 'stripe-signature': 't=1,v1=bad' },
+  }));
+  assert.equal(response.status, 400);
+});
+
+test('orderStoreDir: production needs ORDER_STORE_DIR', () => {
+  assert.throws(() => orderStoreDir({ NODE_ENV: 'production' }), /ORDER_STORE_DIR/);
+  assert.equal(orderStoreDir({ NODE_ENV: 'production', ORDER_STORE_DIR: '/data/orders' }), '/data/orders');
+  assert.ok(orderStoreDir({ NODE_ENV: 'development' }).startsWith(os.tmpdir()));
+});